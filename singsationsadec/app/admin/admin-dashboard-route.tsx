@@ -0,0 +1,10 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import AdminDashboard from "@/components/admin-dashboard"
+
+export default function AdminDashboardRoute() {
+  const router = useRouter()
+
+  return <AdminDashboard onBack={() => router.push("/auth")} />
+}
@@ -0,0 +1,19 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import AdminLogin from "@/components/admin-login"
+
+export default function AdminLoginPage() {
+  const router = useRouter()
+
+  // refresh() re-runs the server-side role check on /admin with the new session cookie
+  return (
+    <AdminLogin
+      onNext={() => {
+        router.push("/admin")
+        router.refresh()
+      }}
+      onBack={() => router.push("/auth")}
+    />
+  )
+}
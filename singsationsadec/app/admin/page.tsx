@@ -0,0 +1,14 @@
+import { redirect } from "next/navigation"
+import { getAdminUser } from "@/lib/server/session"
+import AdminDashboardRoute from "./admin-dashboard-route"
+
+export const dynamic = "force-dynamic"
+
+export default async function AdminPage() {
+  // Checked on the server so the dashboard is never sent to a non-admin session
+  if (!(await getAdminUser())) {
+    redirect("/admin/login")
+  }
+
+  return <AdminDashboardRoute />
+}
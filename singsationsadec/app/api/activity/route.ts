@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { recordActivity } from "@/lib/server/activities"
+import { getSessionUser } from "@/lib/server/session"
+
+const activitySchema = z.object({
+  id: z.string().min(1).max(64),
+  eventType: z.enum(["signup", "signin", "song_selection", "recording_complete", "payment"]),
+  timestamp: z.string().datetime(),
+  details: z.record(z.any()).optional(),
+})
+
+export async function POST(request: Request) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+
+  const parsed = activitySchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: "Invalid activity." }, { status: 400 })
+  }
+
+  // Always attribute the activity to the session's user, never to a client-supplied id
+  await recordActivity({ ...parsed.data, userId: user.id })
+
+  return NextResponse.json({ success: true, message: "Activity recorded." })
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { setEntryStatus, toEntryInfo } from "@/lib/server/entries"
+import { getAdminUser, getSessionUser } from "@/lib/server/session"
+
+const statusSchema = z.object({
+  status: z.enum(["submitted", "under_review", "shortlisted", "eliminated", "finalist"]),
+})
+
+// Judges move entries through the competition from the admin dashboard
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  if (!(await getAdminUser())) {
+    const signedIn = !!(await getSessionUser())
+    return NextResponse.json(
+      { success: false, message: signedIn ? "Admin access required." : "Not signed in." },
+      { status: signedIn ? 403 : 401 },
+    )
+  }
+
+  const parsed = statusSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: parsed.error.issues[0].message }, { status: 400 })
+  }
+
+  const entry = await setEntryStatus(params.id, parsed.data.status)
+  if (!entry) {
+    return NextResponse.json({ success: false, message: "Entry not found." }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true, message: "Entry updated.", entry: toEntryInfo(entry) })
+}
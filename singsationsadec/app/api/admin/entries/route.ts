@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { listAllEntries, toEntryInfo } from "@/lib/server/entries"
+import { getAdminUser, getSessionUser } from "@/lib/server/session"
+import { listUsers } from "@/lib/server/users"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  if (!(await getAdminUser())) {
+    const signedIn = !!(await getSessionUser())
+    return NextResponse.json(
+      { success: false, message: signedIn ? "Admin access required." : "Not signed in." },
+      { status: signedIn ? 403 : 401 },
+    )
+  }
+
+  const [entries, users] = await Promise.all([listAllEntries(), listUsers()])
+  const emails = new Map(users.map((user) => [user.id, user.email]))
+  const result = entries
+    .map((entry) => ({
+      ...toEntryInfo(entry),
+      email: emails.get(entry.userId) ?? "",
+      contactNumber: entry.contactNumber,
+    }))
+    .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt))
+
+  return NextResponse.json({ success: true, message: "OK", entries: result })
+}
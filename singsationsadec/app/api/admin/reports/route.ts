@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { buildUserReport } from "@/lib/reports"
+import { listActivities } from "@/lib/server/activities"
+import { getAdminUser, getSessionUser } from "@/lib/server/session"
+import { listUsers, toPublicUser } from "@/lib/server/users"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  if (!(await getAdminUser())) {
+    const signedIn = !!(await getSessionUser())
+    return NextResponse.json(
+      { success: false, message: signedIn ? "Admin access required." : "Not signed in." },
+      { status: signedIn ? 403 : 401 },
+    )
+  }
+
+  const [users, activities] = await Promise.all([listUsers(), listActivities()])
+  const reports = users.map((user) => buildUserReport(toPublicUser(user), activities))
+
+  return NextResponse.json({ success: true, reports })
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getAdminUser, getSessionUser } from "@/lib/server/session"
+import { updateSongAssets } from "@/lib/server/songs"
+
+// A path on this site (the files under public/) or an https URL; an empty value removes the file
+const assetUrl = z
+  .string()
+  .trim()
+  .refine((url) => url === "" || /^\/(?!\/)/.test(url) || /^https:\/\//.test(url), {
+    message: "Song files must be a path on this site or an https URL.",
+  })
+  .transform((url) => url || null)
+  .optional()
+
+const assetsSchema = z.object({
+  lyricsUrl: assetUrl,
+  melodyUrl: assetUrl,
+  artworkUrl: assetUrl,
+})
+
+// Points a catalog song at its timed lyrics, reference melody and artwork
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  if (!(await getAdminUser())) {
+    const signedIn = !!(await getSessionUser())
+    return NextResponse.json(
+      { success: false, message: signedIn ? "Admin access required." : "Not signed in." },
+      { status: signedIn ? 403 : 401 },
+    )
+  }
+
+  const parsed = assetsSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: parsed.error.issues[0].message }, { status: 400 })
+  }
+
+  try {
+    const song = await updateSongAssets(params.id, parsed.data)
+    if (!song) {
+      return NextResponse.json({ success: false, message: "Song not found." }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, message: "Song updated.", song })
+  } catch (error) {
+    console.error("Failed to update song:", error)
+    return NextResponse.json({ success: false, message: "Song catalog is unavailable." }, { status: 500 })
+  }
+}
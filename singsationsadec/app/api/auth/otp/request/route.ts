@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { issueCode, normalizePhone } from "@/lib/server/otp"
+import { getClientIp, rateLimit } from "@/lib/server/rate-limit"
+import { getSmsSender } from "@/lib/server/sms"
+import { findUserByPhone } from "@/lib/server/users"
+
+const requestSchema = z.object({
+  phone: z.string().trim().min(1, "Please enter your phone number."),
+})
+
+export async function POST(request: Request) {
+  const parsed = requestSchema.safeParse(await request.json().catch(() => null))
+  const phone = parsed.success ? normalizePhone(parsed.data.phone) : null
+  if (!phone) {
+    return NextResponse.json({ success: false, message: "Please enter a valid phone number." }, { status: 400 })
+  }
+
+  // Without a trusted proxy there's no client address to limit by; the per-number limits in issueCode still apply
+  const ip = getClientIp(request)
+  const perIp = ip ? rateLimit(`otp-request-ip:${ip}`, 10, 15 * 60 * 1000) : null
+  if (perIp && !perIp.allowed) {
+    return NextResponse.json(
+      { success: false, message: "Too many code requests. Please try again later.", retryAfter: perIp.retryAfter },
+      { status: 429, headers: { "Retry-After": String(perIp.retryAfter) } },
+    )
+  }
+
+  const message = "If this number is registered, we've sent it a 6-digit sign-in code."
+
+  // Don't spend an SMS on numbers without an account, but answer the same way so numbers can't be probed
+  if (!(await findUserByPhone(phone))) {
+    return NextResponse.json({ success: true, message })
+  }
+
+  const result = await issueCode(phone)
+  if (!result.ok) {
+    const minutes = Math.ceil(result.retryAfter / 60)
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          result.reason === "cooldown"
+            ? `Please wait ${result.retryAfter} seconds before requesting another code.`
+            : result.reason === "limit"
+              ? `Too many codes sent to this number. Please try again in ${minutes} minutes.`
+              : `Too many incorrect codes. Please try again in ${minutes} minutes.`,
+        retryAfter: result.retryAfter,
+      },
+      { status: 429, headers: { "Retry-After": String(result.retryAfter) } },
+    )
+  }
+
+  await getSmsSender().send({
+    to: phone,
+    text: `Your Sing Sation sign-in code is ${result.code}. It expires in 5 minutes.`,
+  })
+
+  return NextResponse.json({ success: true, message })
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { normalizePhone, verifyCode } from "@/lib/server/otp"
+import { createSession } from "@/lib/server/session"
+import { ensureBootstrapRole, findUserByPhone, toPublicUser } from "@/lib/server/users"
+
+const verifySchema = z.object({
+  phone: z.string().trim().min(1),
+  code: z.string().regex(/^\d{6}$/, "Please enter the 6-digit code."),
+})
+
+const FAILURE_MESSAGES = {
+  invalid: "That code isn't right. Please check it and try again.",
+  expired: "This code has expired. Please request a new one.",
+  locked: "Too many incorrect attempts. Please wait 30 minutes, then request a new code.",
+}
+
+export async function POST(request: Request) {
+  const parsed = verifySchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: parsed.error.issues[0].message }, { status: 400 })
+  }
+
+  const phone = normalizePhone(parsed.data.phone)
+  const result = phone ? await verifyCode(phone, parsed.data.code) : "expired"
+  if (result !== "ok") {
+    return NextResponse.json({ success: false, message: FAILURE_MESSAGES[result] }, { status: 401 })
+  }
+
+  const storedUser = phone ? await findUserByPhone(phone) : null
+  if (!storedUser) {
+    return NextResponse.json({ success: false, message: FAILURE_MESSAGES.expired }, { status: 401 })
+  }
+
+  const user = await ensureBootstrapRole(storedUser)
+  await createSession(user.id)
+
+  return NextResponse.json({ success: true, message: "Signed in successfully!", user: toPublicUser(user) })
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getAppUrl, sendPasswordResetEmail } from "@/lib/server/account-emails"
+import { getClientIp, rateLimit } from "@/lib/server/rate-limit"
+import { findUserByEmail, normalizeEmail, toPublicUser } from "@/lib/server/users"
+
+const WINDOW_MS = 15 * 60 * 1000
+
+const forgotSchema = z.object({
+  email: z.string().trim().email("Please enter a valid email address."),
+})
+
+export async function POST(request: Request) {
+  const parsed = forgotSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: parsed.error.issues[0].message }, { status: 400 })
+  }
+
+  const email = normalizeEmail(parsed.data.email)
+  const perEmail = rateLimit(`password-forgot:${email}`, 3, WINDOW_MS)
+  const ip = getClientIp(request)
+  const perIp = ip ? rateLimit(`password-forgot-ip:${ip}`, 10, WINDOW_MS) : null
+
+  if (!perEmail.allowed || (perIp && !perIp.allowed)) {
+    const retryAfter = Math.max(perEmail.retryAfter, perIp?.retryAfter ?? 0)
+    return NextResponse.json(
+      { success: false, message: "Too many reset requests. Please try again later.", retryAfter },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } },
+    )
+  }
+
+  const user = await findUserByEmail(email)
+  if (user) {
+    await sendPasswordResetEmail(toPublicUser(user), getAppUrl(request))
+  }
+
+  // Same answer whether or not the account exists, so this can't be used to discover accounts
+  return NextResponse.json({
+    success: true,
+    message: "If an account exists for that email, we've sent a link to reset your password.",
+  })
+}
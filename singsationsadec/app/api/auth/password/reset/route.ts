@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { consumeToken } from "@/lib/server/one-time-tokens"
+import { hashPassword } from "@/lib/server/password"
+import { destroyUserSessions } from "@/lib/server/session"
+import { updateUser } from "@/lib/server/users"
+
+const resetSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8, "Password must be at least 8 characters."),
+})
+
+export async function POST(request: Request) {
+  const parsed = resetSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: parsed.error.issues[0].message }, { status: 400 })
+  }
+
+  const userId = await consumeToken(parsed.data.token, "password_reset")
+  if (userId === null) {
+    return NextResponse.json(
+      { success: false, message: "This reset link is invalid or has expired. Please request a new one." },
+      { status: 400 },
+    )
+  }
+
+  // Opening the emailed link proves ownership of the address as well
+  await updateUser(userId, { passwordHash: await hashPassword(parsed.data.password), email_verified: true })
+  await destroyUserSessions(userId)
+
+  return NextResponse.json({ success: true, message: "Your password has been reset. Please sign in." })
+}
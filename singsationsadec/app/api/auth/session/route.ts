@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { getSessionUser } from "@/lib/server/session"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+  return NextResponse.json({ success: true, message: "Signed in.", user })
+}
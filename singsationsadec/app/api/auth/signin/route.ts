@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { verifyPassword } from "@/lib/server/password"
+import { createSession } from "@/lib/server/session"
+import { ensureBootstrapRole, findUserByEmail, toPublicUser } from "@/lib/server/users"
+
+const signinSchema = z.object({
+  email: z.string().trim().min(1),
+  password: z.string().min(1),
+})
+
+export async function POST(request: Request) {
+  const parsed = signinSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: "Email and password are required." }, { status: 400 })
+  }
+
+  const { email, password } = parsed.data
+  const storedUser = await findUserByEmail(email)
+
+  // Same message for unknown email and wrong password so accounts can't be enumerated
+  if (!storedUser || !(await verifyPassword(password, storedUser.passwordHash))) {
+    return NextResponse.json({ success: false, message: "Invalid email or password." }, { status: 401 })
+  }
+
+  const user = await ensureBootstrapRole(storedUser)
+
+  await createSession(user.id)
+
+  return NextResponse.json({ success: true, message: "Signed in successfully!", user: toPublicUser(user) })
+}
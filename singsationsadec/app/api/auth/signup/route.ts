@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getAppUrl, sendVerificationEmail } from "@/lib/server/account-emails"
+import { normalizePhone } from "@/lib/server/otp"
+import { hashPassword } from "@/lib/server/password"
+import { createSession } from "@/lib/server/session"
+import { createUser, toPublicUser } from "@/lib/server/users"
+
+const signupSchema = z.object({
+  email: z.string().trim().email("Please enter a valid email address."),
+  password: z.string().min(8, "Password must be at least 8 characters."),
+  phone: z
+    .string()
+    .trim()
+    .optional()
+    .refine((phone) => !phone || normalizePhone(phone), "Please enter a valid phone number."),
+  name: z.string().trim().optional(),
+})
+
+export async function POST(request: Request) {
+  const parsed = signupSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: parsed.error.issues[0].message }, { status: 400 })
+  }
+
+  const { email, password, phone, name } = parsed.data
+  const result = await createUser({
+    email,
+    phone: phone ? normalizePhone(phone) || undefined : undefined,
+    name: name || undefined,
+    passwordHash: await hashPassword(password),
+  })
+
+  if (result.status === "email_taken") {
+    return NextResponse.json({ success: false, message: "User already exists with this email." }, { status: 409 })
+  }
+  // Phone sign-in finds the account by its number, so it has to belong to one account only
+  if (result.status === "phone_taken") {
+    return NextResponse.json(
+      { success: false, message: "This phone number is already registered to another account." },
+      { status: 409 },
+    )
+  }
+
+  const { user } = result
+
+  await createSession(user.id)
+
+  try {
+    await sendVerificationEmail(toPublicUser(user), getAppUrl(request))
+  } catch (error) {
+    // The account is usable without verification; the user can ask for another email later
+    console.error("Failed to send verification email:", error)
+  }
+
+  return NextResponse.json({ success: true, message: "Account created successfully!", user: toPublicUser(user) })
+}
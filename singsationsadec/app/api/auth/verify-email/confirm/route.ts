@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { consumeToken } from "@/lib/server/one-time-tokens"
+import { ensureBootstrapRole, toPublicUser, updateUser } from "@/lib/server/users"
+
+const confirmSchema = z.object({
+  token: z.string().min(1),
+})
+
+export async function POST(request: Request) {
+  const parsed = confirmSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: "Verification token is required." }, { status: 400 })
+  }
+
+  const userId = await consumeToken(parsed.data.token, "email_verification")
+  const verified = userId === null ? null : await updateUser(userId, { email_verified: true })
+  const user = verified && (await ensureBootstrapRole(verified))
+
+  if (!user) {
+    return NextResponse.json(
+      { success: false, message: "This verification link is invalid or has expired. Please request a new one." },
+      { status: 400 },
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: "Your email address has been verified.",
+    user: toPublicUser(user),
+  })
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { getAppUrl, sendVerificationEmail } from "@/lib/server/account-emails"
+import { rateLimit } from "@/lib/server/rate-limit"
+import { getSessionUser } from "@/lib/server/session"
+
+export async function POST(request: Request) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+
+  if (user.email_verified) {
+    return NextResponse.json({ success: true, message: "Your email address is already verified." })
+  }
+
+  const limit = rateLimit(`verify-email:${user.id}`, 3, 15 * 60 * 1000)
+  if (!limit.allowed) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Too many verification emails. Please try again later.",
+        retryAfter: limit.retryAfter,
+      },
+      { status: 429, headers: { "Retry-After": String(limit.retryAfter) } },
+    )
+  }
+
+  await sendVerificationEmail(user, getAppUrl(request))
+
+  return NextResponse.json({ success: true, message: `We've sent a verification link to ${user.email}.` })
+}
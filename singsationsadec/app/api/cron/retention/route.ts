@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+import { checkCronAuthorization } from "@/lib/server/cron"
+import { runRetention } from "@/lib/server/retention"
+
+export async function POST(request: Request) {
+  const unauthorized = checkCronAuthorization(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  const summary = await runRetention()
+  console.log("Retention run:", summary)
+
+  return NextResponse.json({ success: true, message: "Retention run complete.", ...summary })
+}
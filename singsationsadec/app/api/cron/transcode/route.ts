@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { checkCronAuthorization } from "@/lib/server/cron"
+import { startTranscodeWorker } from "@/lib/server/transcoding"
+
+// Uploads start the worker themselves; this picks up jobs a server restart left behind.
+// It waits for the queue to drain, so the scheduler's HTTP timeout must allow for a few transcodes.
+export async function POST(request: Request) {
+  const unauthorized = checkCronAuthorization(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  const summary = await startTranscodeWorker()
+  console.log("Transcode run:", summary)
+
+  return NextResponse.json({ success: true, message: "Transcode run complete.", ...summary })
+}
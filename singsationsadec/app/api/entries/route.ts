@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getCategory, isSongAllowedInCategory } from "@/lib/categories"
+import { listEntries, submitEntry, toEntryInfo } from "@/lib/server/entries"
+import { findActivePurchase } from "@/lib/server/payments"
+import { getRecording } from "@/lib/server/recordings"
+import { getSessionUser } from "@/lib/server/session"
+import { getSong } from "@/lib/server/songs"
+
+export const dynamic = "force-dynamic"
+
+const entrySchema = z.object({
+  recordingId: z.string().min(1).max(100),
+  artistName: z.string().trim().min(1, "Please enter your artist name.").max(100),
+  contactNumber: z.string().trim().min(1, "Please enter your contact number.").max(30),
+})
+
+export async function GET() {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+
+  const entries = (await listEntries(user.id)).map(toEntryInfo)
+  entries.sort((a, b) => b.submittedAt.localeCompare(a.submittedAt))
+
+  return NextResponse.json({ success: true, message: "OK", entries })
+}
+
+export async function POST(request: Request) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Please sign in to submit your entry." }, { status: 401 })
+  }
+
+  const parsed = entrySchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: parsed.error.issues[0].message }, { status: 400 })
+  }
+
+  const { recordingId, ...details } = parsed.data
+  const recording = await getRecording(recordingId)
+  if (!recording || recording.userId !== user.id) {
+    return NextResponse.json({ success: false, message: "Recording not found." }, { status: 404 })
+  }
+  if (recording.expiredAt) {
+    return NextResponse.json({ success: false, message: "This video has expired and was deleted." }, { status: 410 })
+  }
+
+  const category = getCategory(recording.category)
+  if (!category) {
+    return NextResponse.json(
+      { success: false, message: "This recording wasn't made for a competition category." },
+      { status: 400 },
+    )
+  }
+
+  const song = await getSong(recording.songId)
+  if (!song || !isSongAllowedInCategory(song, category.id)) {
+    return NextResponse.json(
+      { success: false, message: `"${recording.songTitle}" can't be entered in the ${category.title}.` },
+      { status: 400 },
+    )
+  }
+
+  // Entering is part of what the download fee pays for
+  if (!(await findActivePurchase(recording.id, user.id))) {
+    return NextResponse.json(
+      { success: false, message: "Please pay for your video before submitting it as your entry." },
+      { status: 402 },
+    )
+  }
+
+  const result = await submitEntry(recording, details)
+  if (result.status === "already_entered") {
+    return NextResponse.json(
+      {
+        success: false,
+        message: `You've already entered the ${category.title} with "${result.entry.songTitle}" (tracking code ${result.entry.trackingCode}).`,
+        entry: toEntryInfo(result.entry),
+      },
+      { status: 409 },
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: `Your entry is in! Your competition tracking code is ${result.entry.trackingCode}.`,
+    entry: toEntryInfo(result.entry),
+  })
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { getPayment } from "@/lib/server/payments"
+import { getSessionUser } from "@/lib/server/session"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+
+  // Someone else's payment answers the same as a missing one
+  const payment = await getPayment(params.id)
+  if (!payment || payment.userId !== user.id) {
+    return NextResponse.json({ success: false, message: "Payment not found." }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true, message: "OK", paymentId: payment.id, status: payment.status })
+}
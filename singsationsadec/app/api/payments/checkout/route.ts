@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getAppUrl } from "@/lib/server/account-emails"
+import { createCheckout, PaymentProviderError } from "@/lib/server/payments"
+import { getRecording } from "@/lib/server/recordings"
+import { getSessionUser } from "@/lib/server/session"
+
+const checkoutSchema = z.object({
+  songTitle: z.string().trim().min(1).max(200),
+  category: z.string().trim().min(1).max(50),
+  recordingId: z.string().max(100).optional(),
+})
+
+export async function POST(request: Request) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Please sign in to pay for your download." }, { status: 401 })
+  }
+
+  const parsed = checkoutSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: parsed.error.issues[0].message }, { status: 400 })
+  }
+
+  // The purchase points at the stored recording, so it has to be the buyer's own
+  const { recordingId } = parsed.data
+  if (recordingId) {
+    const recording = await getRecording(recordingId)
+    if (!recording || recording.userId !== user.id) {
+      return NextResponse.json({ success: false, message: "Recording not found." }, { status: 404 })
+    }
+  }
+
+  try {
+    const { payment, redirectUrl } = await createCheckout(user.id, parsed.data, getAppUrl(request))
+
+    return NextResponse.json({
+      success: true,
+      message: "Checkout created.",
+      paymentId: payment.id,
+      status: payment.status,
+      redirectUrl,
+    })
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      console.error("Checkout failed:", error.message)
+      return NextResponse.json(
+        { success: false, message: "We couldn't start the payment. Please try again shortly." },
+        { status: 502 },
+      )
+    }
+    throw error
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { applyWebhookEvent, verifyWebhookSignature, type WebhookEvent } from "@/lib/server/payments"
+
+export async function POST(request: Request) {
+  // The signature covers the exact bytes Yoco sent, so read the body as text before parsing it
+  const rawBody = await request.text()
+  if (!verifyWebhookSignature(rawBody, request.headers)) {
+    return NextResponse.json({ success: false, message: "Invalid signature." }, { status: 401 })
+  }
+
+  let event: WebhookEvent
+  try {
+    event = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json({ success: false, message: "Invalid payload." }, { status: 400 })
+  }
+
+  if (!event?.type || !event.payload?.id) {
+    return NextResponse.json({ success: false, message: "Invalid payload." }, { status: 400 })
+  }
+
+  // Unknown or repeated events still get a 200, otherwise Yoco keeps retrying them
+  await applyWebhookEvent(event)
+
+  return NextResponse.json({ success: true, message: "Received." })
+}
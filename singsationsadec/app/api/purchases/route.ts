@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { listPurchases, toPurchase } from "@/lib/server/payments"
+import { getRecording, posterUrl } from "@/lib/server/recordings"
+import { getSessionUser } from "@/lib/server/session"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+
+  const purchases = await Promise.all(
+    (await listPurchases(user.id)).map(async (payment) => {
+      const recording = payment.recordingId ? await getRecording(payment.recordingId) : null
+      return {
+        ...toPurchase(payment, !!recording?.expiredAt),
+        transcodeStatus: recording?.transcodeStatus,
+        posterUrl: recording ? posterUrl(recording) : undefined,
+      }
+    }),
+  )
+  purchases.sort((a, b) => b.purchasedAt.localeCompare(a.purchasedAt))
+
+  return NextResponse.json({ success: true, message: "OK", purchases })
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { getAppUrl } from "@/lib/server/account-emails"
+import { findActivePurchase } from "@/lib/server/payments"
+import { downloadFilename, getRecording } from "@/lib/server/recordings"
+import { getSessionUser } from "@/lib/server/session"
+import { signDownloadUrl } from "@/lib/server/signed-urls"
+
+export const dynamic = "force-dynamic"
+
+// Hands out a short-lived link for a paid, unexpired recording. The link itself needs no cookie,
+// so it works for plain <a download> links and download managers.
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+
+  const recording = await getRecording(params.id)
+  if (!recording || recording.userId !== user.id) {
+    return NextResponse.json({ success: false, message: "Recording not found." }, { status: 404 })
+  }
+  if (recording.expiredAt) {
+    return NextResponse.json({ success: false, message: "This video has expired and was deleted." }, { status: 410 })
+  }
+  if (!(await findActivePurchase(recording.id, user.id))) {
+    return NextResponse.json({ success: false, message: "Payment required before download." }, { status: 402 })
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: "OK",
+    ...signDownloadUrl(recording.id, getAppUrl(request)),
+    filename: downloadFilename(recording),
+  })
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { downloadFilename, getRecording } from "@/lib/server/recordings"
+import { DOWNLOAD_URL_TTL_SECONDS, verifyDownloadSignature } from "@/lib/server/signed-urls"
+import { getStorage } from "@/lib/server/storage"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const { searchParams } = new URL(request.url)
+  if (!verifyDownloadSignature(params.id, searchParams.get("expires"), searchParams.get("signature"))) {
+    return NextResponse.json(
+      { success: false, message: "This download link is invalid or has expired." },
+      { status: 403 },
+    )
+  }
+
+  const recording = await getRecording(params.id)
+  if (!recording || recording.expiredAt) {
+    return NextResponse.json({ success: false, message: "This video has expired and was deleted." }, { status: 410 })
+  }
+
+  const filename = downloadFilename(recording)
+  const storage = getStorage()
+
+  if (storage.getDownloadUrl) {
+    return NextResponse.redirect(await storage.getDownloadUrl(recording.storageKey, DOWNLOAD_URL_TTL_SECONDS, filename))
+  }
+
+  const object = await storage.get(recording.storageKey)
+  if (!object) {
+    return NextResponse.json({ success: false, message: "Recording file is missing." }, { status: 404 })
+  }
+
+  return new Response(object.body, {
+    headers: {
+      "Content-Type": recording.contentType,
+      "Content-Length": String(object.size),
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "private, no-store",
+    },
+  })
+}
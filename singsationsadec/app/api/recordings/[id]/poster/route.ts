@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { getRecording } from "@/lib/server/recordings"
+import { getSessionUser } from "@/lib/server/session"
+import { getStorage } from "@/lib/server/storage"
+
+export const dynamic = "force-dynamic"
+
+// Thumbnail made while transcoding, for the profile's video list
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+
+  const recording = await getRecording(params.id)
+  const allowed = recording?.userId === user.id || user.role === "admin"
+  if (!recording || !allowed || recording.expiredAt || !recording.posterKey) {
+    return NextResponse.json({ success: false, message: "Poster not found." }, { status: 404 })
+  }
+
+  const object = await getStorage().get(recording.posterKey)
+  if (!object) {
+    return NextResponse.json({ success: false, message: "Poster not found." }, { status: 404 })
+  }
+
+  return new Response(object.body, {
+    headers: {
+      "Content-Type": "image/jpeg",
+      "Content-Length": String(object.size),
+      "Cache-Control": "private, max-age=3600",
+    },
+  })
+}
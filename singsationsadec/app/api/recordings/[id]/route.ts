@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { findEntryForRecording } from "@/lib/server/entries"
+import { expireRecording, getRecording, toRecordingInfo } from "@/lib/server/recordings"
+import { getSessionUser } from "@/lib/server/session"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+
+  const recording = await getRecording(params.id)
+  if (!recording || recording.userId !== user.id) {
+    return NextResponse.json({ success: false, message: "Recording not found." }, { status: 404 })
+  }
+
+  if (recording.expiredAt) {
+    return NextResponse.json({ success: false, message: "This video has expired and was deleted." }, { status: 410 })
+  }
+
+  return NextResponse.json({ success: true, message: "OK", recording: toRecordingInfo(recording) })
+}
+
+// Lets the owner delete their video before the retention job would
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+
+  const recording = await getRecording(params.id)
+  if (!recording || recording.userId !== user.id) {
+    return NextResponse.json({ success: false, message: "Recording not found." }, { status: 404 })
+  }
+
+  const entry = await findEntryForRecording(recording.id)
+  if (entry && entry.status !== "eliminated") {
+    return NextResponse.json(
+      {
+        success: false,
+        message: "This video is your competition entry, so it can't be deleted while you're still in.",
+      },
+      { status: 409 },
+    )
+  }
+
+  await expireRecording(recording.id)
+
+  return NextResponse.json({ success: true, message: "Video deleted." })
+}
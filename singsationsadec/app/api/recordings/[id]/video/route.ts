@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { getRecording } from "@/lib/server/recordings"
+import { getSessionUser } from "@/lib/server/session"
+import { getStorage, type ByteRange } from "@/lib/server/storage"
+
+export const dynamic = "force-dynamic"
+
+// Only single "bytes=start-end" ranges are supported, which is all video elements ask for when seeking
+function parseRange(header: string | null, size: number): ByteRange | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (!match[1] && !match[2])) {
+    return null
+  }
+
+  if (!match[1]) {
+    return { start: Math.max(size - Number(match[2]), 0), end: size - 1 }
+  }
+  return { start: Number(match[1]), end: match[2] ? Math.min(Number(match[2]), size - 1) : size - 1 }
+}
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+
+  // Admins judge competition entries, so they can watch anyone's recording
+  const recording = await getRecording(params.id)
+  if (!recording || (recording.userId !== user.id && user.role !== "admin")) {
+    return NextResponse.json({ success: false, message: "Recording not found." }, { status: 404 })
+  }
+  if (recording.expiredAt) {
+    return NextResponse.json({ success: false, message: "This video has expired and was deleted." }, { status: 410 })
+  }
+
+  const range = parseRange(request.headers.get("range"), recording.size)
+  if (range && (range.start >= recording.size || range.start > range.end!)) {
+    return new Response(null, { status: 416, headers: { "Content-Range": `bytes */${recording.size}` } })
+  }
+
+  const object = await getStorage().get(recording.storageKey, range ?? undefined)
+  if (!object) {
+    return NextResponse.json({ success: false, message: "Recording file is missing." }, { status: 404 })
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": recording.contentType,
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, no-store",
+  }
+
+  if (range) {
+    headers["Content-Range"] = `bytes ${range.start}-${range.end}/${object.size}`
+    headers["Content-Length"] = String(range.end! - range.start + 1)
+    return new Response(object.body, { status: 206, headers })
+  }
+
+  headers["Content-Length"] = String(object.size)
+  return new Response(object.body, { status: 200, headers })
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { getSong } from "@/lib/server/songs"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    const song = await getSong(params.id)
+    if (!song) {
+      return NextResponse.json({ success: false, message: "Song not found." }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, song })
+  } catch (error) {
+    console.error("Failed to load song:", error)
+    return NextResponse.json({ success: false, message: "Song catalog is unavailable." }, { status: 500 })
+  }
+}
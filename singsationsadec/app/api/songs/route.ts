@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { getCategory } from "@/lib/categories"
+import { listSongs } from "@/lib/server/songs"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: Request) {
+  const category = new URL(request.url).searchParams.get("category") || undefined
+
+  if (category && !getCategory(category)) {
+    return NextResponse.json({ success: false, message: "Unknown competition category." }, { status: 400 })
+  }
+
+  try {
+    const songs = await listSongs(category)
+    return NextResponse.json({ success: true, songs })
+  } catch (error) {
+    console.error("Failed to load song catalog:", error)
+    return NextResponse.json({ success: false, message: "Song catalog is unavailable." }, { status: 500 })
+  }
+}
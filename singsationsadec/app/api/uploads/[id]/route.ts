@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server"
+import { appendChunk, getUpload, toRecordingInfo, UPLOAD_CHUNK_SIZE } from "@/lib/server/recordings"
+import { getSessionUser } from "@/lib/server/session"
+import { enqueueTranscode, startTranscodeWorker } from "@/lib/server/transcoding"
+
+export const dynamic = "force-dynamic"
+
+// Where to resume from after a dropped connection, or the recording if the upload already finished
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+
+  const upload = await getUpload(params.id, user.id)
+  if (!upload) {
+    return NextResponse.json({ success: false, message: "Upload not found." }, { status: 404 })
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: "OK",
+    received: upload.received,
+    size: upload.size,
+    recordingId: upload.recordingId,
+  })
+}
+
+// Appends one chunk. The Upload-Offset header says where the chunk starts in the file.
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Not signed in." }, { status: 401 })
+  }
+
+  const offset = Number(request.headers.get("upload-offset"))
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ success: false, message: "Missing or invalid Upload-Offset header." }, { status: 400 })
+  }
+
+  const chunk = Buffer.from(await request.arrayBuffer())
+  if (chunk.length === 0 || chunk.length > UPLOAD_CHUNK_SIZE) {
+    return NextResponse.json({ success: false, message: "Invalid chunk size." }, { status: 400 })
+  }
+
+  const result = await appendChunk(params.id, user.id, offset, chunk)
+  switch (result.status) {
+    case "not_found":
+      return NextResponse.json({ success: false, message: "Upload not found." }, { status: 404 })
+    case "offset_mismatch":
+      return NextResponse.json(
+        { success: false, message: "Chunk offset doesn't match the upload.", received: result.received },
+        { status: 409 },
+      )
+    case "too_large":
+      return NextResponse.json({ success: false, message: "Chunk runs past the end of the upload." }, { status: 400 })
+    case "partial":
+      return NextResponse.json({ success: true, message: "Chunk received.", received: result.received })
+    case "complete":
+      // The original is playable in the browser straight away; the MP4 replaces it when ready
+      await enqueueTranscode(result.recording.id)
+      void startTranscodeWorker()
+      return NextResponse.json({
+        success: true,
+        message: "Upload complete.",
+        received: result.received,
+        recording: toRecordingInfo(result.recording),
+      })
+    case "already_complete":
+      // A retry of a chunk whose response was lost; the transcode was queued the first time
+      return NextResponse.json({
+        success: true,
+        message: "Upload complete.",
+        received: result.received,
+        recording: toRecordingInfo(result.recording),
+      })
+  }
+}
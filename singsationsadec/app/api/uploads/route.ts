@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { isSongAllowedInCategory } from "@/lib/categories"
+import { baseContentType, createUpload, MAX_RECORDING_SIZE, RECORDING_CONTENT_TYPES } from "@/lib/server/recordings"
+import { getSessionUser } from "@/lib/server/session"
+import { getSong } from "@/lib/server/songs"
+
+const percentage = z.number().int().min(0).max(100)
+
+const uploadSchema = z.object({
+  size: z
+    .number()
+    .int()
+    .positive("The recording is empty.")
+    .max(MAX_RECORDING_SIZE, "The recording is too large to upload."),
+  contentType: z
+    .string()
+    .refine((type) => RECORDING_CONTENT_TYPES.includes(baseContentType(type)), "Unsupported recording format."),
+  songId: z.string().min(1).max(100),
+  songTitle: z.string().trim().min(1).max(200),
+  category: z.string().trim().max(50),
+  score: z
+    .object({ overall: percentage, pitch: percentage, timing: percentage.nullable(), stability: percentage })
+    .optional(),
+  sync: z.object({ trackStartMs: z.number().min(0).max(60000), latencyMs: z.number().min(0).max(5000) }).optional(),
+  trackAdjustment: z
+    .object({ keyShift: z.number().int().min(-6).max(6), tempo: z.number().min(0.75).max(1.25) })
+    .optional(),
+})
+
+export async function POST(request: Request) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ success: false, message: "Please sign in to save your recording." }, { status: 401 })
+  }
+
+  const parsed = uploadSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ success: false, message: parsed.error.issues[0].message }, { status: 400 })
+  }
+
+  // The recording page checks this too, but the category comes from its URL
+  const song = await getSong(parsed.data.songId)
+  if (!song) {
+    return NextResponse.json({ success: false, message: "Song not found." }, { status: 400 })
+  }
+  if (parsed.data.category && !isSongAllowedInCategory(song, parsed.data.category)) {
+    return NextResponse.json(
+      { success: false, message: "This song isn't available for your competition category." },
+      { status: 400 },
+    )
+  }
+
+  const upload = await createUpload(user.id, parsed.data)
+
+  return NextResponse.json({
+    success: true,
+    message: "Upload started.",
+    uploadId: upload.id,
+    received: upload.received,
+  })
+}
@@ -0,0 +1,10 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import AuthScreen from "@/components/auth-screen"
+
+export default function AuthPage() {
+  const router = useRouter()
+
+  return <AuthScreen onNext={() => router.push("/category")} onAdminAccess={() => router.push("/admin/login")} />
+}
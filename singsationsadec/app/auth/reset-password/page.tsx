@@ -0,0 +1,20 @@
+"use client"
+
+import { Suspense } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import ResetPassword from "@/components/reset-password"
+
+function ResetPasswordRoute() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  return <ResetPassword token={searchParams.get("token") || ""} onDone={() => router.push("/auth")} />
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense>
+      <ResetPasswordRoute />
+    </Suspense>
+  )
+}
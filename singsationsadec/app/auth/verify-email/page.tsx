@@ -0,0 +1,26 @@
+"use client"
+
+import { Suspense } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import VerifyEmail from "@/components/verify-email"
+import { apiClient } from "@/lib/api"
+
+function VerifyEmailRoute() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  return (
+    <VerifyEmail
+      token={searchParams.get("token") || ""}
+      onDone={() => router.push(apiClient.isAuthenticated() ? "/category" : "/auth")}
+    />
+  )
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense>
+      <VerifyEmailRoute />
+    </Suspense>
+  )
+}
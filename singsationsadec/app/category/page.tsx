@@ -0,0 +1,15 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import CategorySelection from "@/components/category-selection"
+
+export default function CategoryPage() {
+  const router = useRouter()
+
+  return (
+    <CategorySelection
+      onNext={(category) => router.push(`/songs/${encodeURIComponent(category)}`)}
+      onProfile={() => router.push("/profile")}
+    />
+  )
+}
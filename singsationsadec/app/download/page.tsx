@@ -0,0 +1,62 @@
+"use client"
+
+import { Suspense, useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import DownloadScreen from "@/components/download-screen"
+import { useKaraokeSession, type RecordingSession } from "@/components/karaoke-session-provider"
+import { apiClient } from "@/lib/api"
+
+function DownloadRoute() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { recording: sessionRecording, setRecording } = useKaraokeSession()
+  const recordingId = searchParams.get("recording")
+  const [storedRecording, setStoredRecording] = useState<RecordingSession | null>(null)
+
+  // After a reload the in-memory session is gone, but an uploaded take can be fetched again by its id
+  const recording = sessionRecording?.recordingId === recordingId || !recordingId ? sessionRecording : storedRecording
+
+  useEffect(() => {
+    if (!recordingId || sessionRecording?.recordingId === recordingId) return
+
+    let cancelled = false
+    apiClient.getRecording(recordingId).then((response) => {
+      if (cancelled || !response.recording) return
+      const { id, videoUrl, songId, songTitle, category, score, sync, trackAdjustment } = response.recording
+      setStoredRecording({ recordingId: id, videoUrl, songId, songTitle, category, score, sync, trackAdjustment })
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [recordingId, sessionRecording])
+
+  return (
+    <DownloadScreen
+      video={recording?.videoUrl ?? null}
+      recordingId={recording?.recordingId}
+      songTitle={recording?.songTitle}
+      category={recording?.category || undefined}
+      score={recording?.score}
+      songId={recording?.songId}
+      takeId={recording?.takeId}
+      sync={recording?.sync}
+      trackAdjustment={recording?.trackAdjustment}
+      onEdited={(videoUrl, editedId, sync) => {
+        if (!recording) return
+        setRecording({ ...recording, videoUrl, recordingId: editedId, sync })
+        router.replace(editedId ? `/download?recording=${encodeURIComponent(editedId)}` : "/download")
+      }}
+      onBack={() => router.push(recording?.category ? `/songs/${encodeURIComponent(recording.category)}` : "/category")}
+      onProfile={() => router.push("/profile")}
+    />
+  )
+}
+
+export default function DownloadPage() {
+  return (
+    <Suspense>
+      <DownloadRoute />
+    </Suspense>
+  )
+}
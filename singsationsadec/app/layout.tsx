@@ -1,6 +1,7 @@
 import type { Metadata } from 'next'
 import { GeistSans } from 'geist/font/sans'
 import { GeistMono } from 'geist/font/mono'
+import { KaraokeSessionProvider } from '@/components/karaoke-session-provider'
 import './globals.css'
 
 export const metadata: Metadata = {
@@ -25,7 +26,11 @@ html {
 }
         `}</style>
       </head>
-      <body>{children}</body>
+      <body>
+        <KaraokeSessionProvider>
+          <div className="min-h-screen">{children}</div>
+        </KaraokeSessionProvider>
+      </body>
     </html>
   )
 }
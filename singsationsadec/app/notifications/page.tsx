@@ -0,0 +1,10 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import Notifications from "@/components/notifications"
+
+export default function NotificationsPage() {
+  const router = useRouter()
+
+  return <Notifications onBack={() => router.push("/profile")} />
+}
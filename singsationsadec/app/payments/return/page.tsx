@@ -0,0 +1,20 @@
+"use client"
+
+import { Suspense } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import PaymentReturn from "@/components/payment-return"
+
+function PaymentReturnRoute() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  return <PaymentReturn status={searchParams.get("status") || ""} onDone={() => router.push("/download")} />
+}
+
+export default function PaymentReturnPage() {
+  return (
+    <Suspense>
+      <PaymentReturnRoute />
+    </Suspense>
+  )
+}
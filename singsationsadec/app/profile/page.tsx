@@ -0,0 +1,22 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import ProfilePage from "@/components/profile-page"
+
+export default function Profile() {
+  const router = useRouter()
+
+  const handleLogout = () => {
+    // Clear any user session data
+    localStorage.removeItem("userSession")
+    router.push("/auth")
+  }
+
+  return (
+    <ProfilePage
+      onBack={() => router.push("/category")}
+      onLogout={handleLogout}
+      onNotifications={() => router.push("/notifications")}
+    />
+  )
+}
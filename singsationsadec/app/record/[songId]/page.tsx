@@ -0,0 +1,99 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { notFound, useRouter, useSearchParams } from "next/navigation"
+import KaraokeRecording from "@/components/karaoke-recording"
+import { useKaraokeSession } from "@/components/karaoke-session-provider"
+import { apiClient, type Song } from "@/lib/api"
+import { isSongAllowedInCategory } from "@/lib/categories"
+
+interface RecordPageProps {
+  params: { songId: string }
+}
+
+export default function RecordPage({ params }: RecordPageProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { setRecording } = useKaraokeSession()
+  const [song, setSong] = useState<Song | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+
+  const songId = decodeURIComponent(params.songId)
+  const category = searchParams.get("category") || ""
+  const songsPath = category ? `/songs/${encodeURIComponent(category)}` : "/category"
+
+  useEffect(() => {
+    let cancelled = false
+
+    apiClient
+      .getSong(songId)
+      .then((result) => {
+        if (cancelled) return
+        if (result && category && !isSongAllowedInCategory(result, category)) {
+          setError("This song isn't available for your competition category. Please choose another song.")
+          return
+        }
+        setSong(result)
+      })
+      .catch((error) => {
+        console.error("Failed to load song:", error)
+        if (!cancelled) setError("We couldn't load this song. Please go back and try again.")
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [songId, category])
+
+  if (loading || error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-yellow-400 via-yellow-500 to-amber-600 p-4 flex items-center justify-center">
+        <div className="text-center text-white">
+          {error ? (
+            <>
+              <p className="mb-4">{error}</p>
+              <button onClick={() => router.push(songsPath)} className="underline">
+                Back to songs
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-2"></div>
+              <p>Loading song...</p>
+            </>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  if (!song) {
+    notFound()
+  }
+
+  return (
+    <KaraokeRecording
+      song={song}
+      category={category}
+      onNext={(video, take, recordingId) => {
+        setRecording({
+          videoUrl: video,
+          recordingId,
+          songId: song.id,
+          songTitle: song.title,
+          category,
+          score: take.score,
+          takeId: take.id,
+          sync: take.sync,
+          trackAdjustment: take.trackAdjustment,
+        })
+        router.push(recordingId ? `/download?recording=${encodeURIComponent(recordingId)}` : "/download")
+      }}
+      onBack={() => router.push(songsPath)}
+    />
+  )
+}
@@ -0,0 +1,27 @@
+"use client"
+
+import { notFound, useRouter } from "next/navigation"
+import SongSelection from "@/components/song-selection"
+import { getCategory } from "@/lib/categories"
+
+interface SongsPageProps {
+  params: { category: string }
+}
+
+export default function SongsPage({ params }: SongsPageProps) {
+  const router = useRouter()
+  const category = decodeURIComponent(params.category)
+
+  if (!getCategory(category)) {
+    notFound()
+  }
+
+  return (
+    <SongSelection
+      category={category}
+      onNext={(song) => router.push(`/record/${song.id}?category=${encodeURIComponent(category)}`)}
+      onBack={() => router.push("/category")}
+      onProfile={() => router.push("/profile")}
+    />
+  )
+}
@@ -5,18 +5,41 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Download, Users, Activity, Trophy, ArrowLeft } from "lucide-react"
-import { apiClient, type UserReport } from "@/lib/api"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Download, Users, Activity, Trophy, ArrowLeft, Play, Music } from "lucide-react"
+import { apiClient, type AdminEntryInfo, type EntryStatus, type Song, type UserReport } from "@/lib/api"
+import { getCategory } from "@/lib/categories"
+import { ENTRY_STATUSES } from "@/lib/entries"
 
 interface AdminDashboardProps {
   onBack: () => void
 }
 
+type SongFiles = Record<"lyricsUrl" | "melodyUrl" | "artworkUrl", string>
+
+const SONG_FILE_FIELDS: [keyof SongFiles, string, string][] = [
+  ["lyricsUrl", "Lyrics (LRC or WebVTT)", "/lyrics/song.lrc"],
+  ["melodyUrl", "Melody (JSON notes)", "/melodies/song.json"],
+  ["artworkUrl", "Artwork", "/artwork/song.png"],
+]
+
+const songFiles = (song: Song): SongFiles => ({
+  lyricsUrl: song.lyricsUrl ?? "",
+  melodyUrl: song.melodyUrl ?? "",
+  artworkUrl: song.artworkUrl ?? "",
+})
+
 export default function AdminDashboard({ onBack }: AdminDashboardProps) {
   const [userReports, setUserReports] = useState<UserReport[]>([])
   const [topUsers, setTopUsers] = useState<UserReport[]>([])
   const [loading, setLoading] = useState(true)
   const [selectedUser, setSelectedUser] = useState<UserReport | null>(null)
+  const [entries, setEntries] = useState<AdminEntryInfo[]>([])
+  const [songs, setSongs] = useState<Song[]>([])
+  const [songDrafts, setSongDrafts] = useState<Record<string, SongFiles>>({})
+  const [savingSongId, setSavingSongId] = useState<string | null>(null)
 
   useEffect(() => {
     loadDashboardData()
@@ -34,6 +57,63 @@ export default function AdminDashboard({ onBack }: AdminDashboardProps) {
     } finally {
       setLoading(false)
     }
+
+    apiClient
+      .getAllEntries()
+      .then(setEntries)
+      .catch((error) => console.error("Failed to load competition entries:", error))
+
+    apiClient
+      .getSongs()
+      .then((catalog) => {
+        setSongs(catalog)
+        setSongDrafts(Object.fromEntries(catalog.map((song) => [song.id, songFiles(song)])))
+      })
+      .catch((error) => console.error("Failed to load the song catalog:", error))
+  }
+
+  const changeSongFile = (songId: string, field: keyof SongFiles, value: string) => {
+    setSongDrafts((drafts) => ({ ...drafts, [songId]: { ...drafts[songId], [field]: value } }))
+  }
+
+  // The lyrics and melody are read the way the recording screen reads them, so a file it can't use is caught here
+  const saveSongFiles = async (song: Song) => {
+    const draft = songDrafts[song.id]
+    setSavingSongId(song.id)
+    try {
+      if (draft.lyricsUrl && (await apiClient.getLyrics(draft.lyricsUrl)).length === 0) {
+        alert("The lyrics file has no timed lines.")
+        return
+      }
+      if (draft.melodyUrl && (await apiClient.getMelody(draft.melodyUrl)).length === 0) {
+        alert("The melody file has no notes.")
+        return
+      }
+
+      const response = await apiClient.updateSongAssets(song.id, draft)
+      if (!response.success || !response.song) {
+        alert(response.message)
+        return
+      }
+      const updated = response.song
+      setSongs((existing) => existing.map((item) => (item.id === song.id ? updated : item)))
+      setSongDrafts((drafts) => ({ ...drafts, [song.id]: songFiles(updated) }))
+    } catch (error) {
+      console.error("Failed to check the song files:", error)
+      alert("Unable to read one of the song files. Check the paths and try again.")
+    } finally {
+      setSavingSongId(null)
+    }
+  }
+
+  const changeEntryStatus = async (entryId: string, status: EntryStatus) => {
+    const response = await apiClient.updateEntryStatus(entryId, status)
+    if (!response.success || !response.entry) {
+      alert(response.message)
+      return
+    }
+    const updated = response.entry
+    setEntries((existing) => existing.map((entry) => (entry.id === entryId ? { ...entry, ...updated } : entry)))
   }
 
   const handleExportData = async () => {
@@ -229,6 +309,8 @@ export default function AdminDashboard({ onBack }: AdminDashboardProps) {
           <TabsList>
             <TabsTrigger value="top-users">Top Users</TabsTrigger>
             <TabsTrigger value="all-users">All Users</TabsTrigger>
+            <TabsTrigger value="entries">Entries</TabsTrigger>
+            <TabsTrigger value="songs">Songs</TabsTrigger>
           </TabsList>
 
           <TabsContent value="top-users">
@@ -298,6 +380,117 @@ export default function AdminDashboard({ onBack }: AdminDashboardProps) {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="entries">
+            <Card>
+              <CardHeader>
+                <CardTitle>Competition Entries</CardTitle>
+                <CardDescription>Watch each audition and move it through the competition</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {entries.length === 0 ? (
+                  <p className="text-center text-gray-600 py-8">No entries yet</p>
+                ) : (
+                  <div className="space-y-4 max-h-[32rem] overflow-y-auto">
+                    {entries.map((entry) => (
+                      <div
+                        key={entry.id}
+                        className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 bg-white rounded-lg border"
+                      >
+                        <div>
+                          <div className="font-medium">
+                            {entry.artistName} · {entry.songTitle}
+                          </div>
+                          <div className="text-sm text-gray-600">
+                            {getCategory(entry.category)?.title ?? entry.category} ·{" "}
+                            <span className="font-mono">{entry.trackingCode}</span>
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {entry.email} · {entry.contactNumber} · submitted{" "}
+                            {new Date(entry.submittedAt).toLocaleDateString()}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => window.open(apiClient.getRecordingPreviewUrl(entry.recordingId), "_blank")}
+                          >
+                            <Play className="w-4 h-4 mr-1" />
+                            Watch
+                          </Button>
+                          <Select
+                            value={entry.status}
+                            onValueChange={(status) => changeEntryStatus(entry.id, status as EntryStatus)}
+                          >
+                            <SelectTrigger className="w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(ENTRY_STATUSES) as EntryStatus[]).map((status) => (
+                                <SelectItem key={status} value={status}>
+                                  {ENTRY_STATUSES[status].label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="songs">
+            <Card>
+              <CardHeader>
+                <CardTitle>Song Files</CardTitle>
+                <CardDescription>
+                  Timed lyrics, reference melodies for scoring and artwork for each song in the catalog
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {songs.length === 0 ? (
+                  <p className="text-center text-gray-600 py-8">No songs in the catalog</p>
+                ) : (
+                  <div className="space-y-4 max-h-[32rem] overflow-y-auto">
+                    {songs.map((song) => (
+                      <div key={song.id} className="space-y-3 p-4 bg-white rounded-lg border">
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="font-medium flex items-center gap-2">
+                            <Music className="w-4 h-4" />
+                            {song.title} · {song.artist}
+                          </div>
+                          <Button
+                            size="sm"
+                            onClick={() => saveSongFiles(song)}
+                            disabled={savingSongId !== null || !songDrafts[song.id]}
+                          >
+                            {savingSongId === song.id ? "Saving..." : "Save"}
+                          </Button>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                          {SONG_FILE_FIELDS.map(([field, label, placeholder]) => (
+                            <div key={field} className="space-y-1">
+                              <Label htmlFor={`${song.id}-${field}`}>{label}</Label>
+                              <Input
+                                id={`${song.id}-${field}`}
+                                value={songDrafts[song.id]?.[field] ?? ""}
+                                placeholder={placeholder}
+                                onChange={(event) => changeSongFile(song.id, field, event.target.value)}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
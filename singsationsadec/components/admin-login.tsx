@@ -0,0 +1,82 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, ShieldCheck } from "lucide-react"
+import { apiClient } from "@/lib/api"
+
+interface AdminLoginProps {
+  onNext: () => void
+  onBack: () => void
+}
+
+export default function AdminLogin({ onNext, onBack }: AdminLoginProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError("")
+
+    const formData = new FormData(e.target as HTMLFormElement)
+    const email = formData.get("email") as string
+    const password = formData.get("password") as string
+
+    try {
+      const response = await apiClient.adminSignin(email, password)
+      if (response.success) {
+        onNext()
+      } else {
+        setError(response.message)
+      }
+    } catch (error) {
+      setError("Network error. Please check your connection.")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-yellow-50 to-orange-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Button variant="ghost" size="sm" onClick={onBack} className="mb-4">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+
+        <Card>
+          <CardHeader className="text-center">
+            <ShieldCheck className="h-10 w-10 mx-auto text-yellow-600 mb-2" />
+            <CardTitle className="text-2xl font-bold text-gray-800">Admin Sign In</CardTitle>
+            <CardDescription>Only accounts with the admin role can open the dashboard</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm">{error}</div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="admin-email">Email</Label>
+                <Input id="admin-email" name="email" type="email" placeholder="Enter your email" required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="admin-password">Password</Label>
+                <Input id="admin-password" name="password" type="password" placeholder="Enter your password" required />
+              </div>
+              <Button type="submit" className="w-full bg-yellow-600 hover:bg-yellow-700" disabled={loading}>
+                {loading ? "Signing In..." : "Sign In"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -2,27 +2,38 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Checkbox } from "@/components/ui/checkbox"
-import { Eye, EyeOff } from "lucide-react"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { ArrowLeft, Eye, EyeOff, Mail, MailCheck, Smartphone } from "lucide-react"
+import { REGEXP_ONLY_DIGITS } from "input-otp"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { apiClient } from "@/lib/api"
 
 interface AuthScreenProps {
   onNext: () => void
+  onAdminAccess?: () => void
 }
 
-export default function AuthScreen({ onNext }: AuthScreenProps) {
+export default function AuthScreen({ onNext, onAdminAccess }: AuthScreenProps) {
   const [showPassword, setShowPassword] = useState(false)
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+  const [view, setView] = useState<"tabs" | "forgot" | "verify">("tabs")
+  const [resetEmail, setResetEmail] = useState("")
+  const [resendCooldown, setResendCooldown] = useState(0)
+  const [signinMethod, setSigninMethod] = useState<"email" | "phone">("email")
+  const [signinPhone, setSigninPhone] = useState("")
+  const [otpCode, setOtpCode] = useState("")
+  const [codeSent, setCodeSent] = useState(false)
   const [formData, setFormData] = useState({
     username: "",
     email: "",
@@ -32,6 +43,91 @@ export default function AuthScreen({ onNext }: AuthScreenProps) {
     agreeToTerms: false,
   })
 
+  useEffect(() => {
+    if (resendCooldown <= 0) return
+    const timer = setTimeout(() => setResendCooldown((seconds) => seconds - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [resendCooldown])
+
+  const showView = (nextView: typeof view) => {
+    setError("")
+    setNotice("")
+    setView(nextView)
+  }
+
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError("")
+    setNotice("")
+
+    const response = await apiClient.requestPasswordReset(resetEmail)
+    if (response.success) {
+      setNotice(response.message)
+    } else {
+      setError(response.message)
+    }
+    setResendCooldown(response.retryAfter ?? 0)
+    setLoading(false)
+  }
+
+  const handleResendVerification = async () => {
+    setLoading(true)
+    setError("")
+    setNotice("")
+
+    const response = await apiClient.sendVerificationEmail()
+    if (response.success) {
+      setNotice(response.message)
+    } else {
+      setError(response.message)
+    }
+    setResendCooldown(response.retryAfter ?? 0)
+    setLoading(false)
+  }
+
+  const switchSigninMethod = (method: typeof signinMethod) => {
+    setError("")
+    setNotice("")
+    setCodeSent(false)
+    setOtpCode("")
+    setSigninMethod(method)
+  }
+
+  const handleRequestCode = async (e?: React.FormEvent) => {
+    e?.preventDefault()
+    setLoading(true)
+    setError("")
+    setNotice("")
+
+    const response = await apiClient.requestPhoneCode(signinPhone)
+    if (response.success) {
+      setNotice(response.message)
+      setCodeSent(true)
+      setOtpCode("")
+    } else {
+      setError(response.message)
+    }
+    setResendCooldown(response.retryAfter ?? 0)
+    setLoading(false)
+  }
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError("")
+
+    const response = await apiClient.signinWithPhoneCode(signinPhone, otpCode)
+    if (response.success) {
+      onNext()
+    } else {
+      setNotice("")
+      setError(response.message)
+      setOtpCode("")
+    }
+    setLoading(false)
+  }
+
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
@@ -81,7 +177,12 @@ export default function AuthScreen({ onNext }: AuthScreenProps) {
         formData.username || undefined,
       )
 
-      if (response.success) {
+      if (response.success && !apiClient.isOfflineMode()) {
+        // The server has emailed a verification link; let the user resend it before moving on
+        setNotice(`We've sent a verification link to ${formData.email}.`)
+        setResendCooldown(60)
+        setView("verify")
+      } else if (response.success) {
         onNext()
       } else {
         setError(response.message)
@@ -93,6 +194,80 @@ export default function AuthScreen({ onNext }: AuthScreenProps) {
     }
   }
 
+  if (view !== "tabs") {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-yellow-400 via-yellow-500 to-amber-600 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            {view === "verify" && <MailCheck className="h-10 w-10 mx-auto text-amber-600 mb-2" />}
+            <CardTitle className="text-2xl font-bold text-gray-800">
+              {view === "forgot" ? "Forgot your password?" : "Verify your email"}
+            </CardTitle>
+            <CardDescription>
+              {view === "forgot"
+                ? "Enter the email you signed up with and we'll send you a reset link"
+                : "Open the link in the email we just sent to confirm your address"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm">{error}</div>
+            )}
+            {notice && (
+              <div className="mb-4 p-3 bg-green-100 border border-green-300 text-green-700 rounded-md text-sm">
+                {notice}
+              </div>
+            )}
+
+            {view === "forgot" ? (
+              <form onSubmit={handleForgotPassword} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reset-email">Email</Label>
+                  <Input
+                    id="reset-email"
+                    type="email"
+                    placeholder="Enter your email"
+                    value={resetEmail}
+                    onChange={(e) => setResetEmail(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full bg-amber-600 hover:bg-amber-700"
+                  disabled={loading || resendCooldown > 0}
+                >
+                  {loading ? "Sending..." : resendCooldown > 0 ? `Send again in ${resendCooldown}s` : "Send Reset Link"}
+                </Button>
+                <Button type="button" variant="ghost" className="w-full" onClick={() => showView("tabs")}>
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Sign In
+                </Button>
+              </form>
+            ) : (
+              <div className="space-y-4">
+                <Button className="w-full bg-amber-600 hover:bg-amber-700" onClick={onNext}>
+                  Continue
+                </Button>
+                <Button
+                  variant="outline"
+                  className="w-full bg-transparent"
+                  onClick={handleResendVerification}
+                  disabled={loading || resendCooldown > 0}
+                >
+                  {resendCooldown > 0 ? `Resend email in ${resendCooldown}s` : "Resend verification email"}
+                </Button>
+                <p className="text-xs text-center text-gray-600">
+                  Didn't get it? Check your spam folder. The link expires in 24 hours.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-yellow-400 via-yellow-500 to-amber-600 flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -104,6 +279,11 @@ export default function AuthScreen({ onNext }: AuthScreenProps) {
           {error && (
             <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm">{error}</div>
           )}
+          {notice && (
+            <div className="mb-4 p-3 bg-green-100 border border-green-300 text-green-700 rounded-md text-sm">
+              {notice}
+            </div>
+          )}
 
           <Tabs defaultValue="signin" className="w-full">
             <TabsList className="grid w-full grid-cols-2">
@@ -112,36 +292,138 @@ export default function AuthScreen({ onNext }: AuthScreenProps) {
             </TabsList>
 
             <TabsContent value="signin">
-              <form onSubmit={handleSignIn} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="signin-email">Email/Contact</Label>
-                  <Input id="signin-email" name="email" type="email" placeholder="Enter your email" required />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signin-password">Password</Label>
-                  <div className="relative">
-                    <Input
-                      id="signin-password"
-                      name="password"
-                      type={showPassword ? "text" : "password"}
-                      placeholder="Enter your password"
-                      required
-                    />
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                <Button
+                  type="button"
+                  variant={signinMethod === "email" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => switchSigninMethod("email")}
+                >
+                  <Mail className="h-4 w-4 mr-2" />
+                  Email
+                </Button>
+                <Button
+                  type="button"
+                  variant={signinMethod === "phone" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => switchSigninMethod("phone")}
+                >
+                  <Smartphone className="h-4 w-4 mr-2" />
+                  Phone
+                </Button>
+              </div>
+
+              {signinMethod === "phone" ? (
+                codeSent ? (
+                  <form onSubmit={handleVerifyCode} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signin-code">Enter the 6-digit code sent to {signinPhone}</Label>
+                      <div className="flex justify-center">
+                        <InputOTP
+                          id="signin-code"
+                          maxLength={6}
+                          pattern={REGEXP_ONLY_DIGITS}
+                          value={otpCode}
+                          onChange={setOtpCode}
+                          autoFocus
+                        >
+                          <InputOTPGroup>
+                            {Array.from({ length: 6 }, (_, index) => (
+                              <InputOTPSlot key={index} index={index} />
+                            ))}
+                          </InputOTPGroup>
+                        </InputOTP>
+                      </div>
+                    </div>
                     <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                      onClick={() => setShowPassword(!showPassword)}
+                      type="submit"
+                      className="w-full bg-amber-600 hover:bg-amber-700"
+                      disabled={loading || otpCode.length < 6}
                     >
-                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      {loading ? "Verifying..." : "Verify & Sign In"}
                     </Button>
+                    <div className="flex justify-between text-sm">
+                      <button
+                        type="button"
+                        className="text-blue-600 hover:underline"
+                        onClick={() => setCodeSent(false)}
+                      >
+                        Change number
+                      </button>
+                      <button
+                        type="button"
+                        className="text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+                        onClick={() => handleRequestCode()}
+                        disabled={loading || resendCooldown > 0}
+                      >
+                        {resendCooldown > 0 ? `Resend code in ${resendCooldown}s` : "Resend code"}
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <form onSubmit={handleRequestCode} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signin-phone">Phone</Label>
+                      <Input
+                        id="signin-phone"
+                        type="tel"
+                        autoComplete="tel"
+                        placeholder="e.g. 082 123 4567"
+                        value={signinPhone}
+                        onChange={(e) => setSigninPhone(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <Button
+                      type="submit"
+                      className="w-full bg-amber-600 hover:bg-amber-700"
+                      disabled={loading || resendCooldown > 0}
+                    >
+                      {loading ? "Sending..." : resendCooldown > 0 ? `Send again in ${resendCooldown}s` : "Send Code"}
+                    </Button>
+                  </form>
+                )
+              ) : (
+                <form onSubmit={handleSignIn} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="signin-email">Email</Label>
+                    <Input id="signin-email" name="email" type="email" placeholder="Enter your email" required />
                   </div>
-                </div>
-                <Button type="submit" className="w-full bg-amber-600 hover:bg-amber-700" disabled={loading}>
-                  {loading ? "Signing In..." : "Sign In"}
-                </Button>
-              </form>
+                  <div className="space-y-2">
+                    <Label htmlFor="signin-password">Password</Label>
+                    <div className="relative">
+                      <Input
+                        id="signin-password"
+                        name="password"
+                        type={showPassword ? "text" : "password"}
+                        placeholder="Enter your password"
+                        required
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                        onClick={() => setShowPassword(!showPassword)}
+                      >
+                        {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <button
+                      type="button"
+                      className="text-sm text-blue-600 hover:underline"
+                      onClick={() => showView("forgot")}
+                    >
+                      Forgot password?
+                    </button>
+                  </div>
+                  <Button type="submit" className="w-full bg-amber-600 hover:bg-amber-700" disabled={loading}>
+                    {loading ? "Signing In..." : "Sign In"}
+                  </Button>
+                </form>
+              )}
             </TabsContent>
 
             <TabsContent value="signup">
@@ -182,9 +464,10 @@ export default function AuthScreen({ onNext }: AuthScreenProps) {
                     <Input
                       id="password"
                       type={showPassword ? "text" : "password"}
-                      placeholder="Enter your password"
+                      placeholder="At least 8 characters"
                       value={formData.password}
                       onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                      minLength={8}
                       required
                     />
                     <Button
@@ -319,6 +602,14 @@ export default function AuthScreen({ onNext }: AuthScreenProps) {
                 <button className="hover:underline">FAQ</button>
               </DialogTrigger>
             </Dialog>
+            {onAdminAccess && (
+              <>
+                {" • "}
+                <button type="button" onClick={onAdminAccess} className="hover:underline">
+                  Admin
+                </button>
+              </>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -11,6 +11,7 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { ArrowLeft } from "lucide-react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { saveRegistration } from "@/lib/entries"
 
 interface CategoryRegistrationProps {
   category: string
@@ -27,13 +28,6 @@ export default function CategoryRegistration({ category, onBack, onNext }: Categ
     agreeToTerms: false,
   })
 
-  const generateUniqueCode = () => {
-    const prefix = category.toUpperCase().substring(0, 3)
-    const timestamp = Date.now().toString().slice(-6)
-    const random = Math.random().toString(36).substring(2, 5).toUpperCase()
-    return `${prefix}-${timestamp}-${random}`
-  }
-
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (!formData.agreeToTerms) {
@@ -41,8 +35,11 @@ export default function CategoryRegistration({ category, onBack, onNext }: Categ
       return
     }
 
-    const uniqueCode = generateUniqueCode()
-    alert(`Registration successful! Your competition tracking ID is: ${uniqueCode}`)
+    // The entry itself, and its tracking code, come once a paid recording is submitted
+    saveRegistration(category, { artistName: formData.artistName, contactNumber: formData.contactNumber })
+    alert(
+      "Registration successful! Record your song, and once you've paid for your video you can submit it as your entry. You'll get your competition tracking code then.",
+    )
     onNext()
   }
 
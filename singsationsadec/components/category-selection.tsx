@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { User } from "lucide-react"
 import CategoryRegistration from "@/components/category-registration"
+import { categories } from "@/lib/categories"
 
 interface CategorySelectionProps {
   onNext: (category: string) => void
@@ -14,27 +15,6 @@ interface CategorySelectionProps {
 export default function CategorySelection({ onNext, onProfile }: CategorySelectionProps) {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
 
-  const categories = [
-    {
-      id: "adults",
-      title: "Adults Competition",
-      description: "Ages 18 and up - Show your vocal prowess",
-      icon: "🎤",
-    },
-    {
-      id: "kids",
-      title: "Kids Competition",
-      description: "Ages 6-17 - Young talent showcase",
-      icon: "🌟",
-    },
-    {
-      id: "celebrities",
-      title: "Celebrity Competition",
-      description: "Special celebrity showcase category",
-      icon: "⭐",
-    },
-  ]
-
   if (selectedCategory) {
     return (
       <CategoryRegistration
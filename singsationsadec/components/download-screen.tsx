@@ -1,32 +1,80 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { ArrowLeft, Download, CreditCard, Clock, AlertTriangle, User, Volume2 } from "lucide-react"
+import {
+  ArrowLeft,
+  Download,
+  CreditCard,
+  Clock,
+  AlertTriangle,
+  User,
+  Volume2,
+  Trophy,
+  Scissors,
+  Send,
+} from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
-import { apiClient } from "@/lib/api"
+import { Progress } from "@/components/ui/progress"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import TrimEditor from "@/components/trim-editor"
+import { apiClient, type EntryInfo, type PerformanceScore, type RecordingSync, type TrackAdjustment } from "@/lib/api"
+import { getCategory } from "@/lib/categories"
+import { ENTRY_STATUSES, loadRegistration, type CompetitionRegistration } from "@/lib/entries"
+import { trimSync, type TakeEdit } from "@/lib/recording/editor"
+import { getTake, saveTake, type Take } from "@/lib/recording/takes"
+
+const PAYMENT_CONFIRMATION_GRACE_MS = 60 * 1000
 
 interface DownloadScreenProps {
   video: string | null
+  recordingId?: string // durable id of the uploaded recording, kept with the purchase
   onBack: () => void
   onProfile?: () => void // Added profile navigation prop
   songTitle?: string
   category?: string
+  score?: PerformanceScore
+  songId?: string
+  takeId?: string // the take in this browser the video came from, which has the stems for the editor
+  sync?: RecordingSync
+  trackAdjustment?: TrackAdjustment
+  onEdited?: (video: string, recordingId?: string, sync?: RecordingSync) => void // the trimmed take replaces the video
 }
 
 export default function DownloadScreen({
   video,
+  recordingId,
   onBack,
   onProfile,
   songTitle = "Karaoke Performance",
   category = "General",
+  score,
+  songId,
+  takeId,
+  sync,
+  trackAdjustment,
+  onEdited,
 }: DownloadScreenProps) {
-  const [paymentStatus, setPaymentStatus] = useState<"pending" | "processing" | "completed" | "failed">("pending")
+  const [paymentStatus, setPaymentStatus] = useState<
+    "loading" | "pending" | "processing" | "unconfirmed" | "completed" | "failed"
+  >("loading")
+  const [paymentId, setPaymentId] = useState<string | null>(null)
+  const [paymentNotice, setPaymentNotice] = useState("")
   const [showPaymentDialog, setShowPaymentDialog] = useState(false)
   const [videoError, setVideoError] = useState<string>("")
+  const [take, setTake] = useState<Take | null>(null)
+  const [editing, setEditing] = useState(false)
+  const [entry, setEntry] = useState<EntryInfo | null>(null)
+  const [showEntryDialog, setShowEntryDialog] = useState(false)
+  const [entryDetails, setEntryDetails] = useState<CompetitionRegistration>({ artistName: "", contactNumber: "" })
+  const [submittingEntry, setSubmittingEntry] = useState(false)
+  const competition = getCategory(category)
   const videoRef = useRef<HTMLVideoElement>(null)
+  const paymentWindowRef = useRef<Window | null>(null)
 
   useEffect(() => {
     if (videoRef.current && video) {
@@ -102,38 +150,214 @@ export default function DownloadScreen({
     }
   }, [video])
 
+  useEffect(() => {
+    if (!takeId) return
+
+    let cancelled = false
+    getTake(takeId)
+      .then((stored) => !cancelled && setTake(stored))
+      .catch((error) => console.warn("Failed to load the take for editing:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [takeId])
+
+  // The editor works from the take in this browser when it still has it, rather than streaming the upload back
+  const editorVideo = useMemo(() => (take ? URL.createObjectURL(take.blob) : video), [take, video])
+  useEffect(
+    () => () => {
+      if (editorVideo && editorVideo !== video) URL.revokeObjectURL(editorVideo)
+    },
+    [editorVideo, video],
+  )
+
+  // Once edited, the trimmed take is what gets bought. An uploaded take is replaced by a new upload,
+  // which the server transcodes like any other.
+  const saveEdit = async (blob: Blob, edit: TakeEdit) => {
+    const editedSync = trimSync(take?.sync ?? sync, edit)
+    let editedVideo = ""
+    let editedId: string | undefined
+
+    if (!recordingId || !songId || apiClient.isOfflineMode()) {
+      editedVideo = URL.createObjectURL(blob)
+    } else {
+      const response = await apiClient.uploadRecording(blob, {
+        songId,
+        songTitle,
+        category,
+        score,
+        sync: editedSync,
+        trackAdjustment: take?.trackAdjustment ?? trackAdjustment,
+      })
+      if (!response.success || !response.recording) {
+        alert(response.message)
+        return
+      }
+
+      const replaced = await apiClient.deleteRecording(recordingId)
+      if (!replaced.success) {
+        console.warn("Failed to delete the untrimmed recording:", replaced.message)
+      }
+      editedVideo = response.recording.videoUrl
+      editedId = response.recording.id
+    }
+
+    // The take in this browser becomes the edited one too, so editing again starts from the trimmed
+    // version. Its stems no longer line up with it, so from here on it can only be trimmed.
+    if (take) {
+      const edited: Take = { ...take, blob, duration: edit.end - edit.start, sync: editedSync, stems: undefined }
+      await saveTake(edited).catch((error) => console.warn("Failed to save the edited take:", error))
+      setTake(edited)
+    }
+
+    onEdited?.(editedVideo, editedId, editedSync)
+    if (video?.startsWith("blob:")) URL.revokeObjectURL(video)
+    setEditing(false)
+  }
+
+  // After a reload the payment is forgotten, so the server says whether this recording was already bought.
+  // Nothing can be paid for until it has answered.
+  useEffect(() => {
+    if (!video) return
+    if (!recordingId) {
+      setPaymentStatus("pending")
+      return
+    }
+
+    let cancelled = false
+    setPaymentStatus("loading")
+    apiClient
+      .getPurchases()
+      .then((purchases) => {
+        if (cancelled) return
+        const bought = purchases.some(
+          (purchase) => purchase.recordingId === recordingId && purchase.status === "active",
+        )
+        setPaymentStatus(bought ? "completed" : "pending")
+      })
+      .catch((error) => {
+        console.warn("Failed to load purchases:", error)
+        if (!cancelled) setPaymentStatus("pending")
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [video, recordingId])
+
+  // Once paid for, the video can go in as the singer's entry; their entry in this category may already exist
+  useEffect(() => {
+    if (paymentStatus !== "completed" || !recordingId || !competition) return
+
+    let cancelled = false
+    apiClient
+      .getEntries()
+      .then((entries) => {
+        if (!cancelled) setEntry(entries.find((existing) => existing.category === competition.id) ?? null)
+      })
+      .catch((error) => console.warn("Failed to load competition entries:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [paymentStatus, recordingId, competition])
+
+  const openEntryDialog = () => {
+    const user = apiClient.getCurrentUser()
+    setEntryDetails(loadRegistration(category) ?? { artistName: user?.name ?? "", contactNumber: user?.phone ?? "" })
+    setShowEntryDialog(true)
+  }
+
+  const submitEntry = async () => {
+    if (!recordingId) return
+
+    setSubmittingEntry(true)
+    const response = await apiClient.submitEntry(recordingId, entryDetails)
+    setSubmittingEntry(false)
+
+    if (response.entry) {
+      setEntry(response.entry)
+      setShowEntryDialog(false)
+    }
+    alert(response.message)
+  }
+
   const handlePayment = () => {
     setShowPaymentDialog(true)
   }
 
-  const processPayment = () => {
-    setPaymentStatus("processing")
-    setShowPaymentDialog(false)
+  // Poll the server while the Yoco popup is open; only its answer (from the signed webhook) unlocks the download
+  useEffect(() => {
+    if (paymentStatus !== "processing" || !paymentId) return
 
-    const paymentWindow = window.open(
-      "https://pay.yoco.com/r/4WXyWk",
-      "YoCoPayment",
-      "width=600,height=700,scrollbars=yes,resizable=yes",
-    )
-
-    const checkPayment = setInterval(() => {
-      if (paymentWindow?.closed) {
-        clearInterval(checkPayment)
-        setTimeout(() => {
-          setPaymentStatus("completed")
-          savePurchasedVideo()
-          alert("Payment successful! You can now download your video.")
-        }, 2000)
-      }
-    }, 1000)
+    let closedAt: number | null = null
+    let cancelled = false
+
+    const poll = async () => {
+      const response = await apiClient.getPaymentStatus(paymentId)
+      if (cancelled) return
 
-    setTimeout(() => {
-      if (paymentStatus === "processing") {
-        clearInterval(checkPayment)
+      if (response.status === "succeeded") {
+        clearInterval(timer)
         setPaymentStatus("completed")
+        setPaymentNotice("")
         savePurchasedVideo()
+        alert("Payment successful! You can now download your video.")
+        return
       }
-    }, 30000)
+
+      if (response.status === "failed") {
+        clearInterval(timer)
+        setPaymentStatus("failed")
+        setPaymentNotice("Your payment was declined. No money was taken.")
+        return
+      }
+
+      // Give the webhook a little time to arrive after the popup closes, then stop and let the user check again
+      if (paymentWindowRef.current?.closed !== false) {
+        closedAt ??= Date.now()
+        if (Date.now() - closedAt > PAYMENT_CONFIRMATION_GRACE_MS) {
+          clearInterval(timer)
+          setPaymentStatus("unconfirmed")
+          setPaymentNotice("We haven't received confirmation of your payment yet.")
+        }
+      }
+    }
+
+    const timer = setInterval(poll, 3000)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [paymentStatus, paymentId])
+
+  const processPayment = async () => {
+    setPaymentStatus("processing")
+    setPaymentNotice("")
+    setShowPaymentDialog(false)
+
+    // Open the popup straight from the click so it isn't blocked, then point it at the checkout once we have one
+    const paymentWindow = window.open("", "YoCoPayment", "width=600,height=700,scrollbars=yes,resizable=yes")
+
+    const checkout = await apiClient.createCheckout(songTitle, category, recordingId)
+    if (!checkout.success || !checkout.paymentId || !checkout.redirectUrl) {
+      paymentWindow?.close()
+      setPaymentStatus("failed")
+      setPaymentNotice(checkout.message)
+      return
+    }
+
+    if (paymentWindow) {
+      paymentWindow.location.href = checkout.redirectUrl
+    }
+    paymentWindowRef.current = paymentWindow ?? window.open(checkout.redirectUrl, "_blank")
+    setPaymentId(checkout.paymentId)
+  }
+
+  const checkPaymentAgain = () => {
+    setPaymentNotice("")
+    setPaymentStatus("processing")
   }
 
   const savePurchasedVideo = async () => {
@@ -144,7 +368,7 @@ export default function DownloadScreen({
     const user = apiClient.getCurrentUser()
 
     const purchasedVideo = {
-      id: `video_${Date.now()}`,
+      id: recordingId ?? `video_${Date.now()}`,
       songTitle: songTitle,
       category: category,
       videoUrl: video,
@@ -156,6 +380,7 @@ export default function DownloadScreen({
       if (user) {
         await apiClient.savePurchase({
           user_id: user.id,
+          video_id: recordingId,
           song_title: songTitle,
           artist_name: user.name || "Unknown",
           category: category,
@@ -175,15 +400,36 @@ export default function DownloadScreen({
     }
   }
 
-  const downloadVideo = () => {
+  const downloadVideo = async () => {
     if (!video || paymentStatus !== "completed") {
       alert("Payment required before download")
       return
     }
 
+    // Stored recordings are downloaded through a short-lived signed link that the server only issues once paid
+    // The server names the file after what it stores, which becomes .mp4 once transcoding finishes
+    let href = video
+    let filename = ""
+    if (recordingId) {
+      const response = await apiClient.getDownloadUrl(recordingId)
+      if (!response.success || !response.url) {
+        alert(response.message)
+        return
+      }
+      href = response.url
+      filename = response.filename ?? ""
+    }
+    if (!filename) {
+      // A local take is whatever the browser recorded: WebM, or MP4 on Safari
+      const blob = await fetch(video)
+        .then((response) => response.blob())
+        .catch(() => null)
+      filename = `karaoke-${songTitle.replace(/[^\w-]+/g, "-").toLowerCase()}.${blob?.type.includes("mp4") ? "mp4" : "webm"}`
+    }
+
     const link = document.createElement("a")
-    link.href = video
-    link.download = `karaoke-performance-${Date.now()}.webm`
+    link.href = href
+    link.download = filename
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
@@ -218,8 +464,12 @@ export default function DownloadScreen({
 
   const getPaymentButtonText = () => {
     switch (paymentStatus) {
+      case "loading":
+        return "Checking Purchase..."
       case "processing":
-        return "Processing Payment..."
+        return "Waiting for Payment..."
+      case "unconfirmed":
+        return "Check Payment Status"
       case "completed":
         return "Payment Completed ✓"
       case "failed":
@@ -260,13 +510,33 @@ export default function DownloadScreen({
           <div className="lg:col-span-2">
             <Card>
               <CardHeader>
-                <CardTitle>Performance Preview</CardTitle>
-                <CardDescription>
-                  Review your karaoke performance - use the video controls to play with audio
-                </CardDescription>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1.5">
+                    <CardTitle>{editing ? "Trim & Balance" : "Performance Preview"}</CardTitle>
+                    <CardDescription>
+                      {editing
+                        ? "Drag the handles to cut the start and end, and set the voice and music levels"
+                        : "Review your karaoke performance - use the video controls to play with audio"}
+                    </CardDescription>
+                  </div>
+                  {video && onEdited && !editing && (paymentStatus === "pending" || paymentStatus === "failed") && (
+                    <Button variant="outline" size="sm" onClick={() => setEditing(true)}>
+                      <Scissors className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                  )}
+                </div>
               </CardHeader>
               <CardContent>
-                {video ? (
+                {editing && editorVideo ? (
+                  <TrimEditor
+                    videoUrl={editorVideo}
+                    source={take?.blob ?? null}
+                    stems={take?.stems}
+                    onSave={saveEdit}
+                    onCancel={() => setEditing(false)}
+                  />
+                ) : video ? (
                   <div className="space-y-4">
                     <div className="aspect-video bg-black rounded-lg overflow-hidden">
                       <video
@@ -318,6 +588,48 @@ export default function DownloadScreen({
           </div>
 
           <div className="space-y-4">
+            {score && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Trophy className="h-5 w-5 mr-2" />
+                    Performance Score
+                  </CardTitle>
+                  <CardDescription>Measured from your voice while you sang</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="text-center">
+                    <div className="text-4xl font-bold text-amber-600">{score.overall}</div>
+                    <p className="text-sm text-gray-600">out of 100</p>
+                  </div>
+                  {(
+                    [
+                      ["Pitch accuracy", score.pitch],
+                      ["Timing", score.timing],
+                      ["Stability", score.stability],
+                    ] as const
+                  ).map(
+                    ([label, value]) =>
+                      value !== null && (
+                        <div key={label} className="space-y-1">
+                          <div className="flex justify-between text-sm">
+                            <span>{label}</span>
+                            <span className="font-medium">{value}</span>
+                          </div>
+                          <Progress value={value} />
+                        </div>
+                      ),
+                  )}
+                  {score.timing === null && (
+                    <p className="text-xs text-gray-500">
+                      This song has no reference melody yet, so pitch is scored on singing in tune and timing isn't
+                      scored.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center">
@@ -332,6 +644,13 @@ export default function DownloadScreen({
                   <p className="text-sm text-gray-600">One-time download fee</p>
                 </div>
 
+                {paymentStatus === "loading" && (
+                  <Button disabled className="w-full" size="lg">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                    {getPaymentButtonText()}
+                  </Button>
+                )}
+
                 {paymentStatus === "pending" && (
                   <Button onClick={handlePayment} className="w-full bg-blue-600 hover:bg-blue-700" size="lg">
                     <CreditCard className="h-5 w-5 mr-2" />
@@ -346,6 +665,13 @@ export default function DownloadScreen({
                   </Button>
                 )}
 
+                {paymentStatus === "unconfirmed" && (
+                  <Button onClick={checkPaymentAgain} className="w-full bg-blue-600 hover:bg-blue-700" size="lg">
+                    <Clock className="h-5 w-5 mr-2" />
+                    {getPaymentButtonText()}
+                  </Button>
+                )}
+
                 {paymentStatus === "completed" && (
                   <Button onClick={downloadVideo} className="w-full bg-green-600 hover:bg-green-700" size="lg">
                     <Download className="h-5 w-5 mr-2" />
@@ -359,9 +685,50 @@ export default function DownloadScreen({
                     {getPaymentButtonText()}
                   </Button>
                 )}
+
+                {paymentNotice && <p className="text-sm text-center text-gray-600">{paymentNotice}</p>}
               </CardContent>
             </Card>
 
+            {paymentStatus === "completed" && recordingId && competition && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Trophy className="h-5 w-5 mr-2" />
+                    Competition Entry
+                  </CardTitle>
+                  <CardDescription>{competition.title}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {entry ? (
+                    <>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-mono font-semibold">{entry.trackingCode}</span>
+                        <Badge variant="outline" className={ENTRY_STATUSES[entry.status].className}>
+                          {ENTRY_STATUSES[entry.status].label}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {entry.recordingId === recordingId
+                          ? ENTRY_STATUSES[entry.status].description
+                          : `Your entry in this category is "${entry.songTitle}". Only one entry per category counts.`}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-sm text-gray-600">
+                        Submit this video as your online audition. You can enter each category once.
+                      </p>
+                      <Button onClick={openEntryDialog} className="w-full bg-amber-600 hover:bg-amber-700">
+                        <Send className="h-4 w-4 mr-2" />
+                        Submit as My Entry
+                      </Button>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             <Alert>
               <Clock className="h-4 w-4" />
               <AlertDescription>
@@ -410,6 +777,49 @@ export default function DownloadScreen({
           </DialogContent>
         </Dialog>
 
+        <Dialog open={showEntryDialog} onOpenChange={setShowEntryDialog}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Submit Your Entry</DialogTitle>
+              <DialogDescription>
+                &quot;{songTitle}&quot; will be entered in the {competition?.title}. The judges see your artist name;
+                your contact number is only used to reach you if you go through.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="entryArtistName">Artist Name *</Label>
+                <Input
+                  id="entryArtistName"
+                  value={entryDetails.artistName}
+                  onChange={(e) => setEntryDetails({ ...entryDetails, artistName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="entryContactNumber">Contact Number *</Label>
+                <Input
+                  id="entryContactNumber"
+                  type="tel"
+                  value={entryDetails.contactNumber}
+                  onChange={(e) => setEntryDetails({ ...entryDetails, contactNumber: e.target.value })}
+                />
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  onClick={submitEntry}
+                  disabled={submittingEntry || !entryDetails.artistName.trim() || !entryDetails.contactNumber.trim()}
+                  className="flex-1 bg-amber-600 hover:bg-amber-700"
+                >
+                  {submittingEntry ? "Submitting..." : "Submit Entry"}
+                </Button>
+                <Button variant="outline" onClick={() => setShowEntryDialog(false)} className="flex-1 bg-transparent">
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         <Card className="mt-6">
           <CardContent className="p-6">
             <h3 className="font-semibold mb-4">What you get:</h3>
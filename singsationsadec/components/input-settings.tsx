@@ -0,0 +1,173 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Settings, ChevronDown, ChevronUp } from "lucide-react"
+import { listInputDevices, loadInputPreferences, type InputKind } from "@/lib/recording/devices"
+
+interface InputSettingsProps {
+  stream: MediaStream | null
+  // null switches back to the browser's default device. remember is false for automatic switches
+  // after a device is unplugged or plugged back in, which shouldn't change the saved choice.
+  onSelect: (kind: InputKind, deviceId: string | null, remember: boolean) => void
+  audioOnly?: boolean // recording without a camera, so only the microphone can be changed
+}
+
+const trackDeviceId = (track?: MediaStreamTrack) => track?.getSettings().deviceId ?? ""
+
+// Live input level from the microphone, drawn straight to the DOM rather than through React state
+function MicLevelMeter({ stream }: { stream: MediaStream }) {
+  const barRef = useRef<HTMLDivElement>(null)
+  const audioTrack = stream.getAudioTracks()[0]
+
+  useEffect(() => {
+    if (!audioTrack) return
+
+    const context = new AudioContext()
+    const analyser = context.createAnalyser()
+    analyser.fftSize = 1024
+    context.createMediaStreamSource(new MediaStream([audioTrack])).connect(analyser)
+    context.resume().catch(() => undefined)
+
+    const samples = new Float32Array(analyser.fftSize)
+    let frame = requestAnimationFrame(function update() {
+      analyser.getFloatTimeDomainData(samples)
+      let peak = 0
+      for (const sample of samples) peak = Math.max(peak, Math.abs(sample))
+      if (barRef.current) {
+        barRef.current.style.width = `${Math.min(100, peak * 100)}%`
+        barRef.current.style.backgroundColor = peak > 0.9 ? "#dc2626" : peak > 0.6 ? "#f59e0b" : "#16a34a"
+      }
+      frame = requestAnimationFrame(update)
+    })
+
+    return () => {
+      cancelAnimationFrame(frame)
+      context.close()
+    }
+  }, [audioTrack])
+
+  return (
+    <div className="h-3 w-full rounded-full bg-gray-200 overflow-hidden">
+      <div ref={barRef} className="h-full w-0 transition-[width] duration-75" />
+    </div>
+  )
+}
+
+export default function InputSettings({ stream, onSelect, audioOnly = false }: InputSettingsProps) {
+  const [open, setOpen] = useState(false)
+  const [devices, setDevices] = useState<Record<InputKind, MediaDeviceInfo[]>>({ camera: [], microphone: [] })
+  const previewRef = useRef<HTMLVideoElement>(null)
+
+  const cameraId = trackDeviceId(stream?.getVideoTracks()[0])
+  const microphoneId = trackDeviceId(stream?.getAudioTracks()[0])
+
+  // Keep the lists current as devices are plugged in and out. If the one in use disappears, fall back to
+  // the default rather than leaving the singer with a frozen picture or a silent mic, and go back to the
+  // chosen one when it reappears.
+  useEffect(() => {
+    let cancelled = false
+
+    const refresh = async () => {
+      try {
+        const available = await listInputDevices()
+        if (cancelled) return
+        setDevices(available)
+
+        const preferences = loadInputPreferences()
+        const inputs: [InputKind, string, string | undefined][] = [
+          ["camera", cameraId, preferences.cameraId],
+          ["microphone", microphoneId, preferences.microphoneId],
+        ]
+        if (audioOnly) inputs.shift()
+        for (const [kind, inUse, preferred] of inputs) {
+          const listed = (deviceId: string) => available[kind].some((device) => device.deviceId === deviceId)
+          if (preferred && preferred !== inUse && listed(preferred)) {
+            onSelect(kind, preferred, false)
+          } else if (inUse && !listed(inUse)) {
+            onSelect(kind, null, false)
+          }
+        }
+      } catch (error) {
+        console.warn("Failed to list input devices:", error)
+      }
+    }
+
+    refresh()
+    navigator.mediaDevices.addEventListener("devicechange", refresh)
+    return () => {
+      cancelled = true
+      navigator.mediaDevices.removeEventListener("devicechange", refresh)
+    }
+  }, [cameraId, microphoneId, onSelect, audioOnly])
+
+  useEffect(() => {
+    if (open && previewRef.current) {
+      previewRef.current.srcObject = stream
+    }
+  }, [open, stream, cameraId])
+
+  const deviceSelect = (kind: InputKind, value: string, label: string) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={(deviceId) => onSelect(kind, deviceId, true)}>
+        <SelectTrigger>
+          <SelectValue placeholder={`Default ${kind}`} />
+        </SelectTrigger>
+        <SelectContent>
+          {devices[kind].map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label || `${kind === "camera" ? "Camera" : "Microphone"} ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  return (
+    <Card className="mt-6">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold flex items-center">
+            <Settings className="h-5 w-5 mr-2" />
+            {audioOnly ? "Microphone" : "Camera & Microphone"}
+          </h3>
+          <Button variant="ghost" size="sm" onClick={() => setOpen((value) => !value)}>
+            {open ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+            {open ? "Hide" : "Change"}
+          </Button>
+        </div>
+
+        {open && (
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+            {!audioOnly && (
+              <div className="space-y-3">
+                {deviceSelect("camera", cameraId, "Camera")}
+                <div className="aspect-video bg-black rounded-lg overflow-hidden">
+                  <video
+                    ref={previewRef}
+                    className="w-full h-full object-cover scale-x-[-1]"
+                    autoPlay
+                    muted
+                    playsInline
+                  />
+                </div>
+              </div>
+            )}
+            <div className="space-y-3">
+              {deviceSelect("microphone", microphoneId, "Microphone")}
+              <div className="space-y-1">
+                <p className="text-sm text-gray-600">Sing a few notes: the bar should move without turning red</p>
+                {stream && <MicLevelMeter stream={stream} />}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
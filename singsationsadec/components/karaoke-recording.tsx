@@ -1,10 +1,63 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useCallback, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
-import { ArrowLeft, Video, Square, RotateCcw, Play, Pause, AlertCircle } from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import {
+  ArrowLeft,
+  Video,
+  Square,
+  RotateCcw,
+  Play,
+  Pause,
+  AlertCircle,
+  Upload,
+  Music,
+  Mic,
+  Trophy,
+  ListVideo,
+  History,
+} from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { apiClient, type RecordingSync, type TrackAdjustment } from "@/lib/api"
+import LyricsPanel from "@/components/lyrics-panel"
+import PitchGraph from "@/components/pitch-graph"
+import TakesDrawer from "@/components/takes-drawer"
+import InputSettings from "@/components/input-settings"
+import VocalEffectsPanel from "@/components/vocal-effects-panel"
+import TrackAdjustmentControls from "@/components/track-adjustment-controls"
+import type { LyricLine } from "@/lib/lyrics"
+import { transposeMelody, type MelodyNote } from "@/lib/melody"
+import { AudioMixer, type MixerSource } from "@/lib/recording/audio-mixer"
+import { VideoCompositor, type CompositorLayout } from "@/lib/recording/compositor"
+import {
+  cameraConstraints,
+  loadInputPreferences,
+  microphoneConstraints,
+  saveInputPreference,
+  type InputKind,
+} from "@/lib/recording/devices"
+import { PitchTracker } from "@/lib/recording/pitch"
+import { pickMimeType, VIDEO_MIME_TYPES } from "@/lib/recording/recorder-formats"
+import {
+  appendChunk,
+  discardBuffer,
+  findInterruptedBuffers,
+  recoverBuffer,
+  setBufferSync,
+  startBuffer,
+  type RecordingBuffer,
+} from "@/lib/recording/recording-buffer"
+import { scorePerformance, type PitchSample } from "@/lib/recording/scoring"
+import { StemRecorder } from "@/lib/recording/stems"
+import { deleteTake, listTakes, saveTake, type Take } from "@/lib/recording/takes"
+import { isAdjusted, loadTrackAdjustment, saveTrackAdjustment } from "@/lib/recording/track-adjustment"
+import { loadVocalEffectPreferences, saveVocalEffectPreferences } from "@/lib/recording/vocal-effects"
 
 interface KaraokeRecordingProps {
   song: {
@@ -12,20 +65,52 @@ interface KaraokeRecordingProps {
     title: string
     artist: string
     videoUrl: string
+    lyricsUrl?: string
+    melodyUrl?: string
+    artworkUrl?: string
   }
-  onNext: (recordedVideo: string) => void
+  category?: string
+  // recordingId is set once the take is stored on the server; without it the video is a local blob URL
+  onNext: (recordedVideo: string, take: Take, recordingId?: string) => void
   onBack: () => void
 }
 
-export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecordingProps) {
+export default function KaraokeRecording({ song, category = "", onNext, onBack }: KaraokeRecordingProps) {
   const [isRecording, setIsRecording] = useState(false)
-  const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null)
+  // Every take is kept until deleted; the selected one is what "Continue" uploads
+  const [takes, setTakes] = useState<Take[]>([])
+  const [selectedTake, setSelectedTake] = useState<Take | null>(null)
+  const [showTakes, setShowTakes] = useState(false)
+  const [interruptedBuffers, setInterruptedBuffers] = useState<RecordingBuffer[]>([])
   const [recordingTime, setRecordingTime] = useState(0)
   const [hasPermission, setHasPermission] = useState(false)
+  // Recording the microphone only, for entrants without a camera; the picture is generated instead
+  const [audioOnly, setAudioOnly] = useState(false)
+  const [artwork, setArtwork] = useState<HTMLImageElement | null>(null)
+  // The camera and microphone stream; streamRef holds the same, for handlers that mustn't go stale
+  const [inputStream, setInputStream] = useState<MediaStream | null>(null)
   const [permissionError, setPermissionError] = useState("")
   const [karaokeVideoPlaying, setKaraokeVideoPlaying] = useState(false)
   const [videoLoadError, setVideoLoadError] = useState(false)
   const [videoLoading, setVideoLoading] = useState(true)
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null)
+  const [uploadError, setUploadError] = useState("")
+  const [lyrics, setLyrics] = useState<LyricLine[]>([])
+  const [melody, setMelody] = useState<MelodyNote[]>([])
+  const [layout, setLayout] = useState<CompositorLayout>("pip")
+  const [showTitleCard, setShowTitleCard] = useState(true)
+  const [countdownLength, setCountdownLength] = useState(3)
+  const [countdown, setCountdown] = useState<number | null>(null)
+  const [mixLevels, setMixLevels] = useState<Record<MixerSource, number>>({ backing: 0.8, microphone: 1 })
+  const [vocalEffects, setVocalEffects] = useState(loadVocalEffectPreferences)
+  // How loud the singer hears their own processed voice; null when they don't
+  const [monitorLevel, setMonitorLevel] = useState<number | null>(null)
+  const [trackAdjustment, setTrackAdjustment] = useState(loadTrackAdjustment)
+  // What the singer is actually asked to sing once the track has been moved to another key
+  const sungMelody = useMemo(
+    () => transposeMelody(melody, trackAdjustment.keyShift),
+    [melody, trackAdjustment.keyShift],
+  )
 
   const karaokeVideoRef = useRef<HTMLVideoElement>(null)
   const userVideoRef = useRef<HTMLVideoElement>(null)
@@ -33,6 +118,17 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
   const streamRef = useRef<MediaStream | null>(null)
   const recordingTimerRef = useRef<NodeJS.Timeout | null>(null)
   const recordedChunksRef = useRef<Blob[]>([])
+  const mixerRef = useRef<AudioMixer | null>(null)
+  const recordingStartedAtRef = useRef<number | null>(null)
+  const compositorRef = useRef<VideoCompositor | null>(null)
+  const compositorPreviewRef = useRef<HTMLDivElement>(null)
+  const micAnalyserRef = useRef<AnalyserNode | null>(null)
+  const pitchTrackerRef = useRef<PitchTracker | null>(null)
+  const pitchSamplesRef = useRef<PitchSample[]>([])
+  const countdownTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const syncRef = useRef<RecordingSync | null>(null)
+  const discardTakeRef = useRef(false)
+  const bufferIdRef = useRef<string | null>(null)
 
   useEffect(() => {
     requestPermissions()
@@ -41,6 +137,7 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
     }
   }, [])
 
+  // Re-run once permission is granted: the video isn't mounted before then
   useEffect(() => {
     if (karaokeVideoRef.current) {
       const video = karaokeVideoRef.current
@@ -66,34 +163,157 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
         video.removeEventListener("error", handleError)
       }
     }
-  }, [song.title])
+  }, [song.title, hasPermission])
+
+  // The preview mounts only after permission is granted, which is after the stream arrives, so the stream
+  // is attached here rather than where it's requested. The compositor draws the camera from this element.
+  useEffect(() => {
+    if (userVideoRef.current) {
+      userVideoRef.current.srcObject = inputStream
+    }
+  }, [inputStream, hasPermission])
+
+  useEffect(() => {
+    if (!song.lyricsUrl) return
+
+    let cancelled = false
+    apiClient
+      .getLyrics(song.lyricsUrl)
+      .then((lines) => {
+        if (!cancelled) setLyrics(lines)
+      })
+      .catch((error) => console.warn(`Failed to load lyrics for ${song.title}:`, error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [song.lyricsUrl, song.title])
+
+  useEffect(() => {
+    if (!song.melodyUrl) return
+
+    let cancelled = false
+    apiClient
+      .getMelody(song.melodyUrl)
+      .then((notes) => {
+        if (!cancelled) setMelody(notes)
+      })
+      .catch((error) => console.warn(`Failed to load the reference melody for ${song.title}:`, error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [song.melodyUrl, song.title])
+
+  useEffect(() => {
+    let cancelled = false
+    listTakes(song.id)
+      .then((saved) => {
+        if (!cancelled) setTakes(saved)
+      })
+      .catch((error) => console.warn("Failed to load saved takes:", error))
+    findInterruptedBuffers(song.id)
+      .then((buffers) => {
+        if (!cancelled) setInterruptedBuffers(buffers)
+      })
+      .catch((error) => console.warn("Failed to check for interrupted recordings:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [song.id])
+
+  // Closing or leaving the tab mid-take asks first. If the phone locks instead, flush what the recorder
+  // is holding so the buffer in IndexedDB is as complete as possible.
+  useEffect(() => {
+    if (!isRecording) return
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault()
+      event.returnValue = ""
+    }
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden" && mediaRecorderRef.current?.state === "recording") {
+        mediaRecorderRef.current.requestData()
+      }
+    }
+
+    window.addEventListener("beforeunload", handleBeforeUnload)
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload)
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [isRecording])
+
+  // Lyrics and pitch readings follow the backing track; without a playable video they follow the time since recording started
+  const getTrackTime = useCallback(() => {
+    if (karaokeVideoRef.current && !videoLoadError) {
+      return karaokeVideoRef.current.currentTime
+    }
+    return recordingStartedAtRef.current === null ? 0 : (performance.now() - recordingStartedAtRef.current) / 1000
+  }, [videoLoadError])
+
+  useEffect(() => {
+    if (!song.artworkUrl) return
+
+    const image = new Image()
+    image.crossOrigin = "anonymous"
+    image.onload = () => setArtwork(image)
+    image.onerror = () => console.warn(`Failed to load artwork for ${song.title}`)
+    image.src = song.artworkUrl
+  }, [song.artworkUrl, song.title])
+
+  // Compose camera + karaoke video into the frame that gets recorded, and show it as a live preview
+  useEffect(() => {
+    if (!hasPermission) return
+
+    let compositor: VideoCompositor
+    try {
+      compositor = new VideoCompositor()
+    } catch (error) {
+      console.warn("Video compositing unavailable, recording the camera only:", error)
+      return
+    }
+
+    if (!audioOnly) {
+      compositor.setSources(userVideoRef.current, videoLoadError ? null : karaokeVideoRef.current)
+    }
+    compositor.setWaveformSource(micAnalyserRef.current)
+    compositor.canvas.className = "w-full h-full"
+    compositorPreviewRef.current?.appendChild(compositor.canvas)
+    compositor.start()
+    compositorRef.current = compositor
+
+    return () => {
+      compositor.stop()
+      compositor.canvas.remove()
+      compositorRef.current = null
+    }
+  }, [hasPermission, videoLoadError, audioOnly])
+
+  useEffect(() => {
+    compositorRef.current?.setLayout(audioOnly ? "audio" : layout)
+    compositorRef.current?.setTitleCard(showTitleCard ? { title: song.title, artist: song.artist } : null)
+    compositorRef.current?.setAudioVisual(audioOnly ? { title: song.title, artist: song.artist, artwork } : null)
+  }, [layout, showTitleCard, song.title, song.artist, hasPermission, videoLoadError, audioOnly, artwork])
 
   const requestPermissions = async () => {
     try {
       setPermissionError("")
 
+      const preferences = loadInputPreferences()
       const stream = await Promise.race([
         navigator.mediaDevices.getUserMedia({
-          video: {
-            width: { ideal: 1280 },
-            height: { ideal: 720 },
-            facingMode: "user",
-          },
-          audio: {
-            echoCancellation: true,
-            noiseSuppression: true,
-          },
+          video: cameraConstraints(preferences.cameraId),
+          audio: microphoneConstraints(preferences.microphoneId),
         }),
         new Promise<never>((_, reject) => setTimeout(() => reject(new Error("Permission request timeout")), 10000)),
       ])
 
       streamRef.current = stream
+      setInputStream(stream)
       setHasPermission(true)
-
-      // Display user video preview
-      if (userVideoRef.current) {
-        userVideoRef.current.srcObject = stream
-      }
     } catch (error: any) {
       console.error("Permission denied:", error)
 
@@ -103,7 +323,9 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
         errorMessage =
           "Camera and microphone permissions were denied. Please click the camera icon in your browser's address bar and allow access, then try again."
       } else if (error.name === "NotFoundError") {
-        errorMessage = "No camera or microphone found. Please connect a camera and microphone and try again."
+        // Most likely there's no camera; carry on with the microphone alone if there is one
+        requestAudioOnly()
+        return
       } else if (error.name === "NotReadableError") {
         errorMessage =
           "Camera or microphone is already in use by another application. Please close other apps and try again."
@@ -127,17 +349,82 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
       })
 
       streamRef.current = stream
+      setInputStream(stream)
       setHasPermission(true)
-
-      if (userVideoRef.current) {
-        userVideoRef.current.srcObject = stream
-      }
     } catch (error: any) {
       console.error("Basic permission request failed:", error)
       setPermissionError("Unable to access camera and microphone. Please check your device settings and try again.")
     }
   }
 
+  // For entrants without a camera, or who'd rather not be on one: the recording gets the song artwork and
+  // a waveform of their voice as its picture, so it's still a video like every other entry
+  const requestAudioOnly = async () => {
+    try {
+      setPermissionError("")
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: microphoneConstraints(loadInputPreferences().microphoneId),
+      })
+
+      streamRef.current?.getTracks().forEach((track) => track.stop())
+      streamRef.current = stream
+      setInputStream(stream)
+      setAudioOnly(true)
+      setHasPermission(true)
+    } catch (error: any) {
+      console.error("Microphone request failed:", error)
+      setPermissionError(
+        error.name === "NotFoundError"
+          ? "No microphone found. Please connect a microphone (or a headset) and try again."
+          : "Microphone access is required to record. Please allow it in your browser and try again.",
+      )
+    }
+  }
+
+  // Swaps one device without asking for the other again. Recordings are built from the compositor canvas
+  // and the mixer, which both follow the swap, so this works in the middle of a take too.
+  const switchInput = useCallback(async (kind: InputKind, deviceId: string | null, remember: boolean) => {
+    const current = streamRef.current
+    if (!current) return
+
+    const trackKind = kind === "camera" ? "video" : "audio"
+    const previous = current.getTracks().filter((track) => track.kind === trackKind)
+    const constraints = (id: string | null, exact: boolean) =>
+      kind === "camera" ? { video: cameraConstraints(id, exact) } : { audio: microphoneConstraints(id, exact) }
+
+    // Many phones can't open two cameras at once, so the old one has to be let go first
+    if (kind === "camera") previous.forEach((track) => track.stop())
+
+    let replacement: MediaStreamTrack | undefined
+    try {
+      replacement = (await navigator.mediaDevices.getUserMedia(constraints(deviceId, true))).getTracks()[0]
+    } catch (error) {
+      console.error(`Failed to switch ${kind}:`, error)
+      alert(`That ${kind} couldn't be opened. It may be in use by another app.`)
+      if (kind === "camera") {
+        // The old camera was already released, so try to get it back
+        const previousId = previous[0]?.getSettings().deviceId ?? null
+        replacement = await navigator.mediaDevices
+          .getUserMedia(constraints(previousId, false))
+          .then((stream) => stream.getTracks()[0])
+          .catch(() => undefined)
+      }
+      if (!replacement) return
+    }
+
+    if (kind === "microphone") previous.forEach((track) => track.stop())
+
+    const stream = new MediaStream([...current.getTracks().filter((track) => track.kind !== trackKind), replacement])
+    streamRef.current = stream
+    setInputStream(stream)
+    if (kind === "microphone") {
+      mixerRef.current?.setMicrophone(stream)
+    }
+    if (remember) {
+      saveInputPreference(kind, deviceId)
+    }
+  }, [])
+
   const cleanup = () => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach((track) => track.stop())
@@ -145,56 +432,300 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
     if (recordingTimerRef.current) {
       clearInterval(recordingTimerRef.current)
     }
+    if (countdownTimerRef.current) {
+      clearInterval(countdownTimerRef.current)
+    }
+    pitchTrackerRef.current?.stop()
+    mixerRef.current?.close()
+    mixerRef.current = null
   }
 
-  const startRecording = () => {
+  // Created on first use, which must be inside a click so the audio context is allowed to start
+  const getMixer = (): AudioMixer => {
+    if (!mixerRef.current) {
+      const mixer = new AudioMixer()
+      mixer.effects.apply(vocalEffects.settings)
+      mixer.setEffectsBaked(vocalEffects.bake)
+      mixer.setMonitorLevel(monitorLevel ?? 0)
+      mixer.adjustBackingTrack(trackAdjustment)
+      mixerRef.current = mixer
+    }
+    mixerRef.current.resume().catch((error) => console.warn("Failed to resume audio context:", error))
+    return mixerRef.current
+  }
+
+  useEffect(() => {
+    saveVocalEffectPreferences(vocalEffects)
+    mixerRef.current?.effects.apply(vocalEffects.settings)
+    mixerRef.current?.setEffectsBaked(vocalEffects.bake)
+  }, [vocalEffects])
+
+  // Monitoring can be switched on before recording, to try the effects out, so it may need the mixer early
+  const changeMonitorLevel = (level: number | null) => {
+    setMonitorLevel(level)
+    if (level === null) {
+      mixerRef.current?.setMonitorLevel(0)
+      return
+    }
+
+    try {
+      const mixer = getMixer()
+      if (streamRef.current && !mixer.hasMicrophone) {
+        mixer.setMicrophone(streamRef.current)
+      }
+      mixer.setMonitorLevel(level)
+    } catch (error) {
+      console.warn("Web Audio unavailable:", error)
+    }
+  }
+
+  // Key and tempo changes need the track playing through the mixer, so it's set up as soon as one is made
+  const routeBackingTrack = (adjustment: TrackAdjustment) => {
+    try {
+      const mixer = getMixer()
+      if (karaokeVideoRef.current && !videoLoadError) {
+        mixer.connectBackingTrack(karaokeVideoRef.current)
+      }
+      mixer.adjustBackingTrack(adjustment)
+    } catch (error) {
+      console.warn("Web Audio unavailable, playing the track unchanged:", error)
+    }
+  }
+
+  const changeTrackAdjustment = (adjustment: TrackAdjustment) => {
+    setTrackAdjustment(adjustment)
+    saveTrackAdjustment(adjustment)
+    routeBackingTrack(adjustment)
+  }
+
+  // Mixes the backing track into the recording; falls back to the bare camera stream if Web Audio isn't available
+  const createRecordingStream = (cameraStream: MediaStream): MediaStream => {
+    // The composited canvas replaces the raw camera picture when it's available
+    const videoStream = compositorRef.current?.captureStream() ?? cameraStream
+
+    try {
+      const mixer = getMixer()
+      mixer.setMicrophone(cameraStream)
+      if (karaokeVideoRef.current && !videoLoadError) {
+        mixer.connectBackingTrack(karaokeVideoRef.current)
+      }
+      mixer.setGain("backing", mixLevels.backing)
+      mixer.setGain("microphone", mixLevels.microphone)
+      return mixer.createRecordingStream(videoStream)
+    } catch (error) {
+      console.warn("Audio mixing unavailable, recording microphone only:", error)
+      return new MediaStream([...videoStream.getVideoTracks(), ...cameraStream.getAudioTracks()])
+    }
+  }
+
+  // One tap on the voice serves both pitch detection and the audio-only waveform
+  const getMicrophoneAnalyser = (): AnalyserNode | null => {
+    if (!micAnalyserRef.current && mixerRef.current) {
+      micAnalyserRef.current = mixerRef.current.createMicrophoneAnalyser()
+    }
+    return micAnalyserRef.current
+  }
+
+  // Pitch is read from the mixer's microphone input, so it needs Web Audio; without it the take just isn't scored
+  const startPitchTracking = () => {
+    pitchSamplesRef.current = []
+
+    try {
+      const analyser = getMicrophoneAnalyser()
+      if (!analyser) return
+      // The voice reaches the analyser this long after the part of the track the singer was responding to
+      const latency = (syncRef.current?.latencyMs ?? 0) / 1000
+      pitchTrackerRef.current = new PitchTracker(analyser, ({ midi }) => {
+        pitchSamplesRef.current.push({ time: getTrackTime() - latency, midi })
+      })
+      pitchTrackerRef.current.start()
+    } catch (error) {
+      console.warn("Pitch detection unavailable:", error)
+    }
+  }
+
+  const stopPitchTracking = () => {
+    pitchTrackerRef.current?.stop()
+    pitchTrackerRef.current = null
+  }
+
+  const getPitchSamples = useCallback(() => pitchSamplesRef.current, [])
+
+  const changeMixLevel = (source: MixerSource, value: number) => {
+    setMixLevels((levels) => ({ ...levels, [source]: value }))
+    mixerRef.current?.setGain(source, value)
+  }
+
+  // Speaker output latency plus microphone input latency: how far the recorded voice trails the track
+  const measureVoiceLatency = (): number => {
+    const settings = streamRef.current?.getAudioTracks()[0]?.getSettings() as
+      (MediaTrackSettings & { latency?: number }) | undefined
+    return Math.round(((mixerRef.current?.outputLatency ?? 0) + (settings?.latency ?? 0)) * 1000)
+  }
+
+  // Counts the singer in with ticks, then starts recording. The backing track is parked at the start
+  // meanwhile so it's buffered and ready to play the moment the recorder is.
+  const startCountdown = () => {
     if (!streamRef.current || !hasPermission) {
       alert("Camera and microphone permissions are required")
       return
     }
 
-    const tracks = streamRef.current.getTracks()
-    const activeTracks = tracks.filter((track) => track.readyState === "live")
-
+    const activeTracks = streamRef.current.getTracks().filter((track) => track.readyState === "live")
     if (activeTracks.length === 0) {
       alert("Camera and microphone are not active. Please refresh and try again.")
       return
     }
 
+    if (karaokeVideoRef.current && !videoLoadError) {
+      karaokeVideoRef.current.pause()
+      karaokeVideoRef.current.currentTime = 0
+      setKaraokeVideoPlaying(false)
+    }
+
+    let mixer: AudioMixer | null = null
     try {
-      recordedChunksRef.current = []
+      mixer = getMixer()
+    } catch (error) {
+      console.warn("Web Audio unavailable:", error)
+    }
 
-      const stream = streamRef.current
+    if (countdownLength === 0) {
+      startRecording()
+      return
+    }
 
-      let mimeType = ""
-      const supportedTypes = ["video/webm;codecs=vp8,opus", "video/webm;codecs=vp9,opus", "video/webm", "video/mp4"]
+    let remaining = countdownLength
+    setCountdown(remaining)
+    mixer?.playClick()
+    countdownTimerRef.current = setInterval(() => {
+      remaining -= 1
+      if (remaining > 0) {
+        setCountdown(remaining)
+        mixer?.playClick()
+        return
+      }
 
-      for (const type of supportedTypes) {
-        if (MediaRecorder.isTypeSupported(type)) {
-          mimeType = type
-          break
-        }
+      clearInterval(countdownTimerRef.current!)
+      countdownTimerRef.current = null
+      setCountdown(null)
+      mixer?.playClick(true)
+      startRecording()
+    }, 1000)
+  }
+
+  const cancelCountdown = () => {
+    if (countdownTimerRef.current) {
+      clearInterval(countdownTimerRef.current)
+      countdownTimerRef.current = null
+    }
+    setCountdown(null)
+  }
+
+  // The track only starts once the recorder is running, so no take misses its opening. Where it really
+  // started is then read off the video's own clock, which absorbs however long play() took to get going.
+  const startBackingTrack = (recorderStartedAt: number) => {
+    const video = karaokeVideoRef.current
+    const latencyMs = measureVoiceLatency()
+    const recordSync = (sync: RecordingSync) => {
+      syncRef.current = sync
+      if (bufferIdRef.current) {
+        setBufferSync(bufferIdRef.current, sync).catch((error) => console.warn("Failed to buffer sync details:", error))
       }
+    }
+
+    if (!video || videoLoadError) {
+      recordSync({ trackStartMs: 0, latencyMs })
+      return
+    }
+
+    syncRef.current = { trackStartMs: 0, latencyMs }
+    video.addEventListener(
+      "playing",
+      () => {
+        // currentTime runs at the track's tempo, not in real time
+        const trackStartedAt = performance.now() - (video.currentTime * 1000) / video.playbackRate
+        recordSync({ trackStartMs: Math.max(0, Math.round(trackStartedAt - recorderStartedAt)), latencyMs })
+      },
+      { once: true },
+    )
+    video.currentTime = 0
+    video.play().catch((e) => {
+      console.warn("Failed to play karaoke video:", e)
+    })
+    setKaraokeVideoPlaying(true)
+  }
 
+  const startRecording = () => {
+    const cameraStream = streamRef.current
+    if (!cameraStream) return
+
+    try {
+      recordedChunksRef.current = []
+      syncRef.current = null
+      discardTakeRef.current = false
+      let startedAt = performance.now()
+
+      const stream = createRecordingStream(cameraStream)
+      compositorRef.current?.setWaveformSource(getMicrophoneAnalyser())
+
+      const mimeType = pickMimeType(VIDEO_MIME_TYPES)
       const mediaRecorder = mimeType ? new MediaRecorder(stream, { mimeType }) : new MediaRecorder(stream)
 
       console.log(
         "Recording with format:",
         mediaRecorder.mimeType || "browser default",
-        "active tracks:",
-        activeTracks.length,
+        "tracks:",
+        stream.getTracks().length,
       )
 
+      // Each chunk also goes to IndexedDB, so a crash or closed tab doesn't lose the take. If the browser
+      // can't store it, recording carries on in memory only.
+      const bufferId = crypto.randomUUID()
+      let chunkIndex = 0
+      bufferIdRef.current = bufferId
+      const buffering = startBuffer({
+        id: bufferId,
+        songId: song.id,
+        mimeType: mediaRecorder.mimeType || "video/webm",
+        trackAdjustment,
+      })
+        .then(() => true)
+        .catch((error) => {
+          console.warn("Crash-safe buffering unavailable:", error)
+          return false
+        })
+
       mediaRecorder.ondataavailable = (event) => {
         console.log("Data available:", event.data.size)
         if (event.data.size > 0) {
           recordedChunksRef.current.push(event.data)
+          const index = chunkIndex++
+          buffering
+            .then((enabled) => (enabled ? appendChunk(bufferId, index, event.data) : undefined))
+            .catch((error) => console.warn("Failed to buffer recording chunk:", error))
+        }
+      }
+
+      // The voice and backing track are also recorded on their own, so the trim editor can rebalance them
+      let stemRecorder: StemRecorder | null = null
+      if (mixerRef.current) {
+        try {
+          stemRecorder = new StemRecorder(mixerRef.current.createStemStreams())
+        } catch (error) {
+          console.warn("Stem recording unavailable:", error)
         }
       }
 
-      mediaRecorder.onstop = () => {
+      mediaRecorder.onstop = async () => {
+        // Release the canvas capture track; the camera's own tracks stay live for the next take
+        stream.getVideoTracks().forEach((track) => {
+          if (!streamRef.current?.getTracks().includes(track)) track.stop()
+        })
+
         const finalMimeType = mediaRecorder.mimeType || "video/webm"
         const blob = new Blob(recordedChunksRef.current, { type: finalMimeType })
+        const duration = (performance.now() - startedAt) / 1000
 
         console.log("Recording completed:", {
           size: blob.size,
@@ -203,9 +734,39 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
           mimeType: mediaRecorder.mimeType,
         })
 
+        // The buffer has served its purpose once the take is safely saved, or when there's nothing to keep
+        const releaseBuffer = () =>
+          buffering
+            .then((enabled) => (enabled ? discardBuffer(bufferId) : undefined))
+            .catch((error) => console.warn("Failed to clear recording buffer:", error))
+
+        const stems = await stemRecorder?.stop().catch((error) => {
+          console.warn("Failed to save stems:", error)
+          return null
+        })
+
+        if (discardTakeRef.current) {
+          releaseBuffer()
+          return
+        }
+
         if (blob.size > 0) {
-          setRecordedBlob(blob)
+          addTake({
+            id: bufferId,
+            songId: song.id,
+            blob,
+            duration,
+            recordedAt: new Date().toISOString(),
+            score:
+              pitchSamplesRef.current.length > 0 ? scorePerformance(pitchSamplesRef.current, sungMelody) : undefined,
+            sync: syncRef.current ?? undefined,
+            trackAdjustment,
+            stems: stems ?? undefined,
+          }).then((saved) => {
+            if (saved) releaseBuffer()
+          })
         } else {
+          releaseBuffer()
           console.error("Recording failed: empty blob")
           alert(
             "Recording failed - no data captured. Please ensure your camera and microphone are working and try again.",
@@ -219,19 +780,22 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
         setIsRecording(false)
       }
 
+      // MediaRecorder.start() returns before recording has begun; playback waits for the recorder to confirm
+      mediaRecorder.onstart = () => {
+        startedAt = performance.now()
+        recordingStartedAtRef.current = startedAt
+        stemRecorder?.start()
+        startBackingTrack(startedAt)
+        startPitchTracking()
+      }
+
       mediaRecorderRef.current = mediaRecorder
+      compositorRef.current?.playTitleCard()
       mediaRecorder.start(1000) // Request data every 1 second
+      setSelectedTake(null)
       setIsRecording(true)
       setRecordingTime(0)
 
-      if (karaokeVideoRef.current && !videoLoadError) {
-        karaokeVideoRef.current.currentTime = 0
-        karaokeVideoRef.current.play().catch((e) => {
-          console.warn("Failed to play karaoke video:", e)
-        })
-        setKaraokeVideoPlaying(true)
-      }
-
       // Start recording timer
       recordingTimerRef.current = setInterval(() => {
         setRecordingTime((prev) => prev + 1)
@@ -242,15 +806,19 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
     }
   }
 
-  const stopRecording = () => {
+  // A discarded take is thrown away when the recorder stops, so it has no minimum length
+  const stopRecording = ({ discard = false } = {}) => {
     if (mediaRecorderRef.current && isRecording) {
-      if (recordingTime < 1) {
+      if (!discard && recordingTime < 1) {
         alert("Please record for at least 1 second before stopping.")
         return
       }
 
+      discardTakeRef.current = discard
       mediaRecorderRef.current.stop()
+      stopPitchTracking()
       setIsRecording(false)
+      recordingStartedAtRef.current = null
 
       // Stop karaoke video
       if (karaokeVideoRef.current) {
@@ -266,9 +834,61 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
     }
   }
 
+  // Saves the take and selects it. If the browser won't store it, it's still kept for this visit.
+  const addTake = (take: Take): Promise<boolean> => {
+    setTakes((existing) => [...existing.filter((other) => other.id !== take.id), take])
+    setSelectedTake(take)
+    return saveTake(take)
+      .then(() => true)
+      .catch((error) => {
+        console.warn("Failed to save take on this device:", error)
+        return false
+      })
+  }
+
+  const recoverInterruptedTake = async (buffer: RecordingBuffer) => {
+    try {
+      const { blob, duration } = await recoverBuffer(buffer)
+      const saved = await addTake({
+        id: buffer.id,
+        songId: buffer.songId,
+        blob,
+        duration,
+        recordedAt: buffer.startedAt,
+        sync: buffer.sync,
+        trackAdjustment: buffer.trackAdjustment,
+      })
+      if (saved) await discardBuffer(buffer.id)
+      setInterruptedBuffers((buffers) => buffers.filter((other) => other.id !== buffer.id))
+    } catch (error) {
+      console.error("Failed to recover recording:", error)
+      alert("We couldn't recover that recording. You can discard it and record a new take.")
+    }
+  }
+
+  const discardInterruptedTake = (buffer: RecordingBuffer) => {
+    setInterruptedBuffers((buffers) => buffers.filter((other) => other.id !== buffer.id))
+    discardBuffer(buffer.id).catch((error) => console.warn("Failed to discard recording:", error))
+  }
+
+  const removeTake = (take: Take) => {
+    setTakes((existing) => existing.filter((other) => other.id !== take.id))
+    setSelectedTake((selected) => (selected?.id === take.id ? null : selected))
+    deleteTake(take.id).catch((error) => console.warn("Failed to delete take:", error))
+  }
+
+  const chooseTake = (take: Take) => {
+    setSelectedTake(take)
+    setUploadError("")
+    setShowTakes(false)
+  }
+
+  // While recording this abandons the take in progress; afterwards it keeps the finished take in the
+  // takes list and gets ready for another
   const restartRecording = () => {
-    stopRecording()
-    setRecordedBlob(null)
+    stopRecording({ discard: true })
+    setSelectedTake(null)
+    setUploadError("")
     setRecordingTime(0)
 
     // Reset karaoke video
@@ -285,6 +905,7 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
         karaokeVideoRef.current.pause()
         setKaraokeVideoPlaying(false)
       } else {
+        if (isAdjusted(trackAdjustment)) routeBackingTrack(trackAdjustment)
         karaokeVideoRef.current.play().catch((e) => {
           console.warn("Failed to play karaoke video:", e)
         })
@@ -293,11 +914,38 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
     }
   }
 
-  const proceedToDownload = () => {
-    if (recordedBlob) {
-      const videoUrl = URL.createObjectURL(recordedBlob)
-      console.log("Created video URL:", videoUrl, "Blob size:", recordedBlob.size)
-      onNext(videoUrl)
+  const proceedToDownload = async () => {
+    if (!selectedTake) return
+
+    if (apiClient.isOfflineMode()) {
+      const videoUrl = URL.createObjectURL(selectedTake.blob)
+      console.log("Created video URL:", videoUrl, "Blob size:", selectedTake.blob.size)
+      onNext(videoUrl, selectedTake)
+      return
+    }
+
+    setUploadError("")
+    setUploadProgress(0)
+
+    // Retrying with the same blob resumes the interrupted upload instead of starting over
+    const response = await apiClient.uploadRecording(
+      selectedTake.blob,
+      {
+        songId: song.id,
+        songTitle: song.title,
+        category,
+        score: selectedTake.score,
+        sync: selectedTake.sync,
+        trackAdjustment: selectedTake.trackAdjustment,
+      },
+      setUploadProgress,
+    )
+
+    setUploadProgress(null)
+    if (response.success && response.recording) {
+      onNext(response.recording.videoUrl, selectedTake, response.recording.id)
+    } else {
+      setUploadError(response.message)
     }
   }
 
@@ -327,6 +975,10 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
                   Try Basic Settings
                 </Button>
               )}
+              <Button onClick={requestAudioOnly} variant="outline" className="w-full bg-transparent">
+                <Mic className="h-4 w-4 mr-2" />
+                Record Audio Only
+              </Button>
               <Button variant="outline" onClick={onBack} className="w-full bg-transparent">
                 Go Back
               </Button>
@@ -366,6 +1018,29 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
           </div>
         </div>
 
+        {interruptedBuffers.map((buffer) => (
+          <Alert key={buffer.id} className="mb-4 bg-white">
+            <History className="h-4 w-4" />
+            <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <span>
+                A recording from {new Date(buffer.startedAt).toLocaleString()} was interrupted after about{" "}
+                {formatTime(
+                  Math.round((new Date(buffer.updatedAt).getTime() - new Date(buffer.startedAt).getTime()) / 1000),
+                )}
+                . Recover it as a take?
+              </span>
+              <span className="flex gap-2">
+                <Button size="sm" onClick={() => recoverInterruptedTake(buffer)}>
+                  Recover
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => discardInterruptedTake(buffer)}>
+                  Discard
+                </Button>
+              </span>
+            </AlertDescription>
+          </Alert>
+        ))}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Karaoke Video */}
           <Card>
@@ -377,7 +1052,11 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
                     <div className="text-center">
                       <AlertCircle className="h-12 w-12 mx-auto mb-4 text-red-400" />
                       <p className="text-lg font-medium mb-2">Karaoke Video Unavailable</p>
-                      <p className="text-sm text-gray-300">You can still record your performance</p>
+                      <p className="text-sm text-gray-300">
+                        {lyrics.length > 0
+                          ? "You can still record your performance using the lyrics below"
+                          : "You can still record your performance"}
+                      </p>
                     </div>
                   </div>
                 ) : (
@@ -389,7 +1068,7 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
                       onEnded={() => setKaraokeVideoPlaying(false)}
                       preload="metadata"
                     >
-                      <source src={song.videoUrl} type="video/mp4" />
+                      <source src={song.videoUrl} />
                       Your browser does not support the video tag.
                     </video>
                     {videoLoading && (
@@ -414,6 +1093,15 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
                   </>
                 )}
               </div>
+              {!videoLoadError && (
+                <div className="mt-4">
+                  <TrackAdjustmentControls
+                    value={trackAdjustment}
+                    onChange={changeTrackAdjustment}
+                    disabled={isRecording || countdown !== null}
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -429,6 +1117,24 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
                   muted
                   playsInline
                 />
+                {audioOnly && (
+                  <div className="absolute inset-0 flex items-center justify-center text-white">
+                    <div className="text-center">
+                      <Mic className="h-12 w-12 mx-auto mb-4 text-amber-400" />
+                      <p className="text-lg font-medium mb-2">Audio Only</p>
+                      <p className="text-sm text-gray-300">
+                        Your recording shows the song artwork and your waveform instead of a camera
+                      </p>
+                    </div>
+                  </div>
+                )}
+                {countdown !== null && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+                    <span key={countdown} className="text-8xl font-bold text-white animate-pulse">
+                      {countdown}
+                    </span>
+                  </div>
+                )}
                 {isRecording && (
                   <div className="absolute top-4 left-4">
                     <div className="bg-red-600 text-white px-3 py-1 rounded-full text-sm font-medium flex items-center">
@@ -442,20 +1148,121 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
           </Card>
         </div>
 
+        <InputSettings stream={inputStream} onSelect={switchInput} audioOnly={audioOnly} />
+
+        <VocalEffectsPanel
+          preferences={vocalEffects}
+          onChange={setVocalEffects}
+          monitorLevel={monitorLevel}
+          onMonitorLevelChange={changeMonitorLevel}
+          isRecording={isRecording}
+        />
+
+        {lyrics.length > 0 && (
+          <Card className="mt-6">
+            <CardContent className="p-4">
+              <h3 className="text-lg font-semibold mb-2">Lyrics</h3>
+              <LyricsPanel lines={lyrics} getTime={getTrackTime} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Pitch */}
+        <Card className="mt-6">
+          <CardContent className="p-4">
+            <h3 className="text-lg font-semibold mb-2">Your Pitch</h3>
+            <PitchGraph melody={sungMelody} getSamples={getPitchSamples} getTime={getTrackTime} />
+            <p className="text-xs text-gray-500 text-center mt-2">
+              {sungMelody.length > 0
+                ? "Follow the grey bars: your voice shows green when you're on the note"
+                : "Your voice is plotted while you record"}
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Recorded Frame */}
+        <Card className="mt-6">
+          <CardContent className="p-4">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+              <h3 className="text-lg font-semibold">Recording Layout</h3>
+              <div className="flex flex-wrap items-center gap-4">
+                {audioOnly ? (
+                  <p className="text-sm text-gray-600">Audio only: artwork and waveform</p>
+                ) : (
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={layout}
+                    onValueChange={(value) => value && setLayout(value as CompositorLayout)}
+                  >
+                    <ToggleGroupItem value="pip" disabled={videoLoadError}>
+                      Picture-in-picture
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="split" disabled={videoLoadError}>
+                      Split screen
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="camera">Camera only</ToggleGroupItem>
+                  </ToggleGroup>
+                )}
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="title-card"
+                    checked={showTitleCard}
+                    onCheckedChange={setShowTitleCard}
+                    disabled={isRecording}
+                  />
+                  <Label htmlFor="title-card">Title card</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Label>Countdown</Label>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    size="sm"
+                    value={String(countdownLength)}
+                    onValueChange={(value) => value && setCountdownLength(Number(value))}
+                    disabled={isRecording || countdown !== null}
+                  >
+                    <ToggleGroupItem value="0">Off</ToggleGroupItem>
+                    <ToggleGroupItem value="3">3s</ToggleGroupItem>
+                    <ToggleGroupItem value="5">5s</ToggleGroupItem>
+                    <ToggleGroupItem value="10">10s</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+              </div>
+            </div>
+            <div
+              ref={compositorPreviewRef}
+              className="aspect-video max-w-xl mx-auto bg-black rounded-lg overflow-hidden"
+            />
+            <p className="text-xs text-gray-500 text-center mt-2">This is exactly what will be recorded</p>
+          </CardContent>
+        </Card>
+
         {/* Recording Controls */}
         <Card className="mt-6">
           <CardContent className="p-6">
             <div className="flex items-center justify-center space-x-4">
-              {!isRecording && !recordedBlob && (
-                <Button onClick={startRecording} size="lg" className="bg-red-600 hover:bg-red-700 text-white px-8">
+              {!isRecording && !selectedTake && countdown === null && (
+                <Button onClick={startCountdown} size="lg" className="bg-red-600 hover:bg-red-700 text-white px-8">
                   <Video className="h-5 w-5 mr-2" />
                   Start Recording
                 </Button>
               )}
 
+              {countdown !== null && (
+                <Button onClick={cancelCountdown} size="lg" variant="outline" className="px-8 bg-transparent">
+                  Cancel ({countdown})
+                </Button>
+              )}
+
               {isRecording && (
                 <>
-                  <Button onClick={stopRecording} size="lg" className="bg-gray-600 hover:bg-gray-700 text-white px-8">
+                  <Button
+                    onClick={() => stopRecording()}
+                    size="lg"
+                    className="bg-gray-600 hover:bg-gray-700 text-white px-8"
+                  >
                     <Square className="h-5 w-5 mr-2" />
                     Stop Recording
                   </Button>
@@ -466,37 +1273,126 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
                 </>
               )}
 
-              {recordedBlob && !isRecording && (
+              {selectedTake && !isRecording && (
                 <div className="flex items-center space-x-4">
-                  <Button onClick={restartRecording} size="lg" variant="outline" className="px-8 bg-transparent">
+                  <Button
+                    onClick={restartRecording}
+                    size="lg"
+                    variant="outline"
+                    className="px-8 bg-transparent"
+                    disabled={uploadProgress !== null}
+                  >
                     <RotateCcw className="h-5 w-5 mr-2" />
-                    Record Again
+                    Record Another Take
                   </Button>
                   <Button
                     onClick={proceedToDownload}
                     size="lg"
                     className="bg-green-600 hover:bg-green-700 text-white px-8"
+                    disabled={uploadProgress !== null}
                   >
-                    Continue to Download
+                    {uploadProgress !== null ? (
+                      <>
+                        <Upload className="h-5 w-5 mr-2" />
+                        Saving... {Math.round(uploadProgress * 100)}%
+                      </>
+                    ) : uploadError ? (
+                      "Retry Upload"
+                    ) : (
+                      "Continue to Download"
+                    )}
                   </Button>
                 </div>
               )}
             </div>
 
-            {recordedBlob && (
+            <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-6 max-w-xl mx-auto">
+              <div className="space-y-2">
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <Music className="h-4 w-4 mr-2" />
+                  Music volume: {Math.round(mixLevels.backing * 100)}%
+                </label>
+                <Slider
+                  value={[mixLevels.backing * 100]}
+                  max={150}
+                  step={5}
+                  onValueChange={([value]) => changeMixLevel("backing", value / 100)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <Mic className="h-4 w-4 mr-2" />
+                  Voice volume: {Math.round(mixLevels.microphone * 100)}%
+                </label>
+                <Slider
+                  value={[mixLevels.microphone * 100]}
+                  max={150}
+                  step={5}
+                  onValueChange={([value]) => changeMixLevel("microphone", value / 100)}
+                />
+              </div>
+            </div>
+
+            {selectedTake && (
               <div className="mt-4 text-center">
-                <p className="text-green-600 font-medium">Recording completed! Duration: {formatTime(recordingTime)}</p>
+                <p className="text-green-600 font-medium">
+                  Take {takes.findIndex((take) => take.id === selectedTake.id) + 1} selected! Duration:{" "}
+                  {formatTime(Math.round(selectedTake.duration))}
+                </p>
+                {selectedTake.score && (
+                  <p className="flex items-center justify-center text-sm text-gray-700 mt-1">
+                    <Trophy className="h-4 w-4 mr-1 text-amber-500" />
+                    Score {selectedTake.score.overall}/100 · pitch {selectedTake.score.pitch}
+                    {selectedTake.score.timing !== null && ` · timing ${selectedTake.score.timing}`} · stability{" "}
+                    {selectedTake.score.stability}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {!isRecording && countdown === null && takes.length > 0 && (
+              <div className="mt-4 text-center">
+                <Button variant="outline" onClick={() => setShowTakes(true)} disabled={uploadProgress !== null}>
+                  <ListVideo className="h-4 w-4 mr-2" />
+                  Compare Takes ({takes.length})
+                </Button>
+              </div>
+            )}
+
+            {uploadProgress !== null && (
+              <div className="mt-4 max-w-md mx-auto">
+                <Progress value={uploadProgress * 100} />
+                <p className="text-sm text-gray-600 text-center mt-2">Uploading your recording to secure storage...</p>
               </div>
             )}
+
+            {uploadError && (
+              <Alert className="mt-4 border-red-200 bg-red-50">
+                <AlertCircle className="h-4 w-4 text-red-600" />
+                <AlertDescription className="text-red-800">{uploadError}</AlertDescription>
+              </Alert>
+            )}
           </CardContent>
         </Card>
 
+        <TakesDrawer
+          open={showTakes}
+          onOpenChange={setShowTakes}
+          takes={takes}
+          selectedTakeId={selectedTake?.id ?? null}
+          onUse={chooseTake}
+          onDelete={removeTake}
+        />
+
         {/* Instructions */}
         <Card className="mt-4">
           <CardContent className="p-4">
             <h4 className="font-semibold mb-2">Recording Instructions:</h4>
             <ul className="text-sm text-gray-600 space-y-1">
-              <li>• Click "Start Recording" to begin your performance</li>
+              <li>
+                • Click "Start Recording" to begin your performance
+                {countdownLength > 0 && ` after a ${countdownLength}-second countdown`}
+              </li>
               <li>
                 •{" "}
                 {videoLoadError
@@ -505,7 +1401,16 @@ export default function KaraokeRecording({ song, onNext, onBack }: KaraokeRecord
               </li>
               <li>• Sing along while looking at the camera</li>
               <li>• Click "Stop Recording" when finished, or "Restart" to try again</li>
-              <li>• Your recording includes both video and audio</li>
+              <li>• Every take is kept on this device: use "Compare Takes" to play them back and pick your best</li>
+              <li>
+                •{" "}
+                {audioOnly
+                  ? "Your recording includes your voice and the karaoke music, with the song artwork as its picture"
+                  : "Your recording includes your video, your voice and the karaoke music"}
+              </li>
+              <li>• Use the volume sliders to balance the music against your voice, even while recording</li>
+              <li>• Song too high or too low? Change its key and tempo under the karaoke video before you start</li>
+              <li>• Try the voice effects with headphones on and "Hear yourself with effects" switched on</li>
             </ul>
           </CardContent>
         </Card>
@@ -0,0 +1,39 @@
+"use client"
+
+import * as React from "react"
+import type { PerformanceScore, RecordingSync, TrackAdjustment } from "@/lib/api"
+
+export interface RecordingSession {
+  videoUrl: string
+  recordingId?: string // set when the take was uploaded; the download page can reload it by this id
+  songId: string
+  songTitle: string
+  category: string
+  score?: PerformanceScore
+  takeId?: string // the take in this browser's takes store, if the video came from one
+  sync?: RecordingSync
+  trackAdjustment?: TrackAdjustment
+}
+
+interface KaraokeSessionContextValue {
+  recording: RecordingSession | null
+  setRecording: (recording: RecordingSession | null) => void
+}
+
+const KaraokeSessionContext = React.createContext<KaraokeSessionContextValue | null>(null)
+
+// Holds state that has to survive client-side navigation between routes but can't live in the URL,
+// such as the take that was just recorded.
+export function KaraokeSessionProvider({ children }: { children: React.ReactNode }) {
+  const [recording, setRecording] = React.useState<RecordingSession | null>(null)
+
+  return <KaraokeSessionContext.Provider value={{ recording, setRecording }}>{children}</KaraokeSessionContext.Provider>
+}
+
+export function useKaraokeSession() {
+  const context = React.useContext(KaraokeSessionContext)
+  if (!context) {
+    throw new Error("useKaraokeSession must be used within a KaraokeSessionProvider")
+  }
+  return context
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { cn } from "@/lib/utils"
+import { findActiveLine, type LyricLine } from "@/lib/lyrics"
+
+interface LyricsPanelProps {
+  lines: LyricLine[]
+  // Current position in the backing track, in seconds
+  getTime: () => number
+  // Seconds of countdown shown before the first line
+  countdownSeconds?: number
+}
+
+export default function LyricsPanel({ lines, getTime, countdownSeconds = 3 }: LyricsPanelProps) {
+  const [time, setTime] = useState(0)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const lineRefs = useRef<(HTMLParagraphElement | null)[]>([])
+
+  // Polling is simpler than wiring timeupdate events, which only fire about four times a second
+  useEffect(() => {
+    const timer = setInterval(() => setTime(getTime()), 100)
+    return () => clearInterval(timer)
+  }, [getTime])
+
+  const activeIndex = findActiveLine(lines, time)
+  // Between lines, keep the next one centred so the singer can read ahead
+  const focusIndex = activeIndex !== -1 ? activeIndex : lines.findIndex((line) => line.time > time)
+
+  useEffect(() => {
+    const container = containerRef.current
+    const line = lineRefs.current[focusIndex]
+    if (!container || !line) return
+
+    container.scrollTo({
+      top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2,
+      behavior: "smooth",
+    })
+  }, [focusIndex])
+
+  const untilFirstLine = lines.length > 0 ? lines[0].time - time : 0
+  const countdown = untilFirstLine > 0 && untilFirstLine <= countdownSeconds ? Math.ceil(untilFirstLine) : null
+
+  return (
+    <div className="relative">
+      <div ref={containerRef} className="h-56 overflow-hidden py-24 text-center">
+        {lines.map((line, index) => (
+          <p
+            key={`${line.time}-${index}`}
+            ref={(element) => {
+              lineRefs.current[index] = element
+            }}
+            className={cn(
+              "px-4 py-1 transition-all duration-300",
+              index === activeIndex ? "text-2xl font-bold" : "text-lg text-gray-400",
+            )}
+          >
+            {index === activeIndex
+              ? line.words.map((word, wordIndex) => (
+                  <span
+                    key={wordIndex}
+                    className={cn("transition-colors", word.time <= time ? "text-amber-500" : "text-gray-800")}
+                  >
+                    {word.text}{" "}
+                  </span>
+                ))
+              : line.text}
+          </p>
+        ))}
+      </div>
+
+      {countdown !== null && (
+        <div className="absolute inset-x-0 top-2 flex justify-center gap-2" aria-live="polite">
+          {Array.from({ length: countdownSeconds }, (_, dot) => (
+            <span key={dot} className={cn("h-3 w-3 rounded-full", dot < countdown ? "bg-amber-500" : "bg-gray-200")} />
+          ))}
+          <span className="sr-only">{countdown}</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CheckCircle, XCircle } from "lucide-react"
+
+interface PaymentReturnProps {
+  status: string
+  onDone: () => void
+}
+
+// Yoco sends the checkout popup here when it finishes. The query string is only a hint for the message;
+// the download screen waits for the server to confirm the payment before unlocking anything.
+export default function PaymentReturn({ status, onDone }: PaymentReturnProps) {
+  const succeeded = status === "success"
+  const [isPopup, setIsPopup] = useState(false)
+
+  useEffect(() => {
+    if (!window.opener) return
+    setIsPopup(true)
+    const timer = setTimeout(() => window.close(), 2000)
+    return () => clearTimeout(timer)
+  }, [])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-yellow-400 via-yellow-500 to-amber-600 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          {succeeded ? (
+            <CheckCircle className="h-12 w-12 mx-auto text-green-600 mb-2" />
+          ) : (
+            <XCircle className="h-12 w-12 mx-auto text-red-500 mb-2" />
+          )}
+          <CardTitle className="text-2xl font-bold text-gray-800">
+            {succeeded ? "Payment submitted" : status === "cancelled" ? "Payment cancelled" : "Payment failed"}
+          </CardTitle>
+          <CardDescription>
+            {succeeded
+              ? "We're confirming your payment. Your download unlocks as soon as it's confirmed."
+              : "No money was taken. You can try again from the download screen."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isPopup ? (
+            <p className="text-sm text-center text-gray-600">This window will close automatically.</p>
+          ) : (
+            <Button className="w-full bg-amber-600 hover:bg-amber-700" onClick={onDone}>
+              Back to my performance
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { findMelodyNote, type MelodyNote } from "@/lib/melody"
+import { midiToNoteName } from "@/lib/recording/pitch"
+import type { PitchSample } from "@/lib/recording/scoring"
+
+interface PitchGraphProps {
+  melody: MelodyNote[]
+  // Readings taken so far this take; read on every frame, so it can be a mutable ref's array
+  getSamples: () => PitchSample[]
+  // Current position in the backing track, in seconds
+  getTime: () => number
+  windowSeconds?: number
+}
+
+const WIDTH = 800
+const HEIGHT = 200
+// The playhead sits a third of the way in: what was just sung on the left, upcoming notes on the right
+const PLAYHEAD = 1 / 3
+// Without a melody to frame it, show roughly the range of most voices (C3 to C5)
+const DEFAULT_RANGE: [number, number] = [48, 72]
+
+export default function PitchGraph({ melody, getSamples, getTime, windowSeconds = 8 }: PitchGraphProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d")
+    if (!context) return
+
+    const midis = melody.map((note) => note.midi)
+    const [low, high] = midis.length > 0 ? [Math.min(...midis) - 3, Math.max(...midis) + 3] : DEFAULT_RANGE
+    const center = (low + high) / 2
+    const rowHeight = HEIGHT / (high - low)
+
+    const x = (time: number, now: number) => WIDTH * PLAYHEAD + ((time - now) / windowSeconds) * WIDTH
+    const y = (midi: number) => HEIGHT - (midi - low) * rowHeight
+
+    let frame = requestAnimationFrame(function draw() {
+      const now = getTime()
+      const from = now - windowSeconds * PLAYHEAD
+      const to = now + windowSeconds * (1 - PLAYHEAD)
+
+      context.fillStyle = "#111827"
+      context.fillRect(0, 0, WIDTH, HEIGHT)
+
+      // A faint line on every C, so the singer can tell high from low
+      context.fillStyle = "#374151"
+      for (let midi = Math.ceil(low); midi <= high; midi++) {
+        if (midi % 12 === 0) context.fillRect(0, y(midi), WIDTH, 1)
+      }
+
+      context.fillStyle = "#6b7280"
+      for (const note of melody) {
+        if (note.time + note.duration < from || note.time > to) continue
+        context.fillRect(
+          x(note.time, now),
+          y(note.midi) - rowHeight / 2,
+          (note.duration / windowSeconds) * WIDTH,
+          rowHeight,
+        )
+      }
+
+      // Sung pitches are drawn in the octave nearest the melody, since singing an octave off is fine
+      let latest: { time: number; midi: number } | null = null
+      for (const sample of getSamples()) {
+        if (sample.midi === null || sample.time < from || sample.time > now) continue
+
+        const target = findMelodyNote(melody, sample.time)?.midi ?? center
+        const shown = sample.midi - 12 * Math.round((sample.midi - target) / 12)
+        const onPitch = melody.length > 0 && Math.abs(shown - target) <= 0.5
+
+        context.fillStyle = onPitch ? "#22c55e" : "#f59e0b"
+        context.beginPath()
+        context.arc(x(sample.time, now), y(shown), 3, 0, 2 * Math.PI)
+        context.fill()
+        latest = { time: sample.time, midi: sample.midi }
+      }
+
+      context.fillStyle = "#ffffff"
+      context.fillRect(WIDTH * PLAYHEAD, 0, 2, HEIGHT)
+
+      if (latest && now - latest.time < 0.3) {
+        context.font = "bold 20px sans-serif"
+        context.fillText(midiToNoteName(latest.midi), 12, 28)
+      }
+
+      frame = requestAnimationFrame(draw)
+    })
+
+    return () => cancelAnimationFrame(frame)
+  }, [melody, getSamples, getTime, windowSeconds])
+
+  return <canvas ref={canvasRef} width={WIDTH} height={HEIGHT} className="w-full h-auto rounded-lg" />
+}
@@ -1,22 +1,45 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { ArrowLeft, Download, Trash2, User, LogOut, Bell, Activity } from "lucide-react"
-import { apiClient } from "@/lib/api"
+import { ArrowLeft, Download, Trash2, User, LogOut, Bell, Activity, Loader2, Trophy } from "lucide-react"
+import { apiClient, type EntryInfo, type Purchase, type TranscodeStatus } from "@/lib/api"
+import { getCategory } from "@/lib/categories"
+import { ENTRY_STATUSES } from "@/lib/entries"
+
+// How often the list is refreshed while a video is still being converted to MP4
+const TRANSCODE_POLL_MS = 10 * 1000
 
 // Removed import and defined interface locally
 interface PurchasedVideo {
   id: string
+  recordingId?: string // set for videos stored on the server
   songTitle: string
   category: string
   videoUrl: string
   purchaseDate: Date
   expiryDate: Date
+  transcodeStatus?: TranscodeStatus
+  posterUrl?: string
 }
 
+const isTranscoding = (video: PurchasedVideo) =>
+  video.transcodeStatus === "queued" || video.transcodeStatus === "processing"
+
+const toPurchasedVideo = (purchase: Purchase): PurchasedVideo => ({
+  id: purchase.id,
+  recordingId: purchase.recordingId,
+  songTitle: purchase.songTitle,
+  category: purchase.category,
+  videoUrl: purchase.recordingId ? apiClient.getRecordingPreviewUrl(purchase.recordingId) : "",
+  purchaseDate: new Date(purchase.purchasedAt),
+  expiryDate: new Date(purchase.expiresAt),
+  transcodeStatus: purchase.transcodeStatus,
+  posterUrl: purchase.posterUrl,
+})
+
 interface ProfilePageProps {
   onBack: () => void
   onLogout: () => void
@@ -25,14 +48,38 @@ interface ProfilePageProps {
 
 export default function ProfilePage({ onBack, onLogout, onNotifications }: ProfilePageProps) {
   const [purchasedVideos, setPurchasedVideos] = useState<PurchasedVideo[]>([])
+  const [entries, setEntries] = useState<EntryInfo[]>([])
   const [loading, setLoading] = useState(true)
   const [unreadNotifications, setUnreadNotifications] = useState(0)
   const [user, setUser] = useState(apiClient.getCurrentUser())
   // Added userReport state for activity tracking
   const [userReport, setUserReport] = useState<any>(null)
 
+  // Online, purchases and their expiry come from the server, so clearing the browser doesn't lose them
+  const loadServerPurchases = useCallback(async () => {
+    try {
+      const purchases = await apiClient.getPurchases()
+      setPurchasedVideos(purchases.filter((purchase) => purchase.status === "active").map(toPurchasedVideo))
+    } catch (error) {
+      console.error("Error loading purchased videos:", error)
+    }
+  }, [])
+
+  const transcoding = purchasedVideos.some(isTranscoding)
   useEffect(() => {
-    const loadPurchasedVideos = () => {
+    if (!transcoding) return
+    const timer = setInterval(loadServerPurchases, TRANSCODE_POLL_MS)
+    return () => clearInterval(timer)
+  }, [transcoding, loadServerPurchases])
+
+  useEffect(() => {
+    const loadPurchasedVideos = async () => {
+      if (!apiClient.isOfflineMode()) {
+        await loadServerPurchases()
+        setLoading(false)
+        return
+      }
+
       try {
         const stored = localStorage.getItem("purchasedVideos")
         if (stored) {
@@ -69,21 +116,48 @@ export default function ProfilePage({ onBack, onLogout, onNotifications }: Profi
       }
     }
 
+    const loadEntries = () => {
+      apiClient
+        .getEntries()
+        .then(setEntries)
+        .catch((error) => console.error("Error loading competition entries:", error))
+    }
+
     const loadUserReport = () => {
       const report = apiClient.getUserReport()
       setUserReport(report)
     }
 
     loadPurchasedVideos()
+    loadEntries()
     loadNotificationCount()
     loadUserReport()
-  }, [])
+  }, [loadServerPurchases])
 
-  const handleDownload = (video: PurchasedVideo) => {
+  const handleDownload = async (video: PurchasedVideo) => {
     try {
+      let href = video.videoUrl
+      let filename = ""
+      if (video.recordingId) {
+        const response = await apiClient.getDownloadUrl(video.recordingId)
+        if (!response.success || !response.url) {
+          alert(response.message)
+          return
+        }
+        href = response.url
+        filename = response.filename ?? ""
+      }
+      if (!filename) {
+        // Videos kept in this browser are whatever it recorded: WebM, or MP4 on Safari
+        const blob = await fetch(href)
+          .then((response) => response.blob())
+          .catch(() => null)
+        filename = `karaoke-${video.songTitle.replace(/[^\w-]+/g, "-").toLowerCase()}.${blob?.type.includes("mp4") ? "mp4" : "webm"}`
+      }
+
       const link = document.createElement("a")
-      link.href = video.videoUrl
-      link.download = `${video.songTitle}_karaoke_${video.category}.mp4`
+      link.href = href
+      link.download = filename
       document.body.appendChild(link)
       link.click()
       document.body.removeChild(link)
@@ -93,11 +167,22 @@ export default function ProfilePage({ onBack, onLogout, onNotifications }: Profi
     }
   }
 
-  const handleDelete = (videoId: string) => {
+  const handleDelete = async (videoId: string) => {
     if (confirm("Are you sure you want to delete this video? This action cannot be undone.")) {
+      const video = purchasedVideos.find((candidate) => candidate.id === videoId)
+      if (video?.recordingId) {
+        const response = await apiClient.deleteRecording(video.recordingId)
+        if (!response.success) {
+          alert(response.message)
+          return
+        }
+      }
+
       const updatedVideos = purchasedVideos.filter((video) => video.id !== videoId)
       setPurchasedVideos(updatedVideos)
-      localStorage.setItem("purchasedVideos", JSON.stringify(updatedVideos))
+      if (apiClient.isOfflineMode()) {
+        localStorage.setItem("purchasedVideos", JSON.stringify(updatedVideos))
+      }
     }
   }
 
@@ -228,6 +313,42 @@ export default function ProfilePage({ onBack, onLogout, onNotifications }: Profi
           </CardContent>
         </Card>
 
+        {entries.length > 0 && (
+          <Card className="mb-6 border-amber-200">
+            <CardHeader className="bg-gradient-to-r from-amber-400 to-yellow-500 text-white">
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="w-5 h-5" />
+                My Competition Entries
+              </CardTitle>
+              <p className="text-amber-100 text-sm">Online Auditions → Public Voting → Live Sing-Offs → Finals</p>
+            </CardHeader>
+            <CardContent className="p-6 space-y-4">
+              {entries.map((entry) => (
+                <div key={entry.id} className="p-4 bg-white rounded-lg border">
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <div>
+                      <h3 className="font-semibold text-gray-800">{entry.songTitle}</h3>
+                      <p className="text-sm text-gray-600">
+                        {getCategory(entry.category)?.title ?? entry.category} · {entry.artistName}
+                      </p>
+                    </div>
+                    <Badge variant="outline" className={`shrink-0 ${ENTRY_STATUSES[entry.status].className}`}>
+                      {ENTRY_STATUSES[entry.status].label}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-700 mb-2">{ENTRY_STATUSES[entry.status].description}</p>
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span>
+                      Tracking code: <span className="font-mono font-semibold text-gray-700">{entry.trackingCode}</span>
+                    </span>
+                    <span>Submitted: {new Date(entry.submittedAt).toLocaleDateString()}</span>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Purchased Videos */}
         <Card className="border-amber-200">
           <CardHeader className="bg-gradient-to-r from-amber-400 to-yellow-500 text-white">
@@ -256,14 +377,33 @@ export default function ProfilePage({ onBack, onLogout, onNotifications }: Profi
                       <CardContent className="p-4">
                         <div className="aspect-video bg-gray-100 rounded-lg mb-3 flex items-center justify-center">
                           <video
+                            // Remount once the MP4 replaces the original, so the stale file isn't kept
+                            key={video.transcodeStatus}
                             src={video.videoUrl}
                             className="w-full h-full object-cover rounded-lg"
                             controls={false}
-                            poster="/placeholder.svg?height=120&width=200"
+                            preload={video.posterUrl ? "none" : "metadata"}
+                            poster={video.posterUrl ?? "/placeholder.svg?height=120&width=200"}
                           />
                         </div>
 
-                        <h3 className="font-semibold text-gray-800 mb-1">{video.songTitle}</h3>
+                        <div className="flex items-start justify-between gap-2 mb-1">
+                          <h3 className="font-semibold text-gray-800">{video.songTitle}</h3>
+                          {isTranscoding(video) ? (
+                            <Badge variant="secondary" className="shrink-0 gap-1">
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                              Preparing MP4
+                            </Badge>
+                          ) : video.transcodeStatus === "completed" ? (
+                            <Badge variant="outline" className="shrink-0 border-green-300 text-green-700">
+                              MP4
+                            </Badge>
+                          ) : video.transcodeStatus === "failed" ? (
+                            <Badge variant="outline" className="shrink-0 border-gray-300 text-gray-600">
+                              Original format
+                            </Badge>
+                          ) : null}
+                        </div>
                         <p className="text-sm text-gray-600 mb-2 capitalize">{video.category} Category</p>
 
                         <div className="flex items-center justify-between text-xs text-gray-500 mb-3">
@@ -273,6 +413,17 @@ export default function ProfilePage({ onBack, onLogout, onNotifications }: Profi
                           </span>
                         </div>
 
+                        {isTranscoding(video) && (
+                          <p className="text-xs text-gray-500 mb-3">
+                            Converting to MP4 so it plays on any phone. You can download the original recording now.
+                          </p>
+                        )}
+                        {video.transcodeStatus === "failed" && (
+                          <p className="text-xs text-gray-500 mb-3">
+                            We couldn&apos;t convert this video to MP4. The original recording is still available.
+                          </p>
+                        )}
+
                         <div className="flex gap-2">
                           <Button
                             size="sm"
@@ -0,0 +1,110 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { apiClient } from "@/lib/api"
+
+interface ResetPasswordProps {
+  token: string
+  onDone: () => void
+}
+
+export default function ResetPassword({ token, onDone }: ResetPasswordProps) {
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [completed, setCompleted] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match")
+      return
+    }
+
+    setLoading(true)
+    const response = await apiClient.resetPassword(token, password)
+    if (response.success) {
+      setCompleted(true)
+    } else {
+      setError(response.message)
+    }
+    setLoading(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-yellow-400 via-yellow-500 to-amber-600 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-gray-800">Choose a new password</CardTitle>
+          <CardDescription>
+            {completed ? "Your password has been changed" : "Enter a new password for your Sing Sation account"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm">{error}</div>
+          )}
+
+          {!token ? (
+            <p className="text-sm text-gray-600 text-center">
+              This reset link is incomplete. Please request a new one.
+            </p>
+          ) : completed ? (
+            <div className="space-y-4">
+              <div className="p-3 bg-green-100 border border-green-300 text-green-700 rounded-md text-sm">
+                Your password has been reset. You've been signed out on all devices, so please sign in again.
+              </div>
+              <Button className="w-full bg-amber-600 hover:bg-amber-700" onClick={onDone}>
+                Go to Sign In
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New Password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  placeholder="At least 8 characters"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={8}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-new-password">Confirm Password</Label>
+                <Input
+                  id="confirm-new-password"
+                  type="password"
+                  placeholder="Confirm your new password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full bg-amber-600 hover:bg-amber-700" disabled={loading}>
+                {loading ? "Saving..." : "Reset Password"}
+              </Button>
+            </form>
+          )}
+
+          {!completed && (
+            <Button variant="ghost" className="w-full mt-2" onClick={onDone}>
+              Back to Sign In
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
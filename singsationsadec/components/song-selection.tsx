@@ -1,141 +1,134 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import type React from "react"
+
+import { useState, useRef, useEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { ArrowLeft, Play, Pause, Square, Check, AlertCircle, User } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import { ArrowLeft, Play, Pause, Square, Check, AlertCircle, User, RefreshCw, Search } from "lucide-react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import TrackAdjustmentControls from "@/components/track-adjustment-controls"
+import { apiClient, type Song, type TrackAdjustment } from "@/lib/api"
+import { getCategory } from "@/lib/categories"
+import {
+  BackingTrackShifter,
+  isAdjusted,
+  loadTrackAdjustment,
+  saveTrackAdjustment,
+} from "@/lib/recording/track-adjustment"
 
 interface SongSelectionProps {
-  onNext: (song: any) => void
+  category: string
+  onNext: (song: Song) => void
   onBack: () => void
   onProfile?: () => void // Added profile navigation prop
 }
 
-interface Song {
-  id: string
-  title: string
-  artist: string
-  audioUrl: string
-  videoUrl: string
+type SortOption = "popularity" | "title" | "artist"
+
+const sortSongs = (songs: Song[], sortBy: SortOption) => {
+  switch (sortBy) {
+    case "title":
+      return songs.sort((a, b) => a.title.localeCompare(b.title))
+    case "artist":
+      return songs.sort((a, b) => a.artist.localeCompare(b.artist) || a.title.localeCompare(b.title))
+    default:
+      return songs.sort((a, b) => b.popularity - a.popularity)
+  }
+}
+
+// Previews only go through Web Audio once the key or tempo has been changed: an element attached to an
+// AudioContext can't be detached again, and only plays through it from then on
+interface PreviewAudioGraph {
+  context: AudioContext
+  shifter: BackingTrackShifter
+  routed: Set<string> // song ids
 }
 
-export default function SongSelection({ onNext, onBack, onProfile }: SongSelectionProps) {
+const uniqueValues = (values: string[]) => Array.from(new Set(values)).sort((a, b) => a.localeCompare(b))
+
+export default function SongSelection({ category, onNext, onBack, onProfile }: SongSelectionProps) {
+  const [songs, setSongs] = useState<Song[]>([])
+  const [songsLoading, setSongsLoading] = useState(true)
+  const [songsError, setSongsError] = useState("")
   const [currentlyPlaying, setCurrentlyPlaying] = useState<string | null>(null)
   const [selectedSong, setSelectedSong] = useState<Song | null>(null)
   const [audioLoadErrors, setAudioLoadErrors] = useState<Set<string>>(new Set())
   const [audioLoading, setAudioLoading] = useState<Set<string>>(new Set())
+  const [searchQuery, setSearchQuery] = useState("")
+  const [genreFilter, setGenreFilter] = useState("all")
+  const [languageFilter, setLanguageFilter] = useState("all")
+  const [sortBy, setSortBy] = useState<SortOption>("popularity")
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [focusedIndex, setFocusedIndex] = useState(0)
+  const [trackAdjustment, setTrackAdjustment] = useState(loadTrackAdjustment)
   const audioRefs = useRef<{ [key: string]: HTMLAudioElement }>({})
+  const cardRefs = useRef<{ [key: string]: HTMLDivElement | null }>({})
+  const previewGraphRef = useRef<PreviewAudioGraph | null>(null)
+  const categoryInfo = getCategory(category)
+
+  const loadSongs = async () => {
+    setSongsLoading(true)
+    setSongsError("")
+
+    try {
+      setSongs(await apiClient.getSongs(category))
+    } catch (error) {
+      console.error("Failed to load songs:", error)
+      setSongsError("We couldn't load the song list. Please check your connection and try again.")
+    } finally {
+      setSongsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSongs()
+  }, [category])
+
+  const genres = useMemo(() => uniqueValues(songs.map((song) => song.genre)), [songs])
+  const languages = useMemo(() => uniqueValues(songs.map((song) => song.language)), [songs])
+
+  const visibleSongs = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase()
+    const matches = songs.filter(
+      (song) =>
+        (!query || song.title.toLowerCase().includes(query) || song.artist.toLowerCase().includes(query)) &&
+        (genreFilter === "all" || song.genre === genreFilter) &&
+        (languageFilter === "all" || song.language === languageFilter),
+    )
+    return sortSongs(matches, sortBy)
+  }, [songs, searchQuery, genreFilter, languageFilter, sortBy])
+
+  useEffect(() => {
+    setFocusedIndex(0)
+  }, [searchQuery, genreFilter, languageFilter, sortBy])
+
+  // Ctrl/Cmd+K opens the quick-jump palette, "/" jumps to the search box
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault()
+        setPaletteOpen((open) => !open)
+      } else if (e.key === "/" && !(e.target instanceof HTMLInputElement)) {
+        e.preventDefault()
+        document.getElementById("song-search")?.focus()
+      }
+    }
 
-  const songs: Song[] = [
-    {
-      id: "adele-one-and-only",
-      title: "One and Only",
-      artist: "Adele",
-      audioUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-songs/o/songsAdele%20-%20One%20and%20Only.mp3",
-      videoUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-videos/o/videosAdele%20-%20One%20and%20Only.mp4",
-    },
-    {
-      id: "bryan-adams-summer-69",
-      title: "Summer Of 69",
-      artist: "Bryan Adams",
-      audioUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-songs/o/songsBryan%20Adams%20-Summer%20Of%2069.mp3",
-      videoUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-videos/o/videosBryan%20Adams%20-Summer%20Of%2069.mp4",
-    },
-    {
-      id: "ccr-have-you-ever-seen-rain",
-      title: "Have You Ever Seen The Rain",
-      artist: "Creedence Clearwater Revival",
-      audioUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-songs/o/songsCreedence%20Clearwater%20Revival%20-%20Have%20You%20Ever%20Seen%20The%20Rain.mp3",
-      videoUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-videos/o/videosCreedence%20Clearwater%20Revival%20-%20Have%20You%20Ever%20Seen%20The%20Rain.mp4",
-    },
-    {
-      id: "dr-victor-wie-se-kind",
-      title: "Wie Se Kind Is Jy",
-      artist: "Dr Victor & Theuns Jordaan",
-      audioUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-songs/o/songsDr%20Victor%20%26%20Theuns%20Jordaan%20-%20Wie%20Se%20Kind%20Is%20Jy.mp3",
-      videoUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-videos/o/videosDr%20Victor%20%26%20Theuns%20Jordaan%20-%20Wie%20Se%20Kind%20Is%20Jy.mp4",
-    },
-    {
-      id: "lacy-j-dalton-black-coffee",
-      title: "Black Coffee",
-      artist: "Lacy J Dalton",
-      audioUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-songs/o/songsLacy%20J%20Dalton%20-%20Black%20Coffee.mp3",
-      videoUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-videos/o/videosLacy%20J%20Dalton%20-%20Black%20Coffee.mp4",
-    },
-    {
-      id: "lynyrd-skynyrd-simple-man",
-      title: "Simple Man",
-      artist: "Lynyrd Skynyrd",
-      audioUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-songs/o/songsLynyrd%20Skynyrd%20-%20Simple%20Man.mp3",
-      videoUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-videos/o/videosLynyrd%20Skynyrd%20-%20Simple%20Man.mp4",
-    },
-    {
-      id: "meredith-brooks-bitch",
-      title: "Bitch",
-      artist: "Meredith Brooks",
-      audioUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-songs/o/songsMeredith%20Brooks%20-%20Bitch.mp3",
-      videoUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-videos/o/videosMeredith%20Brooks%20-%20Bitch.mp4",
-    },
-    {
-      id: "neil-diamond-sweet-caroline",
-      title: "Sweet Caroline",
-      artist: "Neil Diamond",
-      audioUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-songs/o/songsNeil%20Diamond%20-%20Sweet%20Caroline.mp3",
-      videoUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-videos/o/videosNeil%20Diamond%20-%20Sweet%20Caroline.mp4",
-    },
-    {
-      id: "taylor-swift-shake-it-off",
-      title: "Shake It Off",
-      artist: "Taylor Swift",
-      audioUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-songs/o/songsTaylor%20Swift%20-%20Shake%20It%20Off.mp3",
-      videoUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-videos/o/videosTaylor%20Swift%20-%20Shake%20It%20Off.mp4",
-    },
-    {
-      id: "teddy-swims-lose-control",
-      title: "Lose Control",
-      artist: "Teddy Swims",
-      audioUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-songs/o/songsTeddy%20Swims%20-%20Lose%20Control.mp3",
-      videoUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-videos/o/videosTeddy%20Swims%20-%20Lose%20Control.mp4",
-    },
-    {
-      id: "the-animals-house-of-rising-sun",
-      title: "House Of The Rising Sun",
-      artist: "The Animals",
-      audioUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-songs/o/songsThe%20Animals%20-%20House%20Of%20The%20Rising%20Sun.mp3",
-      videoUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-videos/o/videosThe%20Animals%20-%20House%20Of%20The%20Rising%20Sun.mp4",
-    },
-    {
-      id: "red-clay-strays-wondering-why",
-      title: "Wondering Why",
-      artist: "The Red Clay Strays",
-      audioUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-songs/o/songsThe%20Red%20Clay%20Strays%20-%20Wondering%20Why.mp3",
-      videoUrl:
-        "https://axgzyeonrt7v.objectstorage.af-johannesburg-1.oci.customer-oci.com/n/axgzyeonrt7v/b/karaoke-videos/o/videosThe%20Red%20Clay%20Strays%20-%20Wondering%20Why.mp4",
-    },
-  ]
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
 
   useEffect(() => {
     songs.forEach((song) => {
@@ -187,8 +180,46 @@ export default function SongSelection({ onNext, onBack, onProfile }: SongSelecti
         audio.currentTime = 0
       })
     }
+  }, [songs])
+
+  useEffect(() => {
+    return () => {
+      previewGraphRef.current?.context.close()
+    }
   }, [])
 
+  const routePreview = (songId: string, adjustment: TrackAdjustment) => {
+    const audio = audioRefs.current[songId]
+    if (!audio) return
+
+    try {
+      if (!previewGraphRef.current) {
+        const context = new AudioContext()
+        const shifter = new BackingTrackShifter(context)
+        shifter.output.connect(context.destination)
+        previewGraphRef.current = { context, shifter, routed: new Set() }
+      }
+
+      const graph = previewGraphRef.current
+      graph.context.resume().catch((error) => console.warn("Failed to resume audio context:", error))
+      if (!graph.routed.has(songId)) {
+        graph.context.createMediaElementSource(audio).connect(graph.shifter.input)
+        graph.routed.add(songId)
+      }
+      graph.shifter.apply(audio, adjustment)
+    } catch (error) {
+      console.warn("Web Audio unavailable, previewing the track unchanged:", error)
+    }
+  }
+
+  const changeTrackAdjustment = (adjustment: TrackAdjustment) => {
+    setTrackAdjustment(adjustment)
+    saveTrackAdjustment(adjustment)
+    if (currentlyPlaying) {
+      routePreview(currentlyPlaying, adjustment)
+    }
+  }
+
   const handlePlay = async (songId: string) => {
     // Stop any currently playing audio
     if (currentlyPlaying && currentlyPlaying !== songId) {
@@ -198,6 +229,9 @@ export default function SongSelection({ onNext, onBack, onProfile }: SongSelecti
 
     const audio = audioRefs.current[songId]
     if (audio && !audioLoadErrors.has(songId)) {
+      if (isAdjusted(trackAdjustment) || previewGraphRef.current?.routed.has(songId)) {
+        routePreview(songId, trackAdjustment)
+      }
       try {
         await audio.play()
         setCurrentlyPlaying(songId)
@@ -233,6 +267,84 @@ export default function SongSelection({ onNext, onBack, onProfile }: SongSelecti
     setSelectedSong(song)
   }
 
+  const focusCard = (index: number) => {
+    const song = visibleSongs[index]
+    if (!song) return
+    setFocusedIndex(index)
+    cardRefs.current[song.id]?.focus()
+  }
+
+  const handleCardKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, song: Song, index: number) => {
+    // Ignore keys bubbling up from the preview and select buttons inside the card
+    if (e.target !== e.currentTarget) return
+
+    const columns = window.matchMedia("(min-width: 768px)").matches ? 2 : 1
+
+    switch (e.key) {
+      case "ArrowRight":
+        e.preventDefault()
+        focusCard(Math.min(index + 1, visibleSongs.length - 1))
+        break
+      case "ArrowLeft":
+        e.preventDefault()
+        focusCard(Math.max(index - 1, 0))
+        break
+      case "ArrowDown":
+        e.preventDefault()
+        focusCard(Math.min(index + columns, visibleSongs.length - 1))
+        break
+      case "ArrowUp":
+        e.preventDefault()
+        focusCard(Math.max(index - columns, 0))
+        break
+      case "Home":
+        e.preventDefault()
+        focusCard(0)
+        break
+      case "End":
+        e.preventDefault()
+        focusCard(visibleSongs.length - 1)
+        break
+      case "Enter":
+        e.preventDefault()
+        if (selectedSong?.id === song.id) {
+          handleProceed()
+        } else {
+          handleSelectSong(song)
+        }
+        break
+      case " ":
+        e.preventDefault()
+        if (currentlyPlaying === song.id) {
+          handlePause(song.id)
+        } else {
+          handlePlay(song.id)
+        }
+        break
+    }
+  }
+
+  const handlePaletteSelect = (song: Song) => {
+    setPaletteOpen(false)
+    setSearchQuery("")
+    setGenreFilter("all")
+    setLanguageFilter("all")
+    handleSelectSong(song)
+
+    // Wait for the unfiltered grid to render before moving focus to the chosen card
+    requestAnimationFrame(() => {
+      const card = cardRefs.current[song.id]
+      card?.scrollIntoView({ behavior: "smooth", block: "center" })
+      card?.focus()
+    })
+  }
+
+  const clearFilters = () => {
+    setSearchQuery("")
+    setGenreFilter("all")
+    setLanguageFilter("all")
+  }
+
   const handleProceed = () => {
     if (selectedSong) {
       onNext(selectedSong)
@@ -272,83 +384,238 @@ export default function SongSelection({ onNext, onBack, onProfile }: SongSelecti
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-white mb-2">Choose Your Song</h1>
           <p className="text-white/90">Listen to the preview and select the song you want to perform</p>
+          {categoryInfo && (
+            <p className="text-white/80 text-sm mt-1">Showing songs available for the {categoryInfo.title}</p>
+          )}
         </div>
 
+        {songsLoading && (
+          <div className="text-center py-12 text-white">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-2"></div>
+            <p>Loading songs...</p>
+          </div>
+        )}
+
+        {songsError && !songsLoading && (
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{songsError}</AlertDescription>
+              </Alert>
+              <Button onClick={loadSongs} className="w-full bg-amber-600 hover:bg-amber-700">
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {!songsLoading && !songsError && songs.length > 0 && (
+          <Card className="mb-4">
+            <CardContent className="pt-6 space-y-3">
+              <div className="flex items-center gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="song-search"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search by title or artist"
+                    className="pl-9"
+                    aria-label="Search songs"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => setPaletteOpen(true)}
+                  className="hidden md:flex bg-transparent"
+                >
+                  Quick jump
+                  <kbd className="ml-2 text-xs text-gray-500">Ctrl K</kbd>
+                </Button>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                <Select value={genreFilter} onValueChange={setGenreFilter}>
+                  <SelectTrigger className="w-full" aria-label="Filter by genre">
+                    <SelectValue placeholder="Genre" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All genres</SelectItem>
+                    {genres.map((genre) => (
+                      <SelectItem key={genre} value={genre}>
+                        {genre}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={languageFilter} onValueChange={setLanguageFilter}>
+                  <SelectTrigger className="w-full" aria-label="Filter by language">
+                    <SelectValue placeholder="Language" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All languages</SelectItem>
+                    {languages.map((language) => (
+                      <SelectItem key={language} value={language}>
+                        {language}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={sortBy} onValueChange={(value) => setSortBy(value as SortOption)}>
+                  <SelectTrigger className="w-full" aria-label="Sort songs">
+                    <SelectValue placeholder="Sort by" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="popularity">Most popular</SelectItem>
+                    <SelectItem value="title">Title (A-Z)</SelectItem>
+                    <SelectItem value="artist">Artist (A-Z)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="border-t pt-3">
+                <TrackAdjustmentControls value={trackAdjustment} onChange={changeTrackAdjustment} />
+                <p className="text-xs text-gray-500 mt-2">
+                  Too high or too low? Change the key and tempo while previewing; they carry over to your recording.
+                </p>
+              </div>
+              <p className="text-xs text-gray-500">
+                Showing {visibleSongs.length} of {songs.length} songs. Use the arrow keys to move between songs, Enter
+                to select and Space to preview.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!songsLoading && !songsError && songs.length > 0 && visibleSongs.length === 0 && (
+          <Card>
+            <CardContent className="pt-6 text-center">
+              <p className="text-gray-600 mb-4">No songs match your search.</p>
+              <Button variant="outline" onClick={clearFilters} className="bg-transparent">
+                Clear filters
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {songs.map((song) => (
-            <Card
+          {visibleSongs.map((song, index) => (
+            <div
               key={song.id}
-              className={`transition-all duration-200 ${
-                selectedSong?.id === song.id ? "ring-2 ring-green-500 bg-green-50" : "hover:shadow-lg"
-              }`}
+              ref={(element) => {
+                cardRefs.current[song.id] = element
+              }}
+              tabIndex={index === focusedIndex ? 0 : -1}
+              onKeyDown={(e) => handleCardKeyDown(e, song, index)}
+              onFocus={() => setFocusedIndex(index)}
+              aria-label={`${song.title} by ${song.artist}`}
+              className="rounded-xl outline-none focus-visible:ring-2 focus-visible:ring-amber-800"
             >
-              <CardHeader className="pb-2">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <CardTitle className="text-lg">{song.title}</CardTitle>
-                    <CardDescription>{song.artist}</CardDescription>
-                  </div>
-                  {selectedSong?.id === song.id && <Check className="h-6 w-6 text-green-600" />}
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-2">
-                    {audioLoadErrors.has(song.id) ? (
-                      <div className="flex items-center text-red-500 text-sm">
-                        <AlertCircle className="h-4 w-4 mr-1" />
-                        Audio unavailable
+              <Card
+                className={`h-full transition-all duration-200 ${
+                  selectedSong?.id === song.id ? "ring-2 ring-green-500 bg-green-50" : "hover:shadow-lg"
+                }`}
+              >
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="text-lg">{song.title}</CardTitle>
+                      <CardDescription>{song.artist}</CardDescription>
+                      <div className="flex gap-1 mt-2">
+                        <Badge variant="secondary">{song.genre}</Badge>
+                        <Badge variant="outline">{song.language}</Badge>
                       </div>
-                    ) : audioLoading.has(song.id) ? (
-                      <div className="text-sm text-gray-500">Loading...</div>
-                    ) : (
-                      <>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => handlePlay(song.id)}
-                          disabled={currentlyPlaying === song.id}
-                        >
-                          <Play className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => handlePause(song.id)}
-                          disabled={currentlyPlaying !== song.id}
-                        >
-                          <Pause className="h-4 w-4" />
-                        </Button>
-                        <Button size="sm" variant="outline" onClick={() => handleStop(song.id)}>
-                          <Square className="h-4 w-4" />
-                        </Button>
-                      </>
-                    )}
+                    </div>
+                    {selectedSong?.id === song.id && <Check className="h-6 w-6 text-green-600" />}
                   </div>
-                  <Button
-                    onClick={() => handleSelectSong(song)}
-                    className={
-                      selectedSong?.id === song.id
-                        ? "bg-green-600 hover:bg-green-700"
-                        : "bg-amber-600 hover:bg-amber-700"
-                    }
-                  >
-                    {selectedSong?.id === song.id ? "Selected" : "Select"}
-                  </Button>
-                </div>
-                {currentlyPlaying === song.id && (
-                  <div className="mt-2 text-sm text-green-600 font-medium">Now Playing...</div>
-                )}
-                {audioLoadErrors.has(song.id) && (
-                  <div className="mt-2 text-xs text-red-600">
-                    Preview unavailable, but you can still select this song for karaoke
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      {audioLoadErrors.has(song.id) ? (
+                        <div className="flex items-center text-red-500 text-sm">
+                          <AlertCircle className="h-4 w-4 mr-1" />
+                          Audio unavailable
+                        </div>
+                      ) : audioLoading.has(song.id) ? (
+                        <div className="text-sm text-gray-500">Loading...</div>
+                      ) : (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handlePlay(song.id)}
+                            disabled={currentlyPlaying === song.id}
+                          >
+                            <Play className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handlePause(song.id)}
+                            disabled={currentlyPlaying !== song.id}
+                          >
+                            <Pause className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleStop(song.id)}>
+                            <Square className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                    <Button
+                      onClick={() => handleSelectSong(song)}
+                      className={
+                        selectedSong?.id === song.id
+                          ? "bg-green-600 hover:bg-green-700"
+                          : "bg-amber-600 hover:bg-amber-700"
+                      }
+                    >
+                      {selectedSong?.id === song.id ? "Selected" : "Select"}
+                    </Button>
                   </div>
-                )}
-              </CardContent>
-            </Card>
+                  {currentlyPlaying === song.id && (
+                    <div className="mt-2 text-sm text-green-600 font-medium">Now Playing...</div>
+                  )}
+                  {audioLoadErrors.has(song.id) && (
+                    <div className="mt-2 text-xs text-red-600">
+                      Preview unavailable, but you can still select this song for karaoke
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
           ))}
         </div>
 
+        <CommandDialog
+          open={paletteOpen}
+          onOpenChange={setPaletteOpen}
+          title="Find a song"
+          description="Jump straight to a song by title or artist"
+        >
+          <CommandInput placeholder="Type a song or artist..." />
+          <CommandList>
+            <CommandEmpty>No songs found.</CommandEmpty>
+            {genres.map((genre) => (
+              <CommandGroup key={genre} heading={genre}>
+                {songs
+                  .filter((song) => song.genre === genre)
+                  .map((song) => (
+                    <CommandItem
+                      key={song.id}
+                      value={`${song.title} ${song.artist}`}
+                      onSelect={() => handlePaletteSelect(song)}
+                    >
+                      <span>{song.title}</span>
+                      <span className="ml-auto text-xs text-muted-foreground">{song.artist}</span>
+                    </CommandItem>
+                  ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </CommandDialog>
+
         {selectedSong && (
           <div className="mt-8 text-center">
             <Card className="bg-green-50 border-green-200">
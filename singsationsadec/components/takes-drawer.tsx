@@ -0,0 +1,169 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from "@/components/ui/drawer"
+import { Check, ListVideo, Play, Trash2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { Take } from "@/lib/recording/takes"
+
+interface TakesDrawerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  takes: Take[]
+  selectedTakeId: string | null
+  onUse: (take: Take) => void
+  onDelete: (take: Take) => void
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.round(seconds % 60)
+    .toString()
+    .padStart(2, "0")}`
+
+export default function TakesDrawer({ open, onOpenChange, takes, selectedTakeId, onUse, onDelete }: TakesDrawerProps) {
+  const [previewId, setPreviewId] = useState<string | null>(null)
+  const [playingAll, setPlayingAll] = useState(false)
+  const [previewUrls, setPreviewUrls] = useState(new Map<string, string>())
+
+  // Object URLs pin the blobs in memory, so they only exist while the drawer is open
+  useEffect(() => {
+    if (!open) return
+
+    const urls = new Map(takes.map((take) => [take.id, URL.createObjectURL(take.blob)]))
+    setPreviewUrls(urls)
+    return () => {
+      urls.forEach((url) => URL.revokeObjectURL(url))
+      setPreviewUrls(new Map())
+    }
+  }, [open, takes])
+
+  useEffect(() => {
+    if (!open) setPlayingAll(false)
+  }, [open])
+
+  const previewTake = takes.find((take) => take.id === previewId) ?? takes[takes.length - 1]
+  const previewUrl = previewTake ? previewUrls.get(previewTake.id) : undefined
+  const bestScore = Math.max(...takes.map((take) => take.score?.overall ?? -1))
+
+  const playAll = () => {
+    setPlayingAll(true)
+    setPreviewId(takes[0]?.id ?? null)
+  }
+
+  // In "play all" mode each take hands over to the next when it finishes
+  const handleEnded = () => {
+    if (!playingAll || !previewTake) return
+    const next = takes[takes.indexOf(previewTake) + 1]
+    if (next) {
+      setPreviewId(next.id)
+    } else {
+      setPlayingAll(false)
+    }
+  }
+
+  return (
+    <Drawer open={open} onOpenChange={onOpenChange}>
+      <DrawerContent className="max-h-[90vh]">
+        <div className="mx-auto w-full max-w-3xl overflow-y-auto">
+          <DrawerHeader>
+            <DrawerTitle>Your Takes</DrawerTitle>
+            <DrawerDescription>
+              Play your takes back, then choose the one you want to keep. Takes are saved on this device only.
+            </DrawerDescription>
+          </DrawerHeader>
+
+          {takes.length === 0 ? (
+            <p className="px-4 py-8 text-center text-gray-500">No takes yet. Record one to see it here.</p>
+          ) : (
+            <div className="px-4 space-y-4">
+              {previewUrl && (
+                <div className="aspect-video bg-black rounded-lg overflow-hidden">
+                  <video
+                    key={`${previewUrl}-${playingAll}`}
+                    src={previewUrl}
+                    controls
+                    autoPlay={playingAll}
+                    playsInline
+                    onEnded={handleEnded}
+                    className="w-full h-full object-contain"
+                  />
+                </div>
+              )}
+
+              <ul className="space-y-2">
+                {takes.map((take, index) => (
+                  <li
+                    key={take.id}
+                    className={cn(
+                      "flex flex-wrap items-center gap-3 rounded-lg border p-3",
+                      take.id === previewTake?.id && "border-amber-500 bg-amber-50",
+                    )}
+                  >
+                    <div className="flex-1 min-w-[10rem]">
+                      <p className="font-medium flex items-center gap-2">
+                        Take {index + 1}
+                        {take.id === selectedTakeId && <Badge>Selected</Badge>}
+                        {take.score && take.score.overall === bestScore && takes.length > 1 && (
+                          <Badge variant="secondary">Best score</Badge>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {new Date(take.recordedAt).toLocaleTimeString()} · {formatDuration(take.duration)}
+                        {take.score && ` · score ${take.score.overall}/100`}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setPlayingAll(false)
+                        setPreviewId(take.id)
+                      }}
+                    >
+                      <Play className="h-4 w-4 mr-1" />
+                      Preview
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => onDelete(take)}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700 text-white"
+                      onClick={() => onUse(take)}
+                      disabled={take.id === selectedTakeId}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Use this take
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <DrawerFooter className="flex-row justify-end">
+            {takes.length > 1 && (
+              <Button variant="outline" onClick={playAll}>
+                <ListVideo className="h-4 w-4 mr-2" />
+                Play all in order
+              </Button>
+            )}
+            <Button variant="ghost" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          </DrawerFooter>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  )
+}
@@ -0,0 +1,74 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Minus, Plus, RotateCcw } from "lucide-react"
+import type { TrackAdjustment } from "@/lib/api"
+import {
+  formatKeyShift,
+  isAdjusted,
+  MAX_KEY_SHIFT,
+  MAX_TEMPO,
+  MIN_TEMPO,
+  NO_ADJUSTMENT,
+} from "@/lib/recording/track-adjustment"
+
+interface TrackAdjustmentControlsProps {
+  value: TrackAdjustment
+  onChange: (adjustment: TrackAdjustment) => void
+  disabled?: boolean
+}
+
+// Key and tempo for the backing track, shared by the song previews and the recording screen
+export default function TrackAdjustmentControls({ value, onChange, disabled = false }: TrackAdjustmentControlsProps) {
+  const shiftKey = (by: number) => onChange({ ...value, keyShift: value.keyShift + by })
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+      <div className="space-y-2">
+        <Label>Key: {value.keyShift === 0 ? "original" : `${formatKeyShift(value.keyShift)} semitones`}</Label>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => shiftKey(-1)}
+            disabled={disabled || value.keyShift <= -MAX_KEY_SHIFT}
+            aria-label="Lower the key"
+          >
+            <Minus className="h-4 w-4" />
+          </Button>
+          <span className="w-8 text-center font-semibold tabular-nums">{formatKeyShift(value.keyShift)}</span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => shiftKey(1)}
+            disabled={disabled || value.keyShift >= MAX_KEY_SHIFT}
+            aria-label="Raise the key"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 space-y-2 min-w-40">
+        <Label>Tempo: {Math.round(value.tempo * 100)}%</Label>
+        <Slider
+          value={[value.tempo * 100]}
+          min={MIN_TEMPO * 100}
+          max={MAX_TEMPO * 100}
+          step={5}
+          onValueChange={([tempo]) => onChange({ ...value, tempo: tempo / 100 })}
+          disabled={disabled}
+        />
+      </div>
+
+      {isAdjusted(value) && (
+        <Button variant="ghost" size="sm" onClick={() => onChange(NO_ADJUSTMENT)} disabled={disabled}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Original
+        </Button>
+      )}
+    </div>
+  )
+}
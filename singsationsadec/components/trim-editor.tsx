@@ -0,0 +1,305 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Slider } from "@/components/ui/slider"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Play, Square, Scissors, RotateCcw } from "lucide-react"
+import {
+  isEdited,
+  loadMedia,
+  loadWaveform,
+  MAX_STEM_GAIN,
+  MIN_EDIT_SECONDS,
+  renderEdit,
+  uneditedTake,
+  type TakeEdit,
+} from "@/lib/recording/editor"
+import type { TakeStems } from "@/lib/recording/stems"
+
+interface TrimEditorProps {
+  videoUrl: string
+  source: Blob | null // the take itself, for the waveform when there are no stems
+  stems?: TakeStems
+  onSave: (blob: Blob, edit: TakeEdit) => Promise<void>
+  onCancel: () => void
+}
+
+const WIDTH = 800
+const HEIGHT = 120
+const STEP = 0.1
+
+// Preview playback of the stems, at the editor's levels
+interface PreviewAudio {
+  context: AudioContext
+  buffers: Promise<AudioBuffer[]>
+  gains: [GainNode, GainNode]
+  sources: AudioBufferSourceNode[]
+}
+
+const formatSeconds = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds - mins * 60
+  return `${mins}:${secs.toFixed(1).padStart(4, "0")}`
+}
+
+export default function TrimEditor({ videoUrl, source, stems, onSave, onCancel }: TrimEditorProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const audioRef = useRef<PreviewAudio | null>(null)
+  const [duration, setDuration] = useState(0)
+  const [edit, setEdit] = useState<TakeEdit>(uneditedTake(0))
+  const [waveform, setWaveform] = useState<Float32Array | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [progress, setProgress] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const busy = progress !== null || saving
+
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+
+    let cancelled = false
+    loadMedia(video, videoUrl)
+      .then((length) => {
+        if (cancelled) return
+        setDuration(length)
+        setEdit(uneditedTake(length))
+      })
+      .catch((error) => console.error("Failed to load the take for editing:", error))
+
+    // The voice shows best where the singing starts and stops; without stems, the whole take will do
+    const waveformSource = stems?.voice ?? source
+    if (waveformSource) {
+      loadWaveform(waveformSource, WIDTH / 2)
+        .then((peaks) => !cancelled && setWaveform(peaks))
+        .catch((error) => console.warn("Waveform unavailable:", error))
+    }
+
+    return () => {
+      cancelled = true
+    }
+  }, [videoUrl, source, stems])
+
+  useEffect(
+    () => () => {
+      audioRef.current?.context.close().catch(() => undefined)
+      audioRef.current = null
+    },
+    [],
+  )
+
+  // Redraws every frame: the waveform, the parts being cut greyed out, and the playhead
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d")
+    if (!context || duration <= 0) return
+
+    const x = (time: number) => (time / duration) * WIDTH
+
+    let frame = requestAnimationFrame(function draw() {
+      const video = videoRef.current
+      if (previewing && video && video.currentTime >= edit.end) stopPreview()
+
+      context.fillStyle = "#111827"
+      context.fillRect(0, 0, WIDTH, HEIGHT)
+
+      context.fillStyle = "#f59e0b"
+      if (waveform) {
+        const barWidth = WIDTH / waveform.length
+        waveform.forEach((peak, index) => {
+          const height = Math.max(1, peak * HEIGHT * 0.9)
+          context.fillRect(index * barWidth, (HEIGHT - height) / 2, Math.max(1, barWidth - 1), height)
+        })
+      } else {
+        context.fillRect(0, HEIGHT / 2, WIDTH, 1)
+      }
+
+      context.fillStyle = "rgba(17, 24, 39, 0.75)"
+      context.fillRect(0, 0, x(edit.start), HEIGHT)
+      context.fillRect(x(edit.end), 0, WIDTH - x(edit.end), HEIGHT)
+
+      if (video) {
+        context.fillStyle = "#ffffff"
+        context.fillRect(x(video.currentTime), 0, 2, HEIGHT)
+      }
+
+      frame = requestAnimationFrame(draw)
+    })
+
+    return () => cancelAnimationFrame(frame)
+  }, [duration, waveform, edit, previewing])
+
+  // The stems are decoded the first time they're previewed
+  const getPreviewAudio = (): PreviewAudio | null => {
+    if (!stems) return null
+    if (!audioRef.current) {
+      const context = new AudioContext()
+      const gains: [GainNode, GainNode] = [context.createGain(), context.createGain()]
+      gains.forEach((gain) => gain.connect(context.destination))
+      const buffers = Promise.all(
+        [stems.voice, stems.backing].map(async (blob) => context.decodeAudioData(await blob.arrayBuffer())),
+      )
+      audioRef.current = { context, buffers, gains, sources: [] }
+    }
+    return audioRef.current
+  }
+
+  const changeEdit = (changes: Partial<TakeEdit>) => {
+    const next = { ...edit, ...changes }
+    setEdit(next)
+    const audio = audioRef.current
+    if (audio) {
+      audio.gains[0].gain.setTargetAtTime(next.voiceGain, audio.context.currentTime, 0.02)
+      audio.gains[1].gain.setTargetAtTime(next.trackGain, audio.context.currentTime, 0.02)
+    }
+  }
+
+  const startPreview = async () => {
+    const video = videoRef.current
+    if (!video) return
+
+    try {
+      const audio = getPreviewAudio()
+      video.muted = Boolean(audio)
+      video.currentTime = edit.start
+      await video.play()
+
+      if (audio) {
+        await audio.context.resume()
+        const buffers = await audio.buffers
+        audio.gains[0].gain.value = edit.voiceGain
+        audio.gains[1].gain.value = edit.trackGain
+        audio.sources = buffers.map((buffer, index) => {
+          const node = audio.context.createBufferSource()
+          node.buffer = buffer
+          node.connect(audio.gains[index])
+          node.start(audio.context.currentTime, video.currentTime)
+          return node
+        })
+      }
+      setPreviewing(true)
+    } catch (error) {
+      console.error("Preview failed:", error)
+      video.pause()
+      alert("Unable to preview your recording. Please try again.")
+    }
+  }
+
+  function stopPreview() {
+    videoRef.current?.pause()
+    audioRef.current?.sources.forEach((node) => node.stop())
+    if (audioRef.current) audioRef.current.sources = []
+    setPreviewing(false)
+  }
+
+  const save = async () => {
+    stopPreview()
+    setProgress(0)
+    try {
+      const blob = await renderEdit(videoUrl, stems, edit, setProgress)
+      setProgress(null)
+      setSaving(true)
+      await onSave(blob, edit)
+    } catch (error) {
+      console.error("Failed to render the edit:", error)
+      alert("Unable to save your edit. Please try again.")
+    } finally {
+      setProgress(null)
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="aspect-video bg-black rounded-lg overflow-hidden">
+        <video ref={videoRef} className="w-full h-full object-cover" playsInline onEnded={() => setPreviewing(false)} />
+      </div>
+
+      <canvas ref={canvasRef} width={WIDTH} height={HEIGHT} className="w-full h-auto rounded-lg" />
+
+      <div className="space-y-2">
+        <Label>
+          Keep {formatSeconds(edit.start)} to {formatSeconds(edit.end)} ({formatSeconds(edit.end - edit.start)})
+        </Label>
+        <Slider
+          value={[edit.start, edit.end]}
+          min={0}
+          max={duration || 1}
+          step={STEP}
+          minStepsBetweenThumbs={Math.round(MIN_EDIT_SECONDS / STEP)}
+          onValueChange={([start, end]) => changeEdit({ start, end })}
+          disabled={busy || duration <= 0}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {(
+          [
+            ["voiceGain", "Voice"],
+            ["trackGain", "Music"],
+          ] as const
+        ).map(([key, label]) => (
+          <div key={key} className="space-y-2">
+            <Label>
+              {label}: {Math.round(edit[key] * 100)}%
+            </Label>
+            <Slider
+              value={[edit[key] * 100]}
+              max={MAX_STEM_GAIN * 100}
+              step={5}
+              onValueChange={([value]) => changeEdit({ [key]: value / 100 })}
+              disabled={busy || !stems}
+            />
+          </div>
+        ))}
+      </div>
+      {!stems && (
+        <p className="text-xs text-gray-500">
+          This take doesn't have your voice and the music saved separately, so only trimming is available.
+        </p>
+      )}
+
+      {progress !== null && (
+        <div className="space-y-1">
+          <Progress value={progress * 100} />
+          <p className="text-xs text-gray-500">
+            Your edit plays through once while it's saved. Keep this tab open until it finishes.
+          </p>
+        </div>
+      )}
+      {saving && (
+        <Alert>
+          <AlertDescription>Saving your edited recording...</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {previewing ? (
+          <Button variant="outline" onClick={stopPreview} disabled={busy}>
+            <Square className="h-4 w-4 mr-2" />
+            Stop
+          </Button>
+        ) : (
+          <Button variant="outline" onClick={startPreview} disabled={busy || duration <= 0}>
+            <Play className="h-4 w-4 mr-2" />
+            Preview
+          </Button>
+        )}
+        <Button variant="ghost" onClick={() => changeEdit(uneditedTake(duration))} disabled={busy}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset
+        </Button>
+        <div className="flex-1" />
+        <Button variant="outline" onClick={onCancel} disabled={busy}>
+          Cancel
+        </Button>
+        <Button onClick={save} disabled={busy || !isEdited(edit, duration)}>
+          <Scissors className="h-4 w-4 mr-2" />
+          Save Edit
+        </Button>
+      </div>
+    </div>
+  )
+}
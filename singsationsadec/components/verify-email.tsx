@@ -0,0 +1,57 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CheckCircle, XCircle } from "lucide-react"
+import { apiClient } from "@/lib/api"
+
+interface VerifyEmailProps {
+  token: string
+  onDone: () => void
+}
+
+export default function VerifyEmail({ token, onDone }: VerifyEmailProps) {
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">("verifying")
+  const [message, setMessage] = useState("")
+  const requestedRef = useRef(false)
+
+  useEffect(() => {
+    // Tokens are single-use, so make sure a re-render can't submit the same one twice
+    if (requestedRef.current) return
+    requestedRef.current = true
+
+    if (!token) {
+      setStatus("failed")
+      setMessage("This verification link is incomplete. Please request a new one.")
+      return
+    }
+
+    apiClient.verifyEmail(token).then((response) => {
+      setStatus(response.success ? "verified" : "failed")
+      setMessage(response.message)
+    })
+  }, [token])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-yellow-400 via-yellow-500 to-amber-600 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          {status === "verified" && <CheckCircle className="h-12 w-12 mx-auto text-green-600 mb-2" />}
+          {status === "failed" && <XCircle className="h-12 w-12 mx-auto text-red-500 mb-2" />}
+          <CardTitle className="text-2xl font-bold text-gray-800">Email Verification</CardTitle>
+          <CardDescription>{status === "verifying" ? "Confirming your email address..." : message}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {status === "verifying" ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-600 mx-auto"></div>
+          ) : (
+            <Button className="w-full bg-amber-600 hover:bg-amber-700" onClick={onDone}>
+              Continue
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
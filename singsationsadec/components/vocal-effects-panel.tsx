@@ -0,0 +1,203 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Sparkles, ChevronDown, ChevronUp, Headphones } from "lucide-react"
+import {
+  VOCAL_PRESETS,
+  type ReverbRoom,
+  type VocalEffectPreferences,
+  type VocalEffectSettings,
+  type VocalPreset,
+} from "@/lib/recording/vocal-effects"
+
+interface VocalEffectsPanelProps {
+  preferences: VocalEffectPreferences
+  onChange: (preferences: VocalEffectPreferences) => void
+  monitorLevel: number | null // null when the singer isn't hearing themselves
+  onMonitorLevelChange: (level: number | null) => void
+  isRecording: boolean
+}
+
+const ROOMS: Record<ReverbRoom, string> = { room: "Small room", plate: "Plate", hall: "Concert hall" }
+const DEFAULT_MONITOR_LEVEL = 0.8
+
+export default function VocalEffectsPanel({
+  preferences,
+  onChange,
+  monitorLevel,
+  onMonitorLevelChange,
+  isRecording,
+}: VocalEffectsPanelProps) {
+  const [open, setOpen] = useState(false)
+  const { settings } = preferences
+
+  const choosePreset = (preset: VocalPreset) =>
+    onChange({ ...preferences, preset, settings: VOCAL_PRESETS[preset].settings })
+
+  // Any tweak turns the preset into a custom one
+  const changeSetting = <K extends keyof VocalEffectSettings>(key: K, value: VocalEffectSettings[K]) =>
+    onChange({ ...preferences, preset: "custom", settings: { ...settings, [key]: value } })
+
+  const percentSlider = (key: "reverb" | "echo", label: string) => (
+    <div className="space-y-2">
+      <Label>
+        {label}: {Math.round(settings[key] * 100)}%
+      </Label>
+      <Slider
+        value={[settings[key] * 100]}
+        max={100}
+        step={5}
+        onValueChange={([value]) => changeSetting(key, value / 100)}
+      />
+    </div>
+  )
+
+  return (
+    <Card className="mt-6">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold flex items-center">
+            <Sparkles className="h-5 w-5 mr-2" />
+            Voice Effects
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              {preferences.preset === "custom" ? "Custom" : VOCAL_PRESETS[preferences.preset].label}
+            </span>
+          </h3>
+          <Button variant="ghost" size="sm" onClick={() => setOpen((value) => !value)}>
+            {open ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+            {open ? "Hide" : "Change"}
+          </Button>
+        </div>
+
+        {open && (
+          <div className="mt-4 space-y-6">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="flex-wrap justify-start"
+              value={preferences.preset === "custom" ? "" : preferences.preset}
+              onValueChange={(value) => value && choosePreset(value as VocalPreset)}
+            >
+              {(Object.keys(VOCAL_PRESETS) as VocalPreset[]).map((preset) => (
+                <ToggleGroupItem key={preset} value={preset}>
+                  {VOCAL_PRESETS[preset].label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                {percentSlider("reverb", "Reverb")}
+                <div className="space-y-2">
+                  <Label>Reverb space</Label>
+                  <Select value={settings.room} onValueChange={(value) => changeSetting("room", value as ReverbRoom)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ROOMS) as ReverbRoom[]).map((room) => (
+                        <SelectItem key={room} value={room}>
+                          {ROOMS[room]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-4">
+                {percentSlider("echo", "Echo")}
+                <div className="space-y-2">
+                  <Label>Echo delay: {Math.round(settings.echoDelay * 1000)} ms</Label>
+                  <Slider
+                    value={[settings.echoDelay * 1000]}
+                    min={60}
+                    max={800}
+                    step={10}
+                    onValueChange={([value]) => changeSetting("echoDelay", value / 1000)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Echo repeats: {Math.round(settings.echoFeedback * 100)}%</Label>
+                  <Slider
+                    value={[settings.echoFeedback * 100]}
+                    max={90}
+                    step={5}
+                    onValueChange={([value]) => changeSetting("echoFeedback", value / 100)}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="effect-compressor"
+                  checked={settings.compressor}
+                  onCheckedChange={(checked) => changeSetting("compressor", checked)}
+                />
+                <Label htmlFor="effect-compressor">Auto-gain (compressor)</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="effect-gate"
+                  checked={settings.noiseGate}
+                  onCheckedChange={(checked) => changeSetting("noiseGate", checked)}
+                />
+                <Label htmlFor="effect-gate">Noise gate</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="effect-bake"
+                  checked={preferences.bake}
+                  onCheckedChange={(bake) => onChange({ ...preferences, bake })}
+                  disabled={isRecording}
+                />
+                <Label htmlFor="effect-bake">Record with effects</Label>
+              </div>
+            </div>
+            {!preferences.bake && (
+              <p className="text-xs text-gray-500">
+                Your recording will have your plain voice; the effects are only what you hear while singing.
+              </p>
+            )}
+
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 space-y-3">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="effect-monitor"
+                  checked={monitorLevel !== null}
+                  onCheckedChange={(checked) => onMonitorLevelChange(checked ? DEFAULT_MONITOR_LEVEL : null)}
+                />
+                <Label htmlFor="effect-monitor" className="flex items-center">
+                  <Headphones className="h-4 w-4 mr-1" />
+                  Hear yourself with effects
+                </Label>
+              </div>
+              {monitorLevel !== null && (
+                <div className="space-y-2">
+                  <Label>Headphone level: {Math.round(monitorLevel * 100)}%</Label>
+                  <Slider
+                    value={[monitorLevel * 100]}
+                    max={150}
+                    step={5}
+                    onValueChange={([value]) => onMonitorLevelChange(value / 100)}
+                  />
+                </div>
+              )}
+              <p className="text-xs text-amber-800">
+                Headphones only: through speakers your voice gets picked up again and howls.
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,13 +1,23 @@
-const API_BASE_URL = "http://129.151.182.215:3000"
+import { parseLyrics, type LyricLine } from "@/lib/lyrics"
+import { parseMelody, type MelodyNote } from "@/lib/melody"
+import { buildUserReport, getTopReports, reportsToCsv } from "@/lib/reports"
 
-// Fallback to localStorage when API is unavailable
-const USE_FALLBACK = true // Set to false when API server is ready
+// Defaults to this app's own route handlers; set NEXT_PUBLIC_API_BASE_URL to talk to a separate API server
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || ""
+
+// Explicit offline mode: accounts live in this browser's localStorage and nothing is sent to a server.
+// Only meant for demos and kiosks without connectivity, since passwords are stored unhashed.
+const USE_FALLBACK = process.env.NEXT_PUBLIC_OFFLINE_MODE === "true"
+
+export type UserRole = "user" | "admin"
 
 export interface User {
   id: number
   email: string
   phone?: string
   name?: string
+  role: UserRole
+  email_verified?: boolean
   created_at: string
 }
 
@@ -18,8 +28,16 @@ export interface AuthResponse {
   token?: string
 }
 
+export interface AccountActionResponse {
+  success: boolean
+  message: string
+  user?: User
+  retryAfter?: number // seconds before the action may be attempted again
+}
+
 export interface PurchaseData {
   user_id: number
+  video_id?: string
   song_title: string
   artist_name: string
   category: string
@@ -27,6 +45,152 @@ export interface PurchaseData {
   amount: number
 }
 
+// How well a performance matched the song, each part out of 100. Timing is only scored against a
+// reference melody, so it is null for songs without one.
+export interface PerformanceScore {
+  overall: number
+  pitch: number
+  timing: number | null
+  stability: number
+}
+
+// Lines a take up with its backing track for later mixing: the track starts trackStartMs into the
+// recording, and the singer's voice lags the track by latencyMs (speaker output plus microphone input).
+export interface RecordingSync {
+  trackStartMs: number
+  latencyMs: number
+}
+
+// Uploads are re-encoded on the server to MP4, which plays everywhere (WebM doesn't on many phones)
+export type TranscodeStatus = "queued" | "processing" | "completed" | "failed"
+
+// How the backing track was played for a take: transposed by keyShift semitones, at tempo times its speed
+export interface TrackAdjustment {
+  keyShift: number
+  tempo: number
+}
+
+// A recording stored on the server. videoUrl only plays for the signed-in owner.
+export interface RecordingInfo {
+  id: string
+  songId: string
+  songTitle: string
+  category: string
+  contentType: string
+  size: number
+  createdAt: string
+  expiresAt: string
+  score?: PerformanceScore
+  sync?: RecordingSync
+  trackAdjustment?: TrackAdjustment
+  transcodeStatus?: TranscodeStatus
+  videoUrl: string
+  posterUrl?: string
+}
+
+// A paid download. Access ends at expiresAt, when the server deletes the recording.
+export interface Purchase {
+  id: string
+  recordingId?: string
+  songTitle: string
+  category: string
+  amount: number // rand
+  status: "active" | "expired"
+  purchasedAt: string
+  expiresAt: string
+  transcodeStatus?: TranscodeStatus
+  posterUrl?: string
+}
+
+export interface DownloadUrlResponse {
+  success: boolean
+  message: string
+  url?: string
+  expiresAt?: string
+  filename?: string
+}
+
+export interface RecordingResponse {
+  success: boolean
+  message: string
+  recording?: RecordingInfo
+}
+
+// Where an entry has got to in the competition. Judges review the online auditions, shortlist the best
+// for public voting, and send finalists through to the live sing-offs.
+export type EntryStatus = "submitted" | "under_review" | "shortlisted" | "eliminated" | "finalist"
+
+// A paid recording submitted to its category's competition. The tracking code is what the singer
+// quotes when they contact the organisers.
+export interface EntryInfo {
+  id: string
+  trackingCode: string
+  category: string
+  songId: string
+  songTitle: string
+  recordingId: string
+  artistName: string
+  status: EntryStatus
+  submittedAt: string
+  updatedAt: string
+}
+
+// What the judges see: the entrant's contact details as well
+export interface AdminEntryInfo extends EntryInfo {
+  email: string
+  contactNumber: string
+}
+
+export interface EntryResponse {
+  success: boolean
+  message: string
+  entry?: EntryInfo
+}
+
+// Only the server moves a payment out of "pending", once Yoco confirms it through a signed webhook.
+// A succeeded payment becomes "expired" when its download period ends.
+export type PaymentStatus = "pending" | "succeeded" | "failed" | "expired"
+
+export interface PaymentResponse {
+  success: boolean
+  message: string
+  paymentId?: string
+  status?: PaymentStatus
+  redirectUrl?: string
+}
+
+// Ordered from least to most restrictive; each competition category sets the highest rating it allows
+export type ContentRating = "everyone" | "teen" | "mature"
+
+export interface Song {
+  id: string
+  title: string
+  artist: string
+  audioUrl: string
+  videoUrl: string
+  duration: number // seconds
+  genre: string
+  language: string
+  categories: string[]
+  contentRating: ContentRating
+  popularity: number // 0-100, used to rank the catalog
+  lyricsUrl?: string // timed lyrics as an LRC or WebVTT file, e.g. /lyrics/<song id>.lrc under public/
+  melodyUrl?: string // reference melody for scoring, as JSON notes (see lib/melody.ts)
+  artworkUrl?: string // cover art for audio-only recordings; same-origin or CORS-enabled, SVGs with a width and height
+}
+
+export interface SongsResponse {
+  success: boolean
+  message?: string
+  songs?: Song[]
+}
+
+export interface SongResponse {
+  success: boolean
+  message?: string
+  song?: Song
+}
+
 export interface ActivityLog {
   id: string
   userId: number
@@ -52,7 +216,20 @@ export interface UserReport {
   activities: ActivityLog[]
 }
 
+// Minimum gap between emails the user can trigger themselves, on top of the server's rate limits
+const RESEND_COOLDOWN_SECONDS = 60
+
+// Recordings are uploaded in chunks of this size (the server's UPLOAD_CHUNK_SIZE is the upper limit)
+const UPLOAD_CHUNK_SIZE = 2 * 1024 * 1024
+const MAX_UPLOAD_RETRIES = 5
+// How many times to ask, two seconds apart, whether a fully sent upload has been stored yet
+const MAX_UPLOAD_CONFIRMATION_CHECKS = 30
+
 class ApiClient {
+  private cooldowns = new Map<string, number>()
+  // Lets a retried upload of the same recording pick up where the last attempt stopped
+  private uploadIds = new WeakMap<Blob, string>()
+
   private getAuthToken(): string | null {
     if (typeof window !== "undefined") {
       return localStorage.getItem("auth_token")
@@ -84,6 +261,7 @@ class ApiClient {
       email,
       phone,
       name,
+      role: "user",
       created_at: new Date().toISOString(),
     }
 
@@ -159,6 +337,7 @@ class ApiClient {
         method: "POST",
         headers: this.getAuthHeaders(),
         body: JSON.stringify(activity),
+        credentials: "include",
         signal: controller.signal,
       })
 
@@ -194,27 +373,19 @@ class ApiClient {
         method: "POST",
         headers: this.getAuthHeaders(),
         body: JSON.stringify({ email, password, phone, name }),
+        credentials: "include",
         signal: controller.signal,
       })
 
       clearTimeout(timeoutId)
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      const data = await response.json()
-
-      if (data.success && data.token) {
-        localStorage.setItem("auth_token", data.token)
-        localStorage.setItem("user_data", JSON.stringify(data.user))
-      }
-
-      return data
+      return this.handleAuthResponse(response)
     } catch (error) {
       console.error("Signup error:", error)
-      console.log("API unavailable, using fallback authentication...")
-      return this.fallbackSignup(email, password, phone, name)
+      return {
+        success: false,
+        message: "Unable to reach the server. Please check your connection and try again.",
+      }
     }
   }
 
@@ -237,30 +408,178 @@ class ApiClient {
         method: "POST",
         headers: this.getAuthHeaders(),
         body: JSON.stringify({ email, password }),
+        credentials: "include",
         signal: controller.signal,
       })
 
       clearTimeout(timeoutId)
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
+      return this.handleAuthResponse(response)
+    } catch (error) {
+      console.error("Signin error:", error)
+      return {
+        success: false,
+        message: "Unable to reach the server. Please check your connection and try again.",
       }
+    }
+  }
 
-      const data = await response.json()
+  async adminSignin(email: string, password: string): Promise<AuthResponse> {
+    if (USE_FALLBACK) {
+      return { success: false, message: "Admin access is not available in offline mode." }
+    }
 
-      if (data.success && data.token) {
-        localStorage.setItem("auth_token", data.token)
-        localStorage.setItem("user_data", JSON.stringify(data.user))
+    try {
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), 10000)
+
+      const response = await fetch(`${API_BASE_URL}/api/auth/admin/signin`, {
+        method: "POST",
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ email, password }),
+        credentials: "include",
+        signal: controller.signal,
+      })
+
+      clearTimeout(timeoutId)
+
+      return this.handleAuthResponse(response)
+    } catch (error) {
+      console.error("Admin signin error:", error)
+      return {
+        success: false,
+        message: "Unable to reach the server. Please check your connection and try again.",
+      }
+    }
+  }
+
+  async requestPhoneCode(phone: string): Promise<AccountActionResponse> {
+    return this.performAccountAction("/api/auth/otp/request", { phone }, `phone-code:${phone.replace(/\D/g, "")}`)
+  }
+
+  async signinWithPhoneCode(phone: string, code: string): Promise<AuthResponse> {
+    if (USE_FALLBACK) {
+      return { success: false, message: "Phone sign-in is not available in offline mode." }
+    }
+
+    try {
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), 10000)
+
+      const response = await fetch(`${API_BASE_URL}/api/auth/otp/verify`, {
+        method: "POST",
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ phone, code }),
+        credentials: "include",
+        signal: controller.signal,
+      })
+
+      clearTimeout(timeoutId)
+
+      const result = await this.handleAuthResponse(response)
+      if (result.success) {
+        this.logActivity("signin", { phone })
+      }
+
+      return result
+    } catch (error) {
+      console.error("Phone signin error:", error)
+      return {
+        success: false,
+        message: "Unable to reach the server. Please check your connection and try again.",
+      }
+    }
+  }
+
+  async requestPasswordReset(email: string): Promise<AccountActionResponse> {
+    return this.performAccountAction("/api/auth/password/forgot", { email }, `password-reset:${email}`)
+  }
+
+  async resetPassword(token: string, password: string): Promise<AccountActionResponse> {
+    return this.performAccountAction("/api/auth/password/reset", { token, password })
+  }
+
+  async sendVerificationEmail(): Promise<AccountActionResponse> {
+    return this.performAccountAction("/api/auth/verify-email/send", {}, "verify-email")
+  }
+
+  async verifyEmail(token: string): Promise<AccountActionResponse> {
+    const result = await this.performAccountAction("/api/auth/verify-email/confirm", { token })
+
+    // Keep the cached profile in step if the verified account is the one signed in here
+    const currentUser = this.getCurrentUser()
+    if (result.success && result.user && currentUser?.id === result.user.id) {
+      localStorage.setItem("user_data", JSON.stringify(result.user))
+    }
+
+    return result
+  }
+
+  // cooldownKey marks actions that send an email or SMS; repeats are refused locally until the cooldown ends
+  private async performAccountAction(
+    path: string,
+    body: Record<string, unknown>,
+    cooldownKey?: string,
+  ): Promise<AccountActionResponse> {
+    if (USE_FALLBACK) {
+      return { success: false, message: "This isn't available in offline mode." }
+    }
+
+    const cooldownUntil = cooldownKey ? this.cooldowns.get(cooldownKey) : undefined
+    if (cooldownUntil && cooldownUntil > Date.now()) {
+      const retryAfter = Math.ceil((cooldownUntil - Date.now()) / 1000)
+      return { success: false, message: `Please wait ${retryAfter} seconds before trying again.`, retryAfter }
+    }
+
+    try {
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), 10000)
+
+      const response = await fetch(`${API_BASE_URL}${path}`, {
+        method: "POST",
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify(body),
+        credentials: "include",
+        signal: controller.signal,
+      })
+
+      clearTimeout(timeoutId)
+
+      const data: AccountActionResponse = await response.json().catch(() => ({
+        success: false,
+        message: `HTTP error! status: ${response.status}`,
+      }))
+
+      if (cooldownKey && (data.success || data.retryAfter)) {
+        const retryAfter = data.retryAfter ?? RESEND_COOLDOWN_SECONDS
+        this.cooldowns.set(cooldownKey, Date.now() + retryAfter * 1000)
+        data.retryAfter = retryAfter
       }
 
       return data
     } catch (error) {
-      console.error("Signin error:", error)
-      console.log("API unavailable, using fallback authentication...")
-      return this.fallbackSignin(email, password)
+      console.error(`Request to ${path} failed:`, error)
+      return {
+        success: false,
+        message: "Unable to reach the server. Please check your connection and try again.",
+      }
     }
   }
 
+  // The session itself lives in an httpOnly cookie; we only keep the public user profile for display
+  private async handleAuthResponse(response: Response): Promise<AuthResponse> {
+    const data: AuthResponse = await response.json().catch(() => ({
+      success: false,
+      message: `HTTP error! status: ${response.status}`,
+    }))
+
+    if (data.success && data.user) {
+      localStorage.setItem("user_data", JSON.stringify(data.user))
+    }
+
+    return data
+  }
+
   async logout(): Promise<void> {
     if (!USE_FALLBACK) {
       try {
@@ -270,6 +589,7 @@ class ApiClient {
         await fetch(`${API_BASE_URL}/api/auth/logout`, {
           method: "POST",
           headers: this.getAuthHeaders(),
+          credentials: "include",
           signal: controller.signal,
         })
 
@@ -284,6 +604,228 @@ class ApiClient {
     localStorage.removeItem("user_data")
   }
 
+  async uploadRecording(
+    blob: Blob,
+    details: {
+      songId: string
+      songTitle: string
+      category: string
+      score?: PerformanceScore
+      sync?: RecordingSync
+      trackAdjustment?: TrackAdjustment
+    },
+    onProgress?: (fraction: number) => void,
+  ): Promise<RecordingResponse> {
+    if (USE_FALLBACK) {
+      return { success: false, message: "Recordings can't be saved in offline mode." }
+    }
+
+    try {
+      let uploadId = this.uploadIds.get(blob)
+      let offset = uploadId ? ((await this.getUploadStatus(uploadId))?.received ?? null) : null
+
+      if (!uploadId || offset === null) {
+        const started = await this.requestJson("/api/uploads", {
+          method: "POST",
+          body: JSON.stringify({ ...details, size: blob.size, contentType: blob.type || "video/webm" }),
+        })
+        if (!started.success) {
+          return started
+        }
+        uploadId = started.uploadId as string
+        offset = 0
+        this.uploadIds.set(blob, uploadId)
+      }
+
+      let failures = 0
+      let checks = 0
+      onProgress?.(offset / blob.size)
+
+      for (;;) {
+        while (offset < blob.size) {
+          const chunk = blob.slice(offset, offset + UPLOAD_CHUNK_SIZE)
+
+          try {
+            const result = await this.requestJson(
+              `/api/uploads/${uploadId}`,
+              { method: "PUT", headers: { "Upload-Offset": String(offset) }, body: chunk },
+              60000,
+            )
+
+            if (typeof result.received === "number") {
+              // On a 409 the server tells us how much it really has; carry on from there
+              offset = result.received
+            } else if (!result.success) {
+              return result
+            }
+
+            if (result.recording) {
+              onProgress?.(1)
+              this.uploadIds.delete(blob)
+              const recording = result.recording as RecordingInfo
+              return {
+                success: true,
+                message: result.message,
+                recording: { ...recording, videoUrl: `${API_BASE_URL}${recording.videoUrl}` },
+              }
+            }
+
+            failures = 0
+            onProgress?.(offset / blob.size)
+          } catch (error) {
+            if (++failures > MAX_UPLOAD_RETRIES) {
+              throw error
+            }
+            await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** failures))
+            offset = (await this.getUploadStatus(uploadId))?.received ?? offset
+          }
+        }
+
+        // Every byte is in, but the response saying so was lost or the server is still moving the file
+        // into storage. The upload session names the recording once it's stored.
+        if (++checks > MAX_UPLOAD_CONFIRMATION_CHECKS) {
+          break
+        }
+        await new Promise((resolve) => setTimeout(resolve, 2000))
+        const status = await this.getUploadStatus(uploadId)
+        if (!status) {
+          break
+        }
+        if (status.recordingId) {
+          const stored = await this.getRecording(status.recordingId)
+          if (stored.success) {
+            onProgress?.(1)
+            this.uploadIds.delete(blob)
+          }
+          return stored
+        }
+        // Storing failed and the server took the last chunk back
+        offset = status.received
+      }
+
+      return { success: false, message: "The upload finished without the server confirming it. Please try again." }
+    } catch (error) {
+      console.error("Upload error:", error)
+      return {
+        success: false,
+        message: "Your recording couldn't be uploaded. Check your connection and try again; the upload will resume.",
+      }
+    }
+  }
+
+  private async getUploadStatus(uploadId: string): Promise<{ received: number; recordingId?: string } | null> {
+    const result = await this.requestJson(`/api/uploads/${uploadId}`, { cache: "no-store" })
+    return result.success ? { received: result.received as number, recordingId: result.recordingId } : null
+  }
+
+  async getRecording(recordingId: string): Promise<RecordingResponse> {
+    if (USE_FALLBACK) {
+      return { success: false, message: "Recordings aren't stored in offline mode." }
+    }
+
+    try {
+      const result = await this.requestJson(`/api/recordings/${encodeURIComponent(recordingId)}`, { cache: "no-store" })
+      if (result.success && result.recording) {
+        const recording = result.recording as RecordingInfo
+        return {
+          success: true,
+          message: result.message,
+          recording: { ...recording, videoUrl: `${API_BASE_URL}${recording.videoUrl}` },
+        }
+      }
+      return { success: false, message: result.message }
+    } catch (error) {
+      console.error("Recording lookup error:", error)
+      return { success: false, message: "Unable to reach the server." }
+    }
+  }
+
+  // Network errors and timeouts are thrown so callers can decide whether to retry
+  private async requestJson(
+    path: string,
+    init: RequestInit,
+    timeoutMs = 10000,
+  ): Promise<{ success: boolean; message: string; [key: string]: any }> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+    try {
+      const response = await fetch(`${API_BASE_URL}${path}`, {
+        ...init,
+        headers: {
+          ...this.getAuthHeaders(),
+          ...(init.body instanceof Blob && { "Content-Type": "application/octet-stream" }),
+          ...init.headers,
+        },
+        credentials: "include",
+        signal: controller.signal,
+      })
+
+      return await response.json().catch(() => ({
+        success: false,
+        message: `HTTP error! status: ${response.status}`,
+      }))
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  async createCheckout(songTitle: string, category: string, recordingId?: string): Promise<PaymentResponse> {
+    if (USE_FALLBACK) {
+      return { success: false, message: "Payments are not available in offline mode." }
+    }
+
+    try {
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), 10000)
+
+      const response = await fetch(`${API_BASE_URL}/api/payments/checkout`, {
+        method: "POST",
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ songTitle, category, recordingId }),
+        credentials: "include",
+        signal: controller.signal,
+      })
+
+      clearTimeout(timeoutId)
+
+      return await response.json().catch(() => ({
+        success: false,
+        message: `HTTP error! status: ${response.status}`,
+      }))
+    } catch (error) {
+      console.error("Checkout error:", error)
+      return {
+        success: false,
+        message: "Unable to reach the server. Please check your connection and try again.",
+      }
+    }
+  }
+
+  async getPaymentStatus(paymentId: string): Promise<PaymentResponse> {
+    try {
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), 10000)
+
+      const response = await fetch(`${API_BASE_URL}/api/payments/${encodeURIComponent(paymentId)}`, {
+        headers: this.getAuthHeaders(),
+        credentials: "include",
+        cache: "no-store",
+        signal: controller.signal,
+      })
+
+      clearTimeout(timeoutId)
+
+      return await response.json().catch(() => ({
+        success: false,
+        message: `HTTP error! status: ${response.status}`,
+      }))
+    } catch (error) {
+      console.error("Payment status error:", error)
+      return { success: false, message: "Unable to reach the server." }
+    }
+  }
+
   async savePurchase(purchaseData: PurchaseData): Promise<{ success: boolean; message: string }> {
     const purchases = JSON.parse(localStorage.getItem("user_purchases") || "[]")
     const purchaseWithId = {
@@ -294,38 +836,190 @@ class ApiClient {
     purchases.push(purchaseWithId)
     localStorage.setItem("user_purchases", JSON.stringify(purchases))
 
+    // Online, the server records the purchase itself when Yoco confirms the payment; see getPurchases
+    return {
+      success: true,
+      message: "Purchase saved successfully!",
+    }
+  }
+
+  async getPurchases(): Promise<Purchase[]> {
     if (USE_FALLBACK) {
-      return {
-        success: true,
-        message: "Purchase saved successfully!",
-      }
+      return []
     }
 
+    const result = await this.requestJson("/api/purchases", { cache: "no-store" })
+    if (!result.success) {
+      throw new Error(result.message)
+    }
+    return result.purchases
+  }
+
+  // Streams to the signed-in owner (and admins judging entries) only; for playback, not for downloading
+  getRecordingPreviewUrl(recordingId: string): string {
+    return `${API_BASE_URL}/api/recordings/${encodeURIComponent(recordingId)}/video`
+  }
+
+  async getDownloadUrl(recordingId: string): Promise<DownloadUrlResponse> {
     try {
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 10000)
+      return await this.requestJson(`/api/recordings/${encodeURIComponent(recordingId)}/download-url`, {
+        cache: "no-store",
+      })
+    } catch (error) {
+      console.error("Download link error:", error)
+      return { success: false, message: "Unable to reach the server." }
+    }
+  }
 
-      const response = await fetch(`${API_BASE_URL}/api/purchases`, {
+  async deleteRecording(recordingId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      return await this.requestJson(`/api/recordings/${encodeURIComponent(recordingId)}`, { method: "DELETE" })
+    } catch (error) {
+      console.error("Delete recording error:", error)
+      return { success: false, message: "Unable to reach the server." }
+    }
+  }
+
+  async submitEntry(
+    recordingId: string,
+    details: { artistName: string; contactNumber: string },
+  ): Promise<EntryResponse> {
+    if (USE_FALLBACK) {
+      return { success: false, message: "Competition entries can't be submitted in offline mode." }
+    }
+
+    try {
+      return await this.requestJson("/api/entries", {
         method: "POST",
-        headers: this.getAuthHeaders(),
-        body: JSON.stringify(purchaseData),
-        signal: controller.signal,
+        body: JSON.stringify({ recordingId, ...details }),
+      })
+    } catch (error) {
+      console.error("Submit entry error:", error)
+      return { success: false, message: "Unable to reach the server." }
+    }
+  }
+
+  async getEntries(): Promise<EntryInfo[]> {
+    if (USE_FALLBACK) {
+      return []
+    }
+
+    const result = await this.requestJson("/api/entries", { cache: "no-store" })
+    if (!result.success) {
+      throw new Error(result.message)
+    }
+    return result.entries
+  }
+
+  async getAllEntries(): Promise<AdminEntryInfo[]> {
+    if (USE_FALLBACK) {
+      return []
+    }
+
+    const result = await this.requestJson("/api/admin/entries", { cache: "no-store" })
+    if (!result.success) {
+      throw new Error(result.message)
+    }
+    return result.entries
+  }
+
+  async updateEntryStatus(entryId: string, status: EntryStatus): Promise<EntryResponse> {
+    try {
+      return await this.requestJson(`/api/admin/entries/${encodeURIComponent(entryId)}`, {
+        method: "PATCH",
+        body: JSON.stringify({ status }),
+      })
+    } catch (error) {
+      console.error("Update entry error:", error)
+      return { success: false, message: "Unable to reach the server." }
+    }
+  }
+
+  // Empty values remove the file from the song
+  async updateSongAssets(
+    songId: string,
+    assets: Partial<Record<"lyricsUrl" | "melodyUrl" | "artworkUrl", string>>,
+  ): Promise<SongResponse> {
+    try {
+      return await this.requestJson(`/api/admin/songs/${encodeURIComponent(songId)}`, {
+        method: "PATCH",
+        body: JSON.stringify(assets),
       })
+    } catch (error) {
+      console.error("Update song error:", error)
+      return { success: false, message: "Unable to reach the server." }
+    }
+  }
+
+  // The song catalog is served by this app's own route handlers, not the external API server
+  async getSongs(category?: string): Promise<Song[]> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), 10000)
+    const query = category ? `?category=${encodeURIComponent(category)}` : ""
 
+    try {
+      const response = await fetch(`/api/songs${query}`, { signal: controller.signal })
+      const data: SongsResponse = await response.json()
+
+      if (!response.ok || !data.success || !data.songs) {
+        throw new Error(data.message || `HTTP error! status: ${response.status}`)
+      }
+
+      return data.songs
+    } finally {
       clearTimeout(timeoutId)
+    }
+  }
+
+  async getSong(songId: string): Promise<Song | null> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), 10000)
+
+    try {
+      const response = await fetch(`/api/songs/${encodeURIComponent(songId)}`, { signal: controller.signal })
+      if (response.status === 404) {
+        return null
+      }
+
+      const data: SongResponse = await response.json()
+
+      if (!response.ok || !data.success || !data.song) {
+        throw new Error(data.message || `HTTP error! status: ${response.status}`)
+      }
+
+      return data.song
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  async getLyrics(lyricsUrl: string): Promise<LyricLine[]> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), 10000)
 
+    try {
+      const response = await fetch(lyricsUrl, { signal: controller.signal })
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`)
       }
+      return parseLyrics(await response.text())
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
 
-      return await response.json()
-    } catch (error) {
-      console.error("Save purchase error:", error)
-      // Purchase already saved to localStorage above
-      return {
-        success: true,
-        message: "Purchase saved locally (API unavailable).",
+  async getMelody(melodyUrl: string): Promise<MelodyNote[]> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), 10000)
+
+    try {
+      const response = await fetch(melodyUrl, { signal: controller.signal })
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
       }
+      return parseMelody(await response.text())
+    } finally {
+      clearTimeout(timeoutId)
     }
   }
 
@@ -337,8 +1031,12 @@ class ApiClient {
     return null
   }
 
+  isOfflineMode(): boolean {
+    return USE_FALLBACK
+  }
+
   isAuthenticated(): boolean {
-    return !!this.getAuthToken()
+    return USE_FALLBACK ? !!this.getAuthToken() : !!this.getCurrentUser()
   }
 
   logSongSelection(songTitle: string, category: string): void {
@@ -357,75 +1055,43 @@ class ApiClient {
     const user = userId ? this.getUserById(userId) : this.getCurrentUser()
     if (!user) return null
 
-    const activities = JSON.parse(localStorage.getItem("user_activities") || "[]")
-      .filter((activity: ActivityLog) => activity.userId === user.id)
-      .sort((a: ActivityLog, b: ActivityLog) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    return buildUserReport(user, JSON.parse(localStorage.getItem("user_activities") || "[]"))
+  }
 
-    const signIns = activities.filter((a: ActivityLog) => a.eventType === "signin").length
-    const songSelections = activities.filter((a: ActivityLog) => a.eventType === "song_selection").length
-    const recordings = activities.filter((a: ActivityLog) => a.eventType === "recording_complete").length
-    const payments = activities.filter((a: ActivityLog) => a.eventType === "payment").length
+  // Admin-only: in online mode the server checks the session role and answers 401/403 otherwise
+  async getAllUserReports(): Promise<UserReport[]> {
+    if (USE_FALLBACK) {
+      const users = JSON.parse(localStorage.getItem("fallback_users") || "[]")
+      return users.map((user: any) => this.getUserReport(user.id)).filter(Boolean)
+    }
 
-    return {
-      userId: user.id,
-      email: user.email,
-      artistName: user.name,
-      totalSignIns: signIns,
-      songsSelected: songSelections,
-      recordingsCompleted: recordings,
-      paymentsCompleted: payments,
-      lastActivity: activities.length > 0 ? activities[0].timestamp : user.created_at,
-      activities,
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), 10000)
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/admin/reports`, {
+        headers: this.getAuthHeaders(),
+        credentials: "include",
+        signal: controller.signal,
+      })
+      const data: { success: boolean; message?: string; reports?: UserReport[] } = await response.json()
+
+      if (!response.ok || !data.success || !data.reports) {
+        throw new Error(data.message || `HTTP error! status: ${response.status}`)
+      }
+
+      return data.reports
+    } finally {
+      clearTimeout(timeoutId)
     }
   }
 
-  getAllUserReports(): UserReport[] {
-    const users = JSON.parse(localStorage.getItem("fallback_users") || "[]")
-    return users.map((user: any) => this.getUserReport(user.id)).filter(Boolean)
+  async getTopUsers(limit = 10): Promise<UserReport[]> {
+    return getTopReports(await this.getAllUserReports(), limit)
   }
 
-  getTopUsers(limit = 10): UserReport[] {
-    const reports = this.getAllUserReports()
-    return reports
-      .map((report) => ({
-        ...report,
-        totalActivity:
-          report.totalSignIns + report.songsSelected + report.recordingsCompleted + report.paymentsCompleted,
-      }))
-      .sort((a, b) => (b as any).totalActivity - (a as any).totalActivity)
-      .slice(0, limit)
-  }
-
-  exportUserData(): string {
-    const reports = this.getAllUserReports()
-    const headers = [
-      "User ID",
-      "Email",
-      "Artist Name",
-      "Sign-ins",
-      "Songs Selected",
-      "Recordings",
-      "Payments",
-      "Last Activity",
-    ]
-
-    const csvContent = [
-      headers.join(","),
-      ...reports.map((report) =>
-        [
-          report.userId,
-          `"${report.email}"`,
-          `"${report.artistName || ""}"`,
-          report.totalSignIns,
-          report.songsSelected,
-          report.recordingsCompleted,
-          report.paymentsCompleted,
-          `"${new Date(report.lastActivity).toLocaleString()}"`,
-        ].join(","),
-      ),
-    ].join("\n")
-
-    return csvContent
+  async exportUserData(): Promise<string> {
+    return reportsToCsv(await this.getAllUserReports())
   }
 
   private getUserById(userId: number): User | null {
@@ -0,0 +1,50 @@
+import type { ContentRating, Song } from "@/lib/api"
+
+export interface CompetitionCategory {
+  id: string
+  title: string
+  description: string
+  icon: string
+  maxContentRating: ContentRating
+}
+
+export const categories: CompetitionCategory[] = [
+  {
+    id: "adults",
+    title: "Adults Competition",
+    description: "Ages 18 and up - Show your vocal prowess",
+    icon: "🎤",
+    maxContentRating: "mature",
+  },
+  {
+    id: "kids",
+    title: "Kids Competition",
+    description: "Ages 6-17 - Young talent showcase",
+    icon: "🌟",
+    maxContentRating: "everyone",
+  },
+  {
+    id: "celebrities",
+    title: "Celebrity Competition",
+    description: "Special celebrity showcase category",
+    icon: "⭐",
+    maxContentRating: "mature",
+  },
+]
+
+const CONTENT_RATING_ORDER: ContentRating[] = ["everyone", "teen", "mature"]
+
+export function getCategory(categoryId: string): CompetitionCategory | undefined {
+  return categories.find((category) => category.id === categoryId)
+}
+
+// A song must be tagged for the category and also fall within its content rating, so a tagging
+// mistake in the catalog can't put a mature track in front of the kids category.
+export function isSongAllowedInCategory(song: Song, categoryId: string): boolean {
+  const category = getCategory(categoryId)
+  if (!category || !song.categories.includes(category.id)) {
+    return false
+  }
+
+  return CONTENT_RATING_ORDER.indexOf(song.contentRating) <= CONTENT_RATING_ORDER.indexOf(category.maxContentRating)
+}
@@ -0,0 +1,58 @@
+import type { EntryStatus } from "@/lib/api"
+
+// In the order an entry moves through them; eliminated can happen at any stage
+export const ENTRY_STATUSES: Record<EntryStatus, { label: string; description: string; className: string }> = {
+  submitted: {
+    label: "Submitted",
+    description: "Your audition is in. The judges will start reviewing entries soon.",
+    className: "border-blue-300 text-blue-700",
+  },
+  under_review: {
+    label: "Under Review",
+    description: "The judges are watching your audition.",
+    className: "border-amber-300 text-amber-700",
+  },
+  shortlisted: {
+    label: "Shortlisted",
+    description: "You're through to public voting!",
+    className: "border-purple-300 text-purple-700",
+  },
+  eliminated: {
+    label: "Not Selected",
+    description: "Your entry didn't go through this time. Thank you for taking part.",
+    className: "border-gray-300 text-gray-600",
+  },
+  finalist: {
+    label: "Finalist",
+    description: "You're in the live sing-offs! The organisers will contact you with the details.",
+    className: "border-green-300 text-green-700",
+  },
+}
+
+// The details from the category registration form, kept in this browser until a recording is
+// submitted as the entry
+export interface CompetitionRegistration {
+  artistName: string
+  contactNumber: string
+}
+
+const STORAGE_KEY = "competition_registrations"
+
+export function loadRegistration(category: string): CompetitionRegistration | null {
+  if (typeof window === "undefined") return null
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}")[category] ?? null
+  } catch {
+    return null
+  }
+}
+
+export function saveRegistration(category: string, registration: CompetitionRegistration): void {
+  let stored: Record<string, CompetitionRegistration> = {}
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}")
+  } catch {
+    // Start again from an unreadable value
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...stored, [category]: registration }))
+}
@@ -0,0 +1,116 @@
+import { readFileSync } from "fs"
+import path from "path"
+import { describe, expect, it } from "vitest"
+import { findActiveLine, parseLrc, parseLyrics, parseWebVtt } from "@/lib/lyrics"
+import { parseMelody } from "@/lib/melody"
+
+const readPublic = (...parts: string[]) => readFileSync(path.join(process.cwd(), "public", ...parts), "utf-8")
+
+describe("parseLrc", () => {
+  it("times each line until the next one starts, and spreads its words across it", () => {
+    const lines = parseLrc("[ti:Song]\n[00:01.00] Hello there\n[00:03.00] Second line\n")
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toMatchObject({ time: 1, end: 3, text: "Hello there" })
+    expect(lines[0].words).toEqual([
+      { time: 1, text: "Hello" },
+      { time: 2, text: "there" },
+    ])
+    // The last line is held for a few seconds
+    expect(lines[1]).toMatchObject({ time: 3, end: 8 })
+  })
+
+  it("repeats a line under each of its timestamps, in time order", () => {
+    const lines = parseLrc("[00:10.00][00:02.00] Chorus\n[00:05.00] Verse")
+    expect(lines.map((line) => [line.time, line.text])).toEqual([
+      [2, "Chorus"],
+      [5, "Verse"],
+      [10, "Chorus"],
+    ])
+  })
+
+  it("reads enhanced LRC word timing and moves it with repeated lines", () => {
+    const lines = parseLrc("[00:01.00][00:11.00] <00:01.00> Sing <00:01.50> along\n[00:05.00]")
+    expect(lines).toHaveLength(2)
+    expect(lines[0].words).toEqual([
+      { time: 1, text: "Sing" },
+      { time: 1.5, text: "along" },
+    ])
+    expect(lines[1].words).toEqual([
+      { time: 11, text: "Sing" },
+      { time: 11.5, text: "along" },
+    ])
+    // A timestamp with no words only ends the line before it
+    expect(lines[0].end).toBe(5)
+  })
+
+  it("shows lyrics earlier by a positive offset", () => {
+    const [line] = parseLrc("[offset:500]\n[00:02.00] <00:02.00> Early")
+    expect(line.time).toBe(1.5)
+    expect(line.words[0].time).toBe(1.5)
+  })
+
+  it("accepts minute timestamps without fractions", () => {
+    expect(parseLrc("[01:05] Late")[0].time).toBe(65)
+  })
+})
+
+describe("parseWebVtt", () => {
+  it("reads cues, ignoring settings and styling", () => {
+    const lines = parseWebVtt(
+      "WEBVTT\n\n1\n00:00:01.000 --> 00:00:03.000 align:center\n<i>Hello</i> world\n\n00:00:04.000 --> 00:00:06.000\nAgain",
+    )
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toMatchObject({ time: 1, end: 3, text: "Hello world" })
+    expect(lines[0].words.map((word) => word.text)).toEqual(["Hello", "world"])
+    expect(lines[1]).toMatchObject({ time: 4, end: 6, text: "Again" })
+  })
+
+  it("reads inline word timestamps", () => {
+    const [line] = parseWebVtt("WEBVTT\n\n00:00:01.000 --> 00:00:04.000\nOne <00:00:02.000>two <00:00:03.500>three")
+    expect(line.words).toEqual([
+      { time: 1, text: "One" },
+      { time: 2, text: "two" },
+      { time: 3.5, text: "three" },
+    ])
+  })
+})
+
+describe("parseLyrics", () => {
+  it("picks the parser from the file's header", () => {
+    expect(parseLyrics("WEBVTT\n\n00:01.000 --> 00:02.000\nCue")[0]).toMatchObject({ time: 1, end: 2 })
+    expect(parseLyrics("[00:01.00] Line")[0]).toMatchObject({ time: 1, end: 6 })
+  })
+})
+
+describe("findActiveLine", () => {
+  const lines = parseWebVtt("WEBVTT\n\n00:01.000 --> 00:02.000\nFirst\n\n00:03.000 --> 00:04.000\nSecond")
+
+  it("finds the line being sung, and none before the first or between lines", () => {
+    expect(findActiveLine(lines, 0.5)).toBe(-1)
+    expect(findActiveLine(lines, 1)).toBe(0)
+    expect(findActiveLine(lines, 2.5)).toBe(-1)
+    expect(findActiveLine(lines, 3.9)).toBe(1)
+    expect(findActiveLine(lines, 4)).toBe(-1)
+  })
+})
+
+describe("the Amazing Grace lyrics", () => {
+  const lines = parseLyrics(readPublic("lyrics", "amazing-grace.lrc"))
+
+  it("has the verse, each line held until the next", () => {
+    expect(lines.map((line) => line.text)).toEqual([
+      "Amazing grace, how sweet the sound",
+      "That saved a wretch like me",
+      "I once was lost, but now am found",
+      "Was blind, but now I see",
+    ])
+    expect(lines[3].end).toBe(42)
+  })
+
+  it("starts every word on a note of the reference melody", () => {
+    const noteStarts = new Set(parseMelody(readPublic("melodies", "amazing-grace.json")).map((note) => note.time))
+    for (const word of lines.flatMap((line) => line.words)) {
+      expect(noteStarts, word.text).toContain(word.time)
+    }
+  })
+})
@@ -0,0 +1,118 @@
+// Timed lyrics for the recording screen. The catalog points each song at an LRC or WebVTT file;
+// both parse to the same list of lines, each with optional per-word timing.
+
+export interface LyricWord {
+  time: number // seconds from the start of the backing track
+  text: string
+}
+
+export interface LyricLine {
+  time: number
+  end: number // when the next line starts, or the cue end for WebVTT
+  text: string
+  words: LyricWord[]
+}
+
+// Lines with no end of their own (the last LRC line) are held for this long
+const DEFAULT_LINE_SECONDS = 5
+
+const parseTimestamp = (value: string): number => {
+  const parts = value.split(":").map(Number)
+  return parts.reduce((total, part) => total * 60 + part, 0)
+}
+
+// Words without their own timing are spread evenly across the line
+function spreadWords(text: string, start: number, end: number): LyricWord[] {
+  const words = text.split(/\s+/).filter(Boolean)
+  const step = (end - start) / Math.max(words.length, 1)
+  return words.map((word, index) => ({ time: start + index * step, text: word }))
+}
+
+// Supports plain LRC ("[01:02.50] line"), several timestamps per line, the [offset:ms] tag and
+// enhanced LRC word timing ("[01:02.50] <01:02.50> Hello <01:03.10> world").
+export function parseLrc(source: string): LyricLine[] {
+  let offset = 0
+  // shift moves word timestamps along with a line that is repeated under several timestamps
+  const entries: { time: number; shift: number; body: string }[] = []
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    const offsetTag = rawLine.match(/^\[offset:\s*([+-]?\d+)\]/i)
+    if (offsetTag) {
+      offset = Number(offsetTag[1]) / 1000
+      continue
+    }
+
+    const stamps = [...rawLine.matchAll(/\[(\d+:\d+(?:\.\d+)?)\]/g)]
+    if (stamps.length === 0) continue
+
+    const body = rawLine.slice(stamps[stamps.length - 1].index! + stamps[stamps.length - 1][0].length).trim()
+    const first = parseTimestamp(stamps[0][1])
+    for (const stamp of stamps) {
+      const time = parseTimestamp(stamp[1])
+      entries.push({ time, shift: time - first, body })
+    }
+  }
+
+  // A positive offset shows lyrics earlier
+  entries.sort((a, b) => a.time - b.time)
+  return entries
+    .map((entry, index) => {
+      const time = Math.max(0, entry.time - offset)
+      const next = entries[index + 1]
+      const end = next ? Math.max(time, next.time - offset) : time + DEFAULT_LINE_SECONDS
+
+      const timedWords = [...entry.body.matchAll(/<(\d+:\d+(?:\.\d+)?)>\s*([^<]*)/g)]
+        .map((match) => ({ time: parseTimestamp(match[1]) + entry.shift - offset, text: match[2].trim() }))
+        .filter((word) => word.text)
+      const text = timedWords.length > 0 ? timedWords.map((word) => word.text).join(" ") : entry.body
+
+      return { time, end, text, words: timedWords.length > 0 ? timedWords : spreadWords(text, time, end) }
+    })
+    .filter((line) => line.text)
+}
+
+// Supports cue timing and inline timestamp tags ("<00:01:02.500>word"); cue settings and styling are ignored
+export function parseWebVtt(source: string): LyricLine[] {
+  const lines: LyricLine[] = []
+
+  for (const block of source.replace(/\r/g, "").split(/\n{2,}/)) {
+    const rows = block.split("\n")
+    const timingIndex = rows.findIndex((row) => row.includes("-->"))
+    if (timingIndex === -1) continue
+
+    const [start, end] = rows[timingIndex].split("-->").map((part) => parseTimestamp(part.trim().split(/\s+/)[0]))
+    const body = rows.slice(timingIndex + 1).join(" ")
+
+    const timedWords = [...body.matchAll(/<(\d+:\d+(?::\d+)?(?:\.\d+)?)>([^<]*)/g)]
+      .map((match) => ({ time: parseTimestamp(match[1]), text: match[2].trim() }))
+      .filter((word) => word.text)
+    const leading = body
+      .split("<")[0]
+      .replace(/<[^>]+>/g, "")
+      .trim()
+    const words = leading ? [{ time: start, text: leading }, ...timedWords] : timedWords
+    const text = body
+      .replace(/<[^>]+>/g, "")
+      .replace(/\s+/g, " ")
+      .trim()
+    if (!text) continue
+
+    lines.push({ time: start, end, text, words: timedWords.length > 0 ? words : spreadWords(text, start, end) })
+  }
+
+  return lines.sort((a, b) => a.time - b.time)
+}
+
+export function parseLyrics(source: string): LyricLine[] {
+  return source.trimStart().startsWith("WEBVTT") ? parseWebVtt(source) : parseLrc(source)
+}
+
+// Index of the line being sung at `time`, or -1 before the first line and in gaps between lines
+export function findActiveLine(lines: LyricLine[], time: number): number {
+  for (let index = lines.length - 1; index >= 0; index--) {
+    if (lines[index].time <= time) {
+      return time < lines[index].end ? index : -1
+    }
+  }
+  return -1
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import { findMelodyNote, parseMelody, transposeMelody } from "@/lib/melody"
+
+describe("parseMelody", () => {
+  it("reads the notes, in time order", () => {
+    const notes = parseMelody(
+      JSON.stringify({
+        notes: [
+          { time: 2, duration: 0.5, midi: 64 },
+          { time: 1, duration: 1, midi: 62, lyric: "extra fields are dropped" },
+        ],
+      }),
+    )
+    expect(notes).toEqual([
+      { time: 1, duration: 1, midi: 62 },
+      { time: 2, duration: 0.5, midi: 64 },
+    ])
+  })
+
+  it("accepts a bare array of notes", () => {
+    expect(parseMelody('[{ "time": 0, "duration": 1, "midi": 60 }]')).toHaveLength(1)
+  })
+
+  it("skips notes that are incomplete or have no length", () => {
+    const notes = parseMelody(
+      JSON.stringify([
+        { time: 0, duration: 1, midi: 60 },
+        { time: 1, duration: 0, midi: 62 },
+        { time: 2, midi: 64 },
+        { time: 3, duration: 1, midi: "E4" },
+        null,
+      ]),
+    )
+    expect(notes).toEqual([{ time: 0, duration: 1, midi: 60 }])
+  })
+
+  it("rejects files without notes", () => {
+    expect(() => parseMelody("{}")).toThrow("Melody file has no notes")
+    expect(() => parseMelody("not json")).toThrow()
+  })
+})
+
+describe("findMelodyNote", () => {
+  const notes = parseMelody(
+    JSON.stringify([
+      { time: 1, duration: 1, midi: 60 },
+      { time: 3, duration: 0.5, midi: 62 },
+    ]),
+  )
+
+  it("finds the note sounding at a time, and none in the gaps", () => {
+    expect(findMelodyNote(notes, 0.5)).toBeNull()
+    expect(findMelodyNote(notes, 1)?.midi).toBe(60)
+    expect(findMelodyNote(notes, 1.99)?.midi).toBe(60)
+    expect(findMelodyNote(notes, 2)).toBeNull()
+    expect(findMelodyNote(notes, 3.25)?.midi).toBe(62)
+    expect(findMelodyNote(notes, 4)).toBeNull()
+  })
+})
+
+describe("transposeMelody", () => {
+  const notes = [{ time: 0, duration: 1, midi: 60 }]
+
+  it("moves every note by the key change", () => {
+    expect(transposeMelody(notes, 3)).toEqual([{ time: 0, duration: 1, midi: 63 }])
+    expect(transposeMelody(notes, -2)).toEqual([{ time: 0, duration: 1, midi: 58 }])
+  })
+
+  it("returns the same notes when the key is unchanged", () => {
+    expect(transposeMelody(notes, 0)).toBe(notes)
+  })
+})
@@ -0,0 +1,46 @@
+// Reference melodies for scoring. The catalog points each song at a JSON file listing the notes of the
+// vocal line against the backing track:
+//
+//   { "notes": [{ "time": 12.4, "duration": 0.6, "midi": 64 }, ...] }
+//
+// time and duration are in seconds, midi is the MIDI note number (60 is middle C).
+
+export interface MelodyNote {
+  time: number
+  duration: number
+  midi: number
+}
+
+export function parseMelody(source: string): MelodyNote[] {
+  const data = JSON.parse(source)
+  const notes: unknown[] = Array.isArray(data) ? data : data?.notes
+  if (!Array.isArray(notes)) {
+    throw new Error("Melody file has no notes")
+  }
+
+  return notes
+    .filter(
+      (note): note is MelodyNote =>
+        typeof note === "object" &&
+        note !== null &&
+        [(note as MelodyNote).time, (note as MelodyNote).duration, (note as MelodyNote).midi].every(Number.isFinite) &&
+        (note as MelodyNote).duration > 0,
+    )
+    .map(({ time, duration, midi }) => ({ time, duration, midi }))
+    .sort((a, b) => a.time - b.time)
+}
+
+// The note that should be sung at `time`, if any
+export function findMelodyNote(notes: MelodyNote[], time: number): MelodyNote | null {
+  for (let index = notes.length - 1; index >= 0; index--) {
+    if (notes[index].time <= time) {
+      return time < notes[index].time + notes[index].duration ? notes[index] : null
+    }
+  }
+  return null
+}
+
+// The melody as sung with the backing track moved by `semitones`
+export function transposeMelody(notes: MelodyNote[], semitones: number): MelodyNote[] {
+  return semitones === 0 ? notes : notes.map((note) => ({ ...note, midi: note.midi + semitones }))
+}
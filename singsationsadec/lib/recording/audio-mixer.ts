@@ -0,0 +1,166 @@
+import type { TrackAdjustment } from "@/lib/api"
+import type { Stem } from "@/lib/recording/stems"
+import { BackingTrackShifter, NO_ADJUSTMENT } from "@/lib/recording/track-adjustment"
+import { VocalEffects } from "@/lib/recording/vocal-effects"
+
+export type MixerSource = "backing" | "microphone"
+
+// Mixes the karaoke backing track and the microphone into one audio track for MediaRecorder.
+//
+// Recording the getUserMedia stream alone doesn't capture the music: echo cancellation strips the
+// backing track out of the mic signal. Instead the <video> element's audio is routed through Web
+// Audio and mixed digitally, so echo cancellation can stay on and keep the speakers out of the voice.
+//
+//   backing <video> ──► key/tempo shifter ──► backingGain ──┬──► speakers (so the singer hears it)
+//                                                           └──► recording destination
+//   microphone ──► voice ──┬──► effects ──┬──► monitorGain ──► speakers (off unless on headphones)
+//                          │              └─╮
+//                          └────────────────┴► micGain ──► recording destination
+//
+// micGain takes either the effects output or the dry voice, depending on whether effects are baked in.
+// For the trim editor, backingGain and micGain can also each feed a stream of their own (see createStemStreams).
+export class AudioMixer {
+  readonly context: AudioContext
+  readonly effects: VocalEffects
+  private readonly backingShifter: BackingTrackShifter
+  private backingAdjustment = NO_ADJUSTMENT
+  private readonly destination: MediaStreamAudioDestinationNode
+  private readonly gains: Record<MixerSource, GainNode>
+  private readonly voice: GainNode
+  private readonly monitor: GainNode
+  private backingElement: HTMLMediaElement | null = null
+  private microphoneSource: MediaStreamAudioSourceNode | null = null
+  private effectsBaked = false
+  private stemStreams: Record<Stem, MediaStream> | null = null
+
+  constructor() {
+    this.context = new AudioContext()
+    this.destination = this.context.createMediaStreamDestination()
+    this.gains = { backing: this.context.createGain(), microphone: this.context.createGain() }
+    this.voice = this.context.createGain()
+    this.monitor = this.context.createGain()
+    this.effects = new VocalEffects(this.context)
+    this.backingShifter = new BackingTrackShifter(this.context)
+
+    this.backingShifter.output.connect(this.gains.backing)
+    this.gains.backing.connect(this.destination)
+    this.gains.backing.connect(this.context.destination)
+    this.gains.microphone.connect(this.destination)
+
+    this.voice.connect(this.effects.input)
+    this.voice.connect(this.gains.microphone)
+    this.monitor.gain.value = 0
+    this.effects.output.connect(this.monitor).connect(this.context.destination)
+  }
+
+  // A media element can only ever be attached to one AudioContext, and once it is, its sound only
+  // comes out through the graph. The element must be CORS-enabled or Web Audio receives silence.
+  connectBackingTrack(element: HTMLMediaElement): void {
+    if (this.backingElement === element) return
+    if (this.backingElement) {
+      throw new Error("AudioMixer already has a backing track")
+    }
+
+    this.context.createMediaElementSource(element).connect(this.backingShifter.input)
+    this.backingElement = element
+    this.backingShifter.apply(element, this.backingAdjustment)
+  }
+
+  adjustBackingTrack(adjustment: TrackAdjustment): void {
+    this.backingAdjustment = adjustment
+    if (this.backingElement) {
+      this.backingShifter.apply(this.backingElement, adjustment)
+    }
+  }
+
+  get hasMicrophone(): boolean {
+    return this.microphoneSource !== null
+  }
+
+  setMicrophone(stream: MediaStream): void {
+    this.microphoneSource?.disconnect()
+    this.microphoneSource = null
+
+    if (stream.getAudioTracks().length > 0) {
+      this.microphoneSource = this.context.createMediaStreamSource(stream)
+      this.microphoneSource.connect(this.voice)
+    }
+  }
+
+  // Whether the recording gets the processed voice or the dry one. The effects are heard in the
+  // monitor either way.
+  setEffectsBaked(baked: boolean): void {
+    if (baked === this.effectsBaked) return
+    const [from, to] = baked ? [this.voice, this.effects.output] : [this.effects.output, this.voice]
+    to.connect(this.gains.microphone)
+    from.disconnect(this.gains.microphone)
+    this.effectsBaked = baked
+  }
+
+  // Sends the processed voice to the speakers so the singer can hear themselves. Only safe with
+  // headphones: through speakers it would be picked up again by the microphone and feed back.
+  setMonitorLevel(value: number): void {
+    this.monitor.gain.setTargetAtTime(value, this.context.currentTime, 0.02)
+  }
+
+  setGain(source: MixerSource, value: number): void {
+    // Ramp briefly rather than jumping, which would click
+    this.gains[source].gain.setTargetAtTime(value, this.context.currentTime, 0.02)
+  }
+
+  // A tap on the voice for pitch detection. It hangs off the dry voice, before reverb and echo smear
+  // the pitch, so it keeps working when the microphone is swapped and doesn't feed anything back into the mix.
+  createMicrophoneAnalyser(fftSize = 2048): AnalyserNode {
+    const analyser = this.context.createAnalyser()
+    analyser.fftSize = fftSize
+    this.voice.connect(analyser)
+    return analyser
+  }
+
+  // How long after the graph plays something the singer hears it, in seconds. outputLatency isn't
+  // reported everywhere, in which case only the context's own processing latency is known.
+  get outputLatency(): number {
+    return (this.context.outputLatency || 0) + (this.context.baseLatency || 0)
+  }
+
+  // A short tick for the count-in. It goes to the speakers only, never into the recording.
+  playClick(accent = false): void {
+    const oscillator = this.context.createOscillator()
+    const envelope = this.context.createGain()
+    const start = this.context.currentTime
+
+    oscillator.frequency.value = accent ? 1760 : 880
+    envelope.gain.setValueAtTime(0.4, start)
+    envelope.gain.exponentialRampToValueAtTime(0.001, start + 0.08)
+    oscillator.connect(envelope).connect(this.context.destination)
+    oscillator.start(start)
+    oscillator.stop(start + 0.1)
+  }
+
+  // Browsers start AudioContexts suspended until a user gesture; call this from a click handler
+  resume(): Promise<void> {
+    return this.context.state === "suspended" ? this.context.resume() : Promise.resolve()
+  }
+
+  // The voice and the backing track on their own, after their volume sliders, for recording stems
+  createStemStreams(): Record<Stem, MediaStream> {
+    if (!this.stemStreams) {
+      const voice = this.context.createMediaStreamDestination()
+      const backing = this.context.createMediaStreamDestination()
+      this.gains.microphone.connect(voice)
+      this.gains.backing.connect(backing)
+      this.stemStreams = { voice: voice.stream, backing: backing.stream }
+    }
+    return this.stemStreams
+  }
+
+  // The camera's video tracks plus the mixed audio, ready for MediaRecorder
+  createRecordingStream(videoStream: MediaStream): MediaStream {
+    return new MediaStream([...videoStream.getVideoTracks(), ...this.destination.stream.getAudioTracks()])
+  }
+
+  close(): Promise<void> {
+    this.microphoneSource?.disconnect()
+    return this.context.close()
+  }
+}
@@ -0,0 +1,244 @@
+// "audio" is for singers recording without a camera: the song artwork and a live waveform of their voice
+export type CompositorLayout = "pip" | "split" | "camera" | "audio"
+
+export interface TitleCard {
+  title: string
+  artist: string
+}
+
+export interface AudioVisual extends TitleCard {
+  artwork: HTMLImageElement | null // must be same-origin or CORS-enabled, or the canvas can't be recorded
+}
+
+const WIDTH = 1280
+const HEIGHT = 720
+const TITLE_CARD_MS = 4000
+const TITLE_FADE_MS = 600
+
+// Draws the singer's camera and the karaoke video into one canvas so both end up in the recording.
+// Frames are drawn on a timer rather than requestAnimationFrame, which stops in background tabs and
+// would freeze the recording if the singer switched away.
+export class VideoCompositor {
+  readonly canvas: HTMLCanvasElement
+  private readonly context: CanvasRenderingContext2D
+  private camera: HTMLVideoElement | null = null
+  private karaoke: HTMLVideoElement | null = null
+  private layout: CompositorLayout = "pip"
+  private titleCard: TitleCard | null = null
+  private audioVisual: AudioVisual | null = null
+  private waveform: { analyser: AnalyserNode; samples: Float32Array<ArrayBuffer> } | null = null
+  private titleCardStartedAt: number | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  // The preview the singer sees is mirrored, so the recording is too unless told otherwise
+  constructor(private readonly mirrorCamera = true) {
+    this.canvas = document.createElement("canvas")
+    this.canvas.width = WIDTH
+    this.canvas.height = HEIGHT
+
+    const context = this.canvas.getContext("2d")
+    if (!context) {
+      throw new Error("Canvas 2D is not supported")
+    }
+    this.context = context
+  }
+
+  setSources(camera: HTMLVideoElement | null, karaoke: HTMLVideoElement | null): void {
+    this.camera = camera
+    this.karaoke = karaoke
+  }
+
+  setLayout(layout: CompositorLayout): void {
+    this.layout = layout
+  }
+
+  setTitleCard(titleCard: TitleCard | null): void {
+    this.titleCard = titleCard
+  }
+
+  setAudioVisual(audioVisual: AudioVisual | null): void {
+    this.audioVisual = audioVisual
+  }
+
+  setWaveformSource(analyser: AnalyserNode | null): void {
+    this.waveform = analyser ? { analyser, samples: new Float32Array(analyser.fftSize) } : null
+  }
+
+  // Shows the title card (if one is set) from now for a few seconds; call when recording starts
+  playTitleCard(): void {
+    this.titleCardStartedAt = performance.now()
+  }
+
+  start(fps = 30): void {
+    if (this.timer) return
+    this.timer = setInterval(() => this.draw(), 1000 / fps)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  captureStream(fps = 30): MediaStream {
+    return this.canvas.captureStream(fps)
+  }
+
+  private draw(): void {
+    const ctx = this.context
+    ctx.fillStyle = "#000"
+    ctx.fillRect(0, 0, WIDTH, HEIGHT)
+
+    const karaoke = isReady(this.karaoke) ? this.karaoke : null
+    const camera = isReady(this.camera) ? this.camera : null
+    const layout = karaoke || this.layout === "audio" ? this.layout : "camera"
+
+    if (layout === "audio") {
+      this.drawAudioVisual()
+    } else if (layout === "split") {
+      if (camera) this.drawCover(camera, 0, 0, WIDTH / 2, HEIGHT, this.mirrorCamera)
+      this.drawCover(karaoke!, WIDTH / 2, 0, WIDTH / 2, HEIGHT)
+    } else if (layout === "pip") {
+      this.drawCover(karaoke!, 0, 0, WIDTH, HEIGHT)
+      if (camera) {
+        const width = WIDTH * 0.32
+        const height = (width * 9) / 16
+        const x = WIDTH - width - 24
+        const y = HEIGHT - height - 24
+        ctx.fillStyle = "#fff"
+        ctx.fillRect(x - 4, y - 4, width + 8, height + 8)
+        this.drawCover(camera, x, y, width, height, this.mirrorCamera)
+      }
+    } else if (camera) {
+      this.drawCover(camera, 0, 0, WIDTH, HEIGHT, this.mirrorCamera)
+    }
+
+    this.drawTitleCard()
+  }
+
+  // Like CSS object-fit: cover, cropping the source to fill the box
+  private drawCover(
+    source: HTMLVideoElement | HTMLImageElement,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    mirror = false,
+  ) {
+    const ctx = this.context
+    const [naturalWidth, naturalHeight] =
+      source instanceof HTMLVideoElement
+        ? [source.videoWidth, source.videoHeight]
+        : [source.naturalWidth, source.naturalHeight]
+    const scale = Math.max(width / naturalWidth, height / naturalHeight)
+    const sourceWidth = width / scale
+    const sourceHeight = height / scale
+    const sourceX = (naturalWidth - sourceWidth) / 2
+    const sourceY = (naturalHeight - sourceHeight) / 2
+
+    ctx.save()
+    if (mirror) {
+      ctx.translate(x + width, y)
+      ctx.scale(-1, 1)
+      ctx.drawImage(source, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, width, height)
+    } else {
+      ctx.drawImage(source, sourceX, sourceY, sourceWidth, sourceHeight, x, y, width, height)
+    }
+    ctx.restore()
+  }
+
+  // Artwork on the left, the song on the right and the singer's waveform along the bottom. Songs without
+  // artwork get a plain tile with a note on it.
+  private drawAudioVisual(): void {
+    const ctx = this.context
+    const background = ctx.createLinearGradient(0, 0, WIDTH, HEIGHT)
+    background.addColorStop(0, "#1f2937")
+    background.addColorStop(1, "#92400e")
+    ctx.fillStyle = background
+    ctx.fillRect(0, 0, WIDTH, HEIGHT)
+
+    const size = 360
+    const artX = 120
+    const artY = 80
+    const artwork = this.audioVisual?.artwork
+    if (artwork?.complete && artwork.naturalWidth > 0) {
+      this.drawCover(artwork, artX, artY, size, size)
+    } else {
+      const tile = ctx.createLinearGradient(artX, artY, artX + size, artY + size)
+      tile.addColorStop(0, "#facc15")
+      tile.addColorStop(1, "#d97706")
+      ctx.fillStyle = tile
+      ctx.fillRect(artX, artY, size, size)
+      ctx.fillStyle = "#fff"
+      ctx.textAlign = "center"
+      ctx.textBaseline = "middle"
+      ctx.font = "180px sans-serif"
+      ctx.fillText("♪", artX + size / 2, artY + size / 2)
+    }
+
+    if (this.audioVisual) {
+      ctx.fillStyle = "#fff"
+      ctx.textAlign = "left"
+      ctx.textBaseline = "middle"
+      ctx.font = "bold 52px sans-serif"
+      ctx.fillText(this.audioVisual.title, artX + size + 60, artY + size / 2 - 30, WIDTH - artX - size - 140)
+      ctx.font = "32px sans-serif"
+      ctx.fillText(this.audioVisual.artist, artX + size + 60, artY + size / 2 + 30, WIDTH - artX - size - 140)
+    }
+
+    const top = 500
+    const height = 160
+    const left = 80
+    const width = WIDTH - 160
+    ctx.strokeStyle = "#fbbf24"
+    ctx.lineWidth = 3
+    ctx.beginPath()
+    if (this.waveform) {
+      const { analyser, samples } = this.waveform
+      analyser.getFloatTimeDomainData(samples)
+      samples.forEach((sample, index) => {
+        const x = left + (index / (samples.length - 1)) * width
+        // Voices rarely get near full scale, so the wave is boosted to stay visible
+        const y = top + height / 2 - Math.max(-1, Math.min(1, sample * 4)) * (height / 2)
+        if (index === 0) ctx.moveTo(x, y)
+        else ctx.lineTo(x, y)
+      })
+    } else {
+      ctx.moveTo(left, top + height / 2)
+      ctx.lineTo(left + width, top + height / 2)
+    }
+    ctx.stroke()
+  }
+
+  private drawTitleCard(): void {
+    if (!this.titleCard || this.titleCardStartedAt === null) return
+
+    const elapsed = performance.now() - this.titleCardStartedAt
+    if (elapsed > TITLE_CARD_MS) return
+
+    const ctx = this.context
+    ctx.save()
+    ctx.globalAlpha = Math.min(1, (TITLE_CARD_MS - elapsed) / TITLE_FADE_MS)
+
+    const gradient = ctx.createLinearGradient(0, 0, WIDTH, HEIGHT)
+    gradient.addColorStop(0, "#facc15")
+    gradient.addColorStop(1, "#d97706")
+    ctx.fillStyle = gradient
+    ctx.fillRect(0, 0, WIDTH, HEIGHT)
+
+    ctx.fillStyle = "#fff"
+    ctx.textAlign = "center"
+    ctx.textBaseline = "middle"
+    ctx.font = "bold 64px sans-serif"
+    ctx.fillText(this.titleCard.title, WIDTH / 2, HEIGHT / 2 - 40, WIDTH - 160)
+    ctx.font = "36px sans-serif"
+    ctx.fillText(`by ${this.titleCard.artist}`, WIDTH / 2, HEIGHT / 2 + 30, WIDTH - 160)
+    ctx.font = "24px sans-serif"
+    ctx.fillText("Sing Sation", WIDTH / 2, HEIGHT - 60)
+    ctx.restore()
+  }
+}
+
+const isReady = (video: HTMLVideoElement | null): video is HTMLVideoElement =>
+  !!video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0
@@ -0,0 +1,58 @@
+export type InputKind = "camera" | "microphone"
+
+// Chosen devices, remembered per browser. Device ids are only stable for the origin they were issued to,
+// so there's no point keeping them with the account.
+export interface InputPreferences {
+  cameraId?: string
+  microphoneId?: string
+}
+
+const STORAGE_KEY = "input_devices"
+
+export function loadInputPreferences(): InputPreferences {
+  if (typeof window === "undefined") return {}
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
+
+// null goes back to the browser's default device
+export function saveInputPreference(kind: InputKind, deviceId: string | null): void {
+  const preferences = loadInputPreferences()
+  const key = kind === "camera" ? "cameraId" : "microphoneId"
+  if (deviceId) {
+    preferences[key] = deviceId
+  } else {
+    delete preferences[key]
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences))
+}
+
+// A remembered device is only preferred ("ideal"), so a camera that's since been unplugged falls back to
+// another one instead of failing. A device picked from the list right now is required ("exact").
+export function cameraConstraints(deviceId?: string | null, exact = false): MediaTrackConstraints {
+  return {
+    width: { ideal: 1280 },
+    height: { ideal: 720 },
+    ...(deviceId ? { deviceId: exact ? { exact: deviceId } : { ideal: deviceId } } : { facingMode: "user" }),
+  }
+}
+
+export function microphoneConstraints(deviceId?: string | null, exact = false): MediaTrackConstraints {
+  return {
+    echoCancellation: true,
+    noiseSuppression: true,
+    ...(deviceId && { deviceId: exact ? { exact: deviceId } : { ideal: deviceId } }),
+  }
+}
+
+// Labels are blank until the user has granted camera and microphone access
+export async function listInputDevices(): Promise<Record<InputKind, MediaDeviceInfo[]>> {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return {
+    camera: devices.filter((device) => device.kind === "videoinput" && device.deviceId),
+    microphone: devices.filter((device) => device.kind === "audioinput" && device.deviceId),
+  }
+}
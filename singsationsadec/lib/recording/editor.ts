@@ -0,0 +1,176 @@
+import type { RecordingSync } from "@/lib/api"
+import { pickMimeType, VIDEO_MIME_TYPES } from "@/lib/recording/recorder-formats"
+import type { TakeStems } from "@/lib/recording/stems"
+
+// What the trim editor does to a take before it's bought: keep start to end (seconds into the take)
+// and scale the voice and the backing track. Gains of 1 keep the balance the take was recorded with.
+export interface TakeEdit {
+  start: number
+  end: number
+  voiceGain: number
+  trackGain: number
+}
+
+export const MAX_STEM_GAIN = 1.5
+// Shorter than this and there's nothing left worth buying
+export const MIN_EDIT_SECONDS = 3
+
+export const uneditedTake = (duration: number): TakeEdit => ({ start: 0, end: duration, voiceGain: 1, trackGain: 1 })
+
+export const isEdited = (edit: TakeEdit, duration: number) =>
+  edit.start > 0 || edit.end < duration || edit.voiceGain !== 1 || edit.trackGain !== 1
+
+// The sync metadata of the trimmed take: the track now starts that much earlier into it. If the cut
+// starts after the track did, there's no start to line up with any more.
+export function trimSync(sync: RecordingSync | undefined, edit: TakeEdit): RecordingSync | undefined {
+  if (!sync) return undefined
+  const trackStartMs = Math.round(sync.trackStartMs - edit.start * 1000)
+  return trackStartMs >= 0 ? { ...sync, trackStartMs } : undefined
+}
+
+const waitFor = (target: EventTarget, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    target.addEventListener(event, () => resolve(), { once: true })
+    target.addEventListener("error", () => reject(new Error(`Failed to load media (${event})`)), { once: true })
+  })
+
+// Loads a video element and returns its length. MediaRecorder doesn't write the length into WebM
+// files, so the element reports Infinity until it has been made to look for the end.
+export async function loadMedia(element: HTMLMediaElement, url: string): Promise<number> {
+  const loaded = waitFor(element, "loadedmetadata")
+  element.preload = "auto"
+  element.src = url
+  await loaded
+
+  if (Number.isFinite(element.duration)) return element.duration
+
+  const found = waitFor(element, "durationchange")
+  element.currentTime = 1e101
+  await found
+  const duration = element.duration
+  element.currentTime = 0
+  return Number.isFinite(duration) ? duration : 0
+}
+
+// Decoding only needs to be good enough to draw, so it's done at a low sample rate
+const WAVEFORM_SAMPLE_RATE = 22050
+
+// The loudest sample in each of `points` equal slices of the audio, 0 to 1. Browsers decode the audio
+// out of WebM and MP4 video as well as audio files; rejects if this one can't.
+export async function loadWaveform(source: Blob, points: number): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE)
+  const buffer = await context.decodeAudioData(await source.arrayBuffer())
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index))
+  const peaks = new Float32Array(points)
+  const sliceLength = buffer.length / points
+
+  for (let point = 0; point < points; point++) {
+    const from = Math.floor(point * sliceLength)
+    const to = Math.min(buffer.length, Math.floor((point + 1) * sliceLength))
+    let peak = 0
+    for (const channel of channels) {
+      for (let index = from; index < to; index++) peak = Math.max(peak, Math.abs(channel[index]))
+    }
+    peaks[point] = Math.min(1, peak)
+  }
+  return peaks
+}
+
+// Produces the edited take by playing the original through once in real time and recording the
+// result: the picture is redrawn onto a canvas, and the sound is either the two stems at their new
+// levels or, for takes without stems, the take's own soundtrack. Real time is the only way browsers
+// can re-encode video, so this takes as long as the trimmed take.
+export async function renderEdit(
+  videoUrl: string,
+  stems: TakeStems | undefined,
+  edit: TakeEdit,
+  onProgress?: (fraction: number) => void,
+): Promise<Blob> {
+  const video = document.createElement("video")
+  video.playsInline = true
+  video.muted = Boolean(stems)
+  const context = new AudioContext()
+  let frame = 0
+
+  try {
+    await loadMedia(video, videoUrl)
+    const seeked = waitFor(video, "seeked")
+    video.currentTime = edit.start
+    await seeked
+
+    const canvas = document.createElement("canvas")
+    canvas.width = video.videoWidth || 1280
+    canvas.height = video.videoHeight || 720
+    const canvasContext = canvas.getContext("2d")
+    if (!canvasContext) throw new Error("Canvas 2D is not supported")
+
+    const destination = context.createMediaStreamDestination()
+    let sources: AudioBufferSourceNode[] = []
+    if (stems) {
+      sources = await Promise.all(
+        (
+          [
+            [stems.voice, edit.voiceGain],
+            [stems.backing, edit.trackGain],
+          ] as const
+        ).map(async ([blob, level]) => {
+          const source = context.createBufferSource()
+          source.buffer = await context.decodeAudioData(await blob.arrayBuffer())
+          const gain = context.createGain()
+          gain.gain.value = level
+          source.connect(gain).connect(destination)
+          return source
+        }),
+      )
+    } else {
+      context.createMediaElementSource(video).connect(destination)
+    }
+
+    const stream = new MediaStream([
+      ...canvas.captureStream(30).getVideoTracks(),
+      ...destination.stream.getAudioTracks(),
+    ])
+    const mimeType = pickMimeType(VIDEO_MIME_TYPES)
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+    const chunks: Blob[] = []
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+    const stopped = new Promise<Blob>((resolve, reject) => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || "video/webm" }))
+      recorder.onerror = () => reject(new Error("Recording the edit failed"))
+    })
+
+    await context.resume()
+    const started = waitFor(recorder, "start")
+    recorder.start(1000)
+    await started
+    await video.play()
+    sources.forEach((source) => source.start(context.currentTime, edit.start))
+
+    const length = edit.end - edit.start
+    const draw = () => {
+      canvasContext.drawImage(video, 0, 0, canvas.width, canvas.height)
+      onProgress?.(Math.min(1, (video.currentTime - edit.start) / length))
+
+      if (video.currentTime >= edit.end || video.ended) {
+        video.pause()
+        sources.forEach((source) => source.stop())
+        recorder.stop()
+        return
+      }
+      frame = requestAnimationFrame(draw)
+    }
+    draw()
+
+    const blob = await stopped
+    stream.getTracks().forEach((track) => track.stop())
+    return blob
+  } finally {
+    cancelAnimationFrame(frame)
+    video.pause()
+    video.removeAttribute("src")
+    video.load()
+    context.close().catch(() => undefined)
+  }
+}
@@ -0,0 +1,76 @@
+// IndexedDB database for recordings that live in this browser until they're uploaded. localStorage
+// can't hold video: it only stores strings and is capped at a few megabytes.
+const DB_NAME = "singsations-recordings"
+const DB_VERSION = 2
+
+export const TAKES_STORE = "takes"
+// Recordings in progress and the chunks written so far, kept until the finished take is saved
+export const BUFFERS_STORE = "recordingBuffers"
+export const CHUNKS_STORE = "recordingChunks"
+
+let database: Promise<IDBDatabase> | null = null
+
+export function openLocalDb(): Promise<IDBDatabase> {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(TAKES_STORE)) {
+        db.createObjectStore(TAKES_STORE, { keyPath: "id" }).createIndex("songId", "songId")
+      }
+      if (!db.objectStoreNames.contains(BUFFERS_STORE)) {
+        db.createObjectStore(BUFFERS_STORE, { keyPath: "id" }).createIndex("songId", "songId")
+      }
+      if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+        db.createObjectStore(CHUNKS_STORE, { keyPath: ["bufferId", "index"] })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }).catch((error) => {
+    // Let the next call try again, e.g. after the user closes another tab that was blocking an upgrade
+    database = null
+    throw error
+  })
+
+  return database
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Runs `action` against one store and resolves once the transaction has committed
+export function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  return withTransaction([storeName], mode, (transaction) => action(transaction.objectStore(storeName)))
+}
+
+// The same across several stores, which are then updated all together or not at all
+export async function withTransaction<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  action: (transaction: IDBTransaction) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openLocalDb()
+  const transaction = db.transaction(storeNames, mode)
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"))
+  })
+
+  const [result] = await Promise.all([requestResult(action(transaction)), committed])
+  return result
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+import { detectPitch, frequencyToMidi, midiToNoteName } from "@/lib/recording/pitch"
+
+const SAMPLE_RATE = 44100
+
+// A block the size the recording screen analyses, with the given harmonics as [multiple, level]
+function tone(frequency: number, harmonics: [number, number][] = [[1, 0.5]], length = 2048) {
+  const buffer = new Float32Array(length)
+  for (let index = 0; index < length; index++) {
+    for (const [multiple, level] of harmonics) {
+      buffer[index] += level * Math.sin((2 * Math.PI * frequency * multiple * index) / SAMPLE_RATE)
+    }
+  }
+  return buffer
+}
+
+describe("detectPitch", () => {
+  it.each([110, 196, 261.63, 440, 880])("finds a %s Hz sine wave", (frequency) => {
+    const estimate = detectPitch(tone(frequency), SAMPLE_RATE)
+    expect(estimate).not.toBeNull()
+    expect(estimate!.frequency).toBeCloseTo(frequency, 0)
+    expect(estimate!.clarity).toBeGreaterThan(0.9)
+  })
+
+  it("finds the fundamental of a voice-like tone with strong overtones", () => {
+    const estimate = detectPitch(
+      tone(196, [
+        [1, 0.3],
+        [2, 0.4],
+        [3, 0.2],
+        [4, 0.1],
+      ]),
+      SAMPLE_RATE,
+    )
+    expect(estimate!.frequency).toBeCloseTo(196, 0)
+  })
+
+  it("treats silence and very quiet input as no pitch", () => {
+    expect(detectPitch(new Float32Array(2048), SAMPLE_RATE)).toBeNull()
+    expect(detectPitch(tone(220, [[1, 0.005]]), SAMPLE_RATE)).toBeNull()
+  })
+
+  it("ignores hum below the singing range", () => {
+    expect(detectPitch(tone(50), SAMPLE_RATE)).toBeNull()
+  })
+})
+
+describe("frequencyToMidi", () => {
+  it("maps concert A and middle C", () => {
+    expect(frequencyToMidi(440)).toBe(69)
+    expect(frequencyToMidi(261.63)).toBeCloseTo(60, 2)
+  })
+
+  it("is a semitone per twelfth root of two", () => {
+    expect(frequencyToMidi(440 * Math.pow(2, 1 / 12))).toBeCloseTo(70, 6)
+    expect(frequencyToMidi(220)).toBeCloseTo(57, 6)
+  })
+})
+
+describe("midiToNoteName", () => {
+  it("names notes with their octave", () => {
+    expect(midiToNoteName(60)).toBe("C4")
+    expect(midiToNoteName(69)).toBe("A4")
+    expect(midiToNoteName(61.4)).toBe("C#4")
+    expect(midiToNoteName(59.6)).toBe("C4")
+    expect(midiToNoteName(23)).toBe("B0")
+  })
+})
@@ -0,0 +1,114 @@
+export interface PitchEstimate {
+  frequency: number // Hz
+  clarity: number // 0-1, how periodic the signal is; low values are breath and noise
+}
+
+// The range of a singing voice, with some headroom either side
+const MIN_FREQUENCY = 70
+const MAX_FREQUENCY = 1100
+// Below this RMS level the mic is treated as silent
+const SILENCE_RMS = 0.01
+
+// YIN pitch detection (de Cheveigné & Kawahara, 2002) on one block of time-domain samples.
+// Returns null for silence or unpitched sound.
+export function detectPitch(buffer: Float32Array, sampleRate: number, threshold = 0.15): PitchEstimate | null {
+  let power = 0
+  for (let i = 0; i < buffer.length; i++) {
+    power += buffer[i] * buffer[i]
+  }
+  if (Math.sqrt(power / buffer.length) < SILENCE_RMS) {
+    return null
+  }
+
+  const size = Math.floor(buffer.length / 2)
+  const minTau = Math.floor(sampleRate / MAX_FREQUENCY)
+  const maxTau = Math.min(size - 1, Math.ceil(sampleRate / MIN_FREQUENCY))
+
+  // Difference function, then the cumulative mean normalised difference in place
+  const difference = new Float32Array(maxTau + 1)
+  for (let tau = 1; tau <= maxTau; tau++) {
+    let sum = 0
+    for (let i = 0; i < size; i++) {
+      const delta = buffer[i] - buffer[i + tau]
+      sum += delta * delta
+    }
+    difference[tau] = sum
+  }
+
+  difference[0] = 1
+  let runningSum = 0
+  for (let tau = 1; tau <= maxTau; tau++) {
+    runningSum += difference[tau]
+    difference[tau] = runningSum === 0 ? 1 : (difference[tau] * tau) / runningSum
+  }
+
+  // First dip under the threshold, followed down to its local minimum
+  let tau = minTau
+  while (tau <= maxTau && difference[tau] >= threshold) tau++
+  if (tau > maxTau) {
+    return null
+  }
+  while (tau + 1 <= maxTau && difference[tau + 1] < difference[tau]) tau++
+
+  // Parabolic interpolation around the minimum for sub-sample accuracy
+  let betterTau = tau
+  if (tau > 1 && tau < maxTau) {
+    const [previous, current, next] = [difference[tau - 1], difference[tau], difference[tau + 1]]
+    const denominator = 2 * (2 * current - next - previous)
+    if (denominator !== 0) {
+      betterTau = tau + (next - previous) / denominator
+    }
+  }
+
+  const frequency = sampleRate / betterTau
+  if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) {
+    return null
+  }
+
+  return { frequency, clarity: 1 - difference[tau] }
+}
+
+// MIDI note numbers as fractional semitones: A4 (440 Hz) is 69, middle C is 60
+export const frequencyToMidi = (frequency: number) => 69 + 12 * Math.log2(frequency / 440)
+
+const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"]
+
+export const midiToNoteName = (midi: number) => {
+  const rounded = Math.round(midi)
+  return `${NOTE_NAMES[((rounded % 12) + 12) % 12]}${Math.floor(rounded / 12) - 1}`
+}
+
+// Samples the microphone through an AnalyserNode at a fixed rate. Each reading is stamped with the
+// backing track position, so it can be lined up against the song's reference melody.
+export class PitchTracker {
+  private readonly buffer: Float32Array<ArrayBuffer>
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  constructor(
+    private readonly analyser: AnalyserNode,
+    private readonly onSample: (sample: { midi: number | null; clarity: number }) => void,
+  ) {
+    this.buffer = new Float32Array(analyser.fftSize)
+  }
+
+  start(intervalMs = 50): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      this.analyser.getFloatTimeDomainData(this.buffer)
+      const estimate = detectPitch(this.buffer, this.analyser.context.sampleRate)
+      this.onSample(
+        estimate
+          ? { midi: frequencyToMidi(estimate.frequency), clarity: estimate.clarity }
+          : { midi: null, clarity: 0 },
+      )
+    }, intervalMs)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
@@ -0,0 +1,6 @@
+// Formats MediaRecorder is asked for, best first. Chrome and Firefox record WebM; Safari only does MP4.
+export const VIDEO_MIME_TYPES = ["video/webm;codecs=vp8,opus", "video/webm;codecs=vp9,opus", "video/webm", "video/mp4"]
+export const AUDIO_MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4"]
+
+// The first type this browser can record, or "" to let it pick its own default
+export const pickMimeType = (types: string[]) => types.find((type) => MediaRecorder.isTypeSupported(type)) ?? ""
@@ -0,0 +1,97 @@
+import type { RecordingSync, TrackAdjustment } from "@/lib/api"
+import { BUFFERS_STORE, CHUNKS_STORE, withStore, withTransaction } from "@/lib/recording/local-db"
+
+// A take being recorded. MediaRecorder's chunks are written to IndexedDB as they arrive, so if the tab
+// crashes, is closed or the phone locks partway through, what was sung so far can be put back together
+// the next time the recording screen opens. The buffer is deleted once the finished take is saved.
+export interface RecordingBuffer {
+  id: string
+  songId: string
+  mimeType: string
+  startedAt: string
+  updatedAt: string // when the last chunk was written
+  chunkCount: number
+  sync?: RecordingSync
+  trackAdjustment?: TrackAdjustment
+}
+
+interface BufferedChunk {
+  bufferId: string
+  index: number
+  blob: Blob
+}
+
+// A buffer that was written to this recently may still be recording in another tab
+const LIVE_BUFFER_MS = 15 * 1000
+
+const chunkRange = (bufferId: string) => IDBKeyRange.bound([bufferId, 0], [bufferId, Infinity])
+
+// Read-modify-write of a buffer record inside the caller's transaction
+function updateBuffer(store: IDBObjectStore, id: string, update: (buffer: RecordingBuffer) => RecordingBuffer) {
+  const request = store.get(id)
+  request.addEventListener("success", () => {
+    if (request.result) store.put(update(request.result))
+  })
+  return request
+}
+
+export async function startBuffer(
+  buffer: Pick<RecordingBuffer, "id" | "songId" | "mimeType" | "trackAdjustment">,
+): Promise<void> {
+  const now = new Date().toISOString()
+  await withStore(BUFFERS_STORE, "readwrite", (store) =>
+    store.put({ ...buffer, startedAt: now, updatedAt: now, chunkCount: 0 } satisfies RecordingBuffer),
+  )
+}
+
+export async function appendChunk(bufferId: string, index: number, blob: Blob): Promise<void> {
+  await withTransaction([BUFFERS_STORE, CHUNKS_STORE], "readwrite", (transaction) => {
+    transaction.objectStore(CHUNKS_STORE).put({ bufferId, index, blob } satisfies BufferedChunk)
+    return updateBuffer(transaction.objectStore(BUFFERS_STORE), bufferId, (buffer) => ({
+      ...buffer,
+      updatedAt: new Date().toISOString(),
+      chunkCount: Math.max(buffer.chunkCount, index + 1),
+    }))
+  })
+}
+
+export async function setBufferSync(bufferId: string, sync: RecordingSync): Promise<void> {
+  await withStore(BUFFERS_STORE, "readwrite", (store) =>
+    updateBuffer(store, bufferId, (buffer) => ({ ...buffer, sync })),
+  )
+}
+
+export async function discardBuffer(bufferId: string): Promise<void> {
+  await withTransaction([BUFFERS_STORE, CHUNKS_STORE], "readwrite", (transaction) => {
+    transaction.objectStore(CHUNKS_STORE).delete(chunkRange(bufferId))
+    return transaction.objectStore(BUFFERS_STORE).delete(bufferId)
+  })
+}
+
+// Buffers for this song that stopped receiving chunks without being finished
+export async function findInterruptedBuffers(songId: string): Promise<RecordingBuffer[]> {
+  const buffers = await withStore<RecordingBuffer[]>(BUFFERS_STORE, "readonly", (store) =>
+    store.index("songId").getAll(songId),
+  )
+  const stale = buffers.filter((buffer) => Date.now() - new Date(buffer.updatedAt).getTime() > LIVE_BUFFER_MS)
+
+  // Nothing was captured before these were cut off, so there's nothing to offer back
+  await Promise.all(stale.filter((buffer) => buffer.chunkCount === 0).map((buffer) => discardBuffer(buffer.id)))
+  return stale.filter((buffer) => buffer.chunkCount > 0)
+}
+
+// Joins the saved chunks back into a playable file. The last moments before the interruption are lost,
+// and some players can't seek in the result because the recorder never wrote the final duration.
+export async function recoverBuffer(buffer: RecordingBuffer): Promise<{ blob: Blob; duration: number }> {
+  const chunks = await withStore<BufferedChunk[]>(CHUNKS_STORE, "readonly", (store) =>
+    store.getAll(chunkRange(buffer.id)),
+  )
+
+  return {
+    blob: new Blob(
+      chunks.map((chunk) => chunk.blob),
+      { type: buffer.mimeType },
+    ),
+    duration: (new Date(buffer.updatedAt).getTime() - new Date(buffer.startedAt).getTime()) / 1000,
+  }
+}
@@ -0,0 +1,124 @@
+import { readFileSync } from "fs"
+import path from "path"
+import { describe, expect, it } from "vitest"
+import { parseMelody, transposeMelody, type MelodyNote } from "@/lib/melody"
+import { scorePerformance, type PitchSample } from "@/lib/recording/scoring"
+
+// The reference melody the catalog ships for Amazing Grace
+const melody = parseMelody(readFileSync(path.join(process.cwd(), "public", "melodies", "amazing-grace.json"), "utf-8"))
+
+const SAMPLE_INTERVAL = 0.05
+const songEnd = melody[melody.length - 1].time + melody[melody.length - 1].duration
+
+// Readings every 50 ms across the song, the way PitchTracker takes them
+function perform(sing: (time: number, note: MelodyNote | null) => number | null, from = 0, to = songEnd) {
+  const samples: PitchSample[] = []
+  for (let index = 0; from + index * SAMPLE_INTERVAL < to; index++) {
+    const time = from + index * SAMPLE_INTERVAL
+    const note = melody.find((candidate) => candidate.time <= time && time < candidate.time + candidate.duration)
+    samples.push({ time, midi: sing(time, note ?? null) })
+  }
+  return samples
+}
+
+describe("scorePerformance against the Amazing Grace melody", () => {
+  it("gives a note-perfect performance full marks", () => {
+    const score = scorePerformance(
+      perform((_time, note) => note?.midi ?? null),
+      melody,
+    )
+    expect(score.pitch).toBe(100)
+    expect(score.timing).toBeGreaterThanOrEqual(95)
+    expect(score.stability).toBe(100)
+    expect(score.overall).toBeGreaterThanOrEqual(95)
+  })
+
+  it("doesn't mark down singing an octave below the melody", () => {
+    const score = scorePerformance(
+      perform((_time, note) => (note ? note.midi - 12 : null)),
+      melody,
+    )
+    expect(score.pitch).toBe(100)
+  })
+
+  it("allows a little drift but marks down singing a semitone and more out", () => {
+    const slightlyFlat = scorePerformance(
+      perform((_time, note) => (note ? note.midi - 0.3 : null)),
+      melody,
+    )
+    const offKey = scorePerformance(
+      perform((_time, note) => (note ? note.midi + 2 : null)),
+      melody,
+    )
+    expect(slightlyFlat.pitch).toBe(100)
+    expect(offKey.pitch).toBeLessThan(60)
+    expect(offKey.overall).toBeLessThan(slightlyFlat.overall)
+  })
+
+  it("marks down a monotone", () => {
+    const score = scorePerformance(
+      perform((_time, note) => (note ? 67 : null)),
+      melody,
+    )
+    expect(score.pitch).toBeLessThan(70)
+  })
+
+  it("marks down coming in early or late", () => {
+    const onTime = scorePerformance(
+      perform((_time, note) => note?.midi ?? null),
+      melody,
+    )
+    const late = scorePerformance(
+      perform((time, note) => (note && time >= note.time + 0.4 ? note.midi : null)),
+      melody,
+    )
+    const early = scorePerformance(
+      perform((time) => {
+        const next = melody.find((note) => note.time - 0.2 <= time && time < note.time + note.duration - 0.2)
+        return next?.midi ?? null
+      }),
+      melody,
+    )
+    expect(late.timing).toBeLessThan(onTime.timing!)
+    expect(early.timing).toBeLessThan(onTime.timing!)
+  })
+
+  it("scores silence as zero", () => {
+    const score = scorePerformance(
+      perform(() => null),
+      melody,
+    )
+    expect(score).toEqual({ overall: 0, pitch: 0, timing: 0, stability: 0 })
+  })
+
+  it("only times the notes the performance got to", () => {
+    const firstVerse = scorePerformance(
+      perform((_time, note) => note?.midi ?? null, 0, 21),
+      melody,
+    )
+    expect(firstVerse.timing).toBeGreaterThanOrEqual(95)
+  })
+
+  it("scores against the melody in the key the backing track was moved to", () => {
+    const raised = transposeMelody(melody, 2)
+    const score = scorePerformance(
+      perform((_time, note) => (note ? note.midi + 2 : null)),
+      raised,
+    )
+    expect(score.pitch).toBe(100)
+  })
+
+  it("has no timing score without a melody, and judges pitch by how close readings are to any note", () => {
+    const inTune = scorePerformance(
+      perform((_time, note) => note?.midi ?? null),
+      [],
+    )
+    const betweenNotes = scorePerformance(
+      perform((_time, note) => (note ? note.midi + 0.5 : null)),
+      [],
+    )
+    expect(inTune.timing).toBeNull()
+    expect(inTune.pitch).toBe(100)
+    expect(betweenNotes.pitch).toBe(0)
+  })
+})
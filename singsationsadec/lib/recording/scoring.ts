@@ -0,0 +1,114 @@
+import type { PerformanceScore } from "@/lib/api"
+import { findMelodyNote, type MelodyNote } from "@/lib/melody"
+
+// One pitch reading, stamped with the backing track position. midi is null while the singer is silent.
+export interface PitchSample {
+  time: number
+  midi: number | null
+}
+
+// Onsets this far ahead of a note still count as singing it
+const EARLY_ONSET_SECONDS = 0.3
+// A held note is at least this many consecutive readings that stay within a semitone of each other
+const MIN_HELD_SAMPLES = 5
+
+// Full credit up to `tolerance`, falling to nothing at `limit`
+const credit = (error: number, tolerance: number, limit: number) =>
+  Math.min(1, Math.max(0, 1 - (Math.abs(error) - tolerance) / (limit - tolerance)))
+
+const average = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length
+
+// Singing an octave away from the melody (which most voices have to) isn't a mistake
+const foldOctave = (semitones: number) => semitones - 12 * Math.round(semitones / 12)
+
+// With a melody, how close each reading is to the note that should be sung. Without one, how close
+// it is to any note, so a singer who is in tune with themselves still scores well.
+function scorePitch(voiced: PitchSample[], melody: MelodyNote[]) {
+  if (melody.length === 0) {
+    return average(voiced.map((sample) => credit(sample.midi! - Math.round(sample.midi!), 0.15, 0.5)))
+  }
+
+  return average(
+    voiced.flatMap((sample) => {
+      const note = findMelodyNote(melody, sample.time)
+      return note ? [credit(foldOctave(sample.midi! - note.midi), 0.5, 3)] : []
+    }),
+  )
+}
+
+// For each note the performance reached: how close to the note's start the singer came in, and how
+// much of the note they sang through
+function scoreTiming(samples: PitchSample[], melody: MelodyNote[]): number | null {
+  const lastTime = samples.length > 0 ? samples[samples.length - 1].time : 0
+  const reached = melody.filter((note) => note.time < lastTime)
+  if (reached.length === 0) {
+    return null
+  }
+
+  return average(
+    reached.map((note) => {
+      const end = note.time + note.duration
+      const during = samples.filter((sample) => sample.time >= note.time && sample.time < end)
+      // Singing legato runs the previous note right up to this one, so ahead of the note a reading only
+      // counts as coming in if the one before it was silent or a different note
+      const onset = samples.find((sample, index) => {
+        if (sample.midi === null || sample.time < note.time - EARLY_ONSET_SECONDS || sample.time >= end) {
+          return false
+        }
+        const previous = samples[index - 1]?.midi ?? null
+        return sample.time >= note.time || previous === null || Math.abs(sample.midi - previous) >= 1
+      })
+      if (!onset) {
+        return 0
+      }
+
+      const coverage = during.length === 0 ? 0 : during.filter((sample) => sample.midi !== null).length / during.length
+      return 0.5 * credit(onset.time - note.time, 0.1, 0.5) + 0.5 * coverage
+    }),
+  )
+}
+
+// How steadily held notes are sustained: the spread of readings within each one, so a gentle vibrato
+// is fine but wavering is not
+function scoreStability(samples: PitchSample[]): number {
+  const heldNotes: number[][] = []
+  let current: number[] = []
+
+  for (const sample of samples) {
+    if (sample.midi !== null && (current.length === 0 || Math.abs(sample.midi - current[current.length - 1]) < 1)) {
+      current.push(sample.midi)
+      continue
+    }
+    if (current.length >= MIN_HELD_SAMPLES) heldNotes.push(current)
+    current = sample.midi === null ? [] : [sample.midi]
+  }
+  if (current.length >= MIN_HELD_SAMPLES) heldNotes.push(current)
+
+  let weighted = 0
+  let total = 0
+  for (const note of heldNotes) {
+    const mean = average(note)
+    const deviation = Math.sqrt(average(note.map((midi) => (midi - mean) ** 2)))
+    weighted += credit(deviation, 0.25, 1) * note.length
+    total += note.length
+  }
+  return total === 0 ? 0 : weighted / total
+}
+
+export function scorePerformance(samples: PitchSample[], melody: MelodyNote[]): PerformanceScore {
+  const voiced = samples.filter((sample) => sample.midi !== null)
+
+  const pitch = scorePitch(voiced, melody)
+  const timing = melody.length > 0 ? scoreTiming(samples, melody) : null
+  const stability = scoreStability(samples)
+  const overall = timing === null ? 0.7 * pitch + 0.3 * stability : 0.5 * pitch + 0.3 * timing + 0.2 * stability
+
+  const percent = (value: number) => Math.round(value * 100)
+  return {
+    overall: percent(overall),
+    pitch: percent(pitch),
+    timing: timing === null ? null : percent(timing),
+    stability: percent(stability),
+  }
+}
@@ -0,0 +1,58 @@
+import { AUDIO_MIME_TYPES, pickMimeType } from "@/lib/recording/recorder-formats"
+
+export type Stem = "voice" | "backing"
+
+// The voice and the backing track of a take recorded separately, next to the mixed take, so the editor
+// can rebalance them afterwards. Both are taken after the mixer's volume sliders, so playing them
+// back at full volume gives the same balance as the take.
+export type TakeStems = Record<Stem, Blob>
+
+const STEM_BITRATE = 96000
+const STEMS: Stem[] = ["voice", "backing"]
+
+export class StemRecorder {
+  private readonly recorders: Record<Stem, MediaRecorder>
+  private readonly chunks: Record<Stem, Blob[]> = { voice: [], backing: [] }
+  private stopped: Promise<TakeStems | null> | null = null
+
+  constructor(streams: Record<Stem, MediaStream>) {
+    const mimeType = pickMimeType(AUDIO_MIME_TYPES)
+    const options: MediaRecorderOptions = { audioBitsPerSecond: STEM_BITRATE, ...(mimeType && { mimeType }) }
+    this.recorders = {
+      voice: new MediaRecorder(streams.voice, options),
+      backing: new MediaRecorder(streams.backing, options),
+    }
+
+    for (const stem of STEMS) {
+      this.recorders[stem].ondataavailable = (event) => {
+        if (event.data.size > 0) this.chunks[stem].push(event.data)
+      }
+    }
+  }
+
+  start(): void {
+    STEMS.forEach((stem) => this.recorders[stem].start(1000))
+  }
+
+  // Safe to call more than once. Resolves to null if either stem came out empty.
+  stop(): Promise<TakeStems | null> {
+    this.stopped ??= Promise.all(
+      STEMS.map(
+        (stem) =>
+          new Promise<Blob>((resolve) => {
+            const recorder = this.recorders[stem]
+            const finish = () =>
+              resolve(new Blob(this.chunks[stem], { type: recorder.mimeType || AUDIO_MIME_TYPES[0] }))
+            if (recorder.state === "inactive") {
+              finish()
+              return
+            }
+            recorder.addEventListener("stop", finish, { once: true })
+            recorder.stop()
+          }),
+      ),
+    ).then(([voice, backing]) => (voice.size > 0 && backing.size > 0 ? { voice, backing } : null))
+
+    return this.stopped
+  }
+}
@@ -0,0 +1,34 @@
+import type { PerformanceScore, RecordingSync, TrackAdjustment } from "@/lib/api"
+import { TAKES_STORE, withStore } from "@/lib/recording/local-db"
+import type { TakeStems } from "@/lib/recording/stems"
+
+// One attempt at a song, kept in this browser so the singer can compare takes and pick the best
+export interface Take {
+  id: string
+  songId: string
+  blob: Blob
+  duration: number // seconds
+  recordedAt: string
+  score?: PerformanceScore
+  sync?: RecordingSync
+  trackAdjustment?: TrackAdjustment
+  stems?: TakeStems // missing for takes recovered after a crash, or recorded without Web Audio
+}
+
+export async function saveTake(take: Take): Promise<void> {
+  await withStore(TAKES_STORE, "readwrite", (store) => store.put(take))
+}
+
+export async function getTake(id: string): Promise<Take | null> {
+  return (await withStore<Take | undefined>(TAKES_STORE, "readonly", (store) => store.get(id))) ?? null
+}
+
+// Oldest first, so take numbers stay stable as more are recorded
+export async function listTakes(songId: string): Promise<Take[]> {
+  const takes = await withStore<Take[]>(TAKES_STORE, "readonly", (store) => store.index("songId").getAll(songId))
+  return takes.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt))
+}
+
+export async function deleteTake(id: string): Promise<void> {
+  await withStore(TAKES_STORE, "readwrite", (store) => store.delete(id))
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import {
+  formatKeyShift,
+  isAdjusted,
+  loadTrackAdjustment,
+  NO_ADJUSTMENT,
+  shifterRatio,
+} from "@/lib/recording/track-adjustment"
+
+describe("shifterRatio", () => {
+  it("leaves an unadjusted track alone", () => {
+    expect(shifterRatio(NO_ADJUSTMENT)).toBe(1)
+  })
+
+  it("moves the pitch by a semitone per step", () => {
+    expect(shifterRatio({ keyShift: 12, tempo: 1 })).toBe(2)
+    expect(shifterRatio({ keyShift: -12, tempo: 1 })).toBe(0.5)
+    expect(shifterRatio({ keyShift: 1, tempo: 1 })).toBeCloseTo(1.0595, 4)
+  })
+
+  it("undoes the pitch change that comes with playing faster or slower", () => {
+    // At 1.25x the element plays everything 1.25 times higher, so the shifter brings it back down
+    expect(shifterRatio({ keyShift: 0, tempo: 1.25 })).toBe(0.8)
+    expect(shifterRatio({ keyShift: 0, tempo: 0.8 }) * 0.8).toBeCloseTo(1, 10)
+  })
+
+  it("combines a key change with a tempo change", () => {
+    const adjustment = { keyShift: -3, tempo: 0.9 }
+    // What the listener hears: the element's speed change times the shifter's
+    expect(adjustment.tempo * shifterRatio(adjustment)).toBeCloseTo(Math.pow(2, -3 / 12), 10)
+  })
+})
+
+describe("isAdjusted", () => {
+  it("is false only for the original key and tempo", () => {
+    expect(isAdjusted(NO_ADJUSTMENT)).toBe(false)
+    expect(isAdjusted({ keyShift: -1, tempo: 1 })).toBe(true)
+    expect(isAdjusted({ keyShift: 0, tempo: 0.95 })).toBe(true)
+  })
+})
+
+describe("formatKeyShift", () => {
+  it("signs key changes", () => {
+    expect(formatKeyShift(2)).toBe("+2")
+    expect(formatKeyShift(-2)).toBe("-2")
+    expect(formatKeyShift(0)).toBe("0")
+  })
+})
+
+describe("loadTrackAdjustment", () => {
+  it("falls back to no adjustment outside the browser", () => {
+    expect(loadTrackAdjustment()).toEqual(NO_ADJUSTMENT)
+  })
+})
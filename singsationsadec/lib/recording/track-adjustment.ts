@@ -0,0 +1,80 @@
+import type { TrackAdjustment } from "@/lib/api"
+
+export const MAX_KEY_SHIFT = 6 // semitones either way
+export const MIN_TEMPO = 0.75
+export const MAX_TEMPO = 1.25
+
+export const NO_ADJUSTMENT: TrackAdjustment = { keyShift: 0, tempo: 1 }
+
+export const isAdjusted = (adjustment: TrackAdjustment) => adjustment.keyShift !== 0 || adjustment.tempo !== 1
+
+export const formatKeyShift = (keyShift: number) => (keyShift > 0 ? `+${keyShift}` : String(keyShift))
+
+// What the pitch shifter multiplies frequencies by: the key change, less the pitch the element's change
+// of speed already added
+export const shifterRatio = (adjustment: TrackAdjustment) => Math.pow(2, adjustment.keyShift / 12) / adjustment.tempo
+
+const STORAGE_KEY = "track_adjustment"
+
+// Kept for the browser session, so a key picked while previewing songs carries over to the recording
+// screen. A singer's range doesn't change between songs, but it isn't worth remembering for next time.
+export function loadTrackAdjustment(): TrackAdjustment {
+  if (typeof window === "undefined") return NO_ADJUSTMENT
+  try {
+    return { ...NO_ADJUSTMENT, ...JSON.parse(sessionStorage.getItem(STORAGE_KEY) || "{}") }
+  } catch {
+    return NO_ADJUSTMENT
+  }
+}
+
+export function saveTrackAdjustment(adjustment: TrackAdjustment): void {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(adjustment))
+}
+
+// Plays a media element at the adjusted tempo and key. The element changes speed with its own pitch
+// correction off, which moves the pitch by the same factor; the shifter then corrects that and adds
+// the key change. Doing both in one place keeps the browsers' differing time-stretch quality out of it.
+//
+//   <video>/<audio> source ──► input ──► pitch-shifter worklet ──► output
+//
+// The worklet loads asynchronously. Until it has (or where it can't), the input goes straight to the
+// output and the element's own pitch correction handles tempo, but the key can't change.
+export class BackingTrackShifter {
+  readonly input: GainNode
+  readonly output: GainNode
+  private shifter: AudioWorkletNode | null = null
+  private target: { element: HTMLMediaElement; adjustment: TrackAdjustment } | null = null
+
+  constructor(private readonly context: AudioContext) {
+    this.input = context.createGain()
+    this.output = context.createGain()
+    this.input.connect(this.output)
+
+    this.loadShifter().catch((error) => console.warn("Key change unavailable:", error))
+  }
+
+  apply(element: HTMLMediaElement, adjustment: TrackAdjustment): void {
+    this.target = { element, adjustment }
+    this.update()
+  }
+
+  private update(): void {
+    if (!this.target) return
+    const { element, adjustment } = this.target
+
+    element.preservesPitch = !this.shifter
+    element.playbackRate = adjustment.tempo
+    this.shifter?.parameters.get("ratio")!.setValueAtTime(shifterRatio(adjustment), this.context.currentTime)
+  }
+
+  private async loadShifter(): Promise<void> {
+    // audioWorklet only exists in secure contexts (https or localhost)
+    if (!this.context.audioWorklet) return
+
+    await this.context.audioWorklet.addModule("/worklets/pitch-shifter.js")
+    this.shifter = new AudioWorkletNode(this.context, "pitch-shifter")
+    this.input.disconnect()
+    this.input.connect(this.shifter).connect(this.output)
+    this.update()
+  }
+}
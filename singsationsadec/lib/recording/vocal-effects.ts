@@ -0,0 +1,226 @@
+export type ReverbRoom = "room" | "plate" | "hall"
+
+export interface VocalEffectSettings {
+  reverb: number // wet level, 0 to 1
+  room: ReverbRoom
+  echo: number // wet level, 0 to 1
+  echoDelay: number // seconds between repeats
+  echoFeedback: number // how much of each repeat comes back, 0 to 0.9
+  compressor: boolean // evens out loud and soft passages and brings the voice up (auto-gain)
+  noiseGate: boolean // turns the mic down between phrases
+}
+
+export type VocalPreset = "dry" | "natural" | "studio" | "concert" | "slapback"
+
+export const VOCAL_PRESETS: Record<VocalPreset, { label: string; settings: VocalEffectSettings }> = {
+  dry: {
+    label: "Dry",
+    settings: {
+      reverb: 0,
+      room: "room",
+      echo: 0,
+      echoDelay: 0.25,
+      echoFeedback: 0.3,
+      compressor: false,
+      noiseGate: false,
+    },
+  },
+  natural: {
+    label: "Natural",
+    settings: {
+      reverb: 0.15,
+      room: "room",
+      echo: 0,
+      echoDelay: 0.25,
+      echoFeedback: 0.3,
+      compressor: true,
+      noiseGate: false,
+    },
+  },
+  studio: {
+    label: "Studio",
+    settings: {
+      reverb: 0.25,
+      room: "plate",
+      echo: 0.1,
+      echoDelay: 0.18,
+      echoFeedback: 0.2,
+      compressor: true,
+      noiseGate: true,
+    },
+  },
+  concert: {
+    label: "Concert Hall",
+    settings: {
+      reverb: 0.35,
+      room: "hall",
+      echo: 0.15,
+      echoDelay: 0.35,
+      echoFeedback: 0.35,
+      compressor: true,
+      noiseGate: true,
+    },
+  },
+  slapback: {
+    label: "Slapback",
+    settings: {
+      reverb: 0.1,
+      room: "room",
+      echo: 0.35,
+      echoDelay: 0.12,
+      echoFeedback: 0.1,
+      compressor: true,
+      noiseGate: false,
+    },
+  },
+}
+
+// "custom" once any setting has been changed away from the preset
+export interface VocalEffectPreferences {
+  preset: VocalPreset | "custom"
+  settings: VocalEffectSettings
+  bake: boolean // whether the recording gets the effects, or the dry voice with effects only in the headphones
+}
+
+const STORAGE_KEY = "vocal_effects"
+
+const DEFAULT_PREFERENCES: VocalEffectPreferences = {
+  preset: "natural",
+  settings: VOCAL_PRESETS.natural.settings,
+  bake: true,
+}
+
+// Kept per browser with the device choices. Monitoring isn't saved: the headphones may not be
+// plugged in next time, and monitoring through speakers feeds back.
+export function loadVocalEffectPreferences(): VocalEffectPreferences {
+  if (typeof window === "undefined") return DEFAULT_PREFERENCES
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}")
+    return { ...DEFAULT_PREFERENCES, ...stored, settings: { ...DEFAULT_PREFERENCES.settings, ...stored.settings } }
+  } catch {
+    return DEFAULT_PREFERENCES
+  }
+}
+
+export function saveVocalEffectPreferences(preferences: VocalEffectPreferences): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences))
+}
+
+// Compressor settings for a voice: a gentle 4:1 above -24 dB, with make-up gain to bring the level back up
+const COMPRESSOR = { threshold: -24, knee: 12, ratio: 4, attack: 0.005, release: 0.25, makeup: 1.8 }
+// dB at which the noise gate opens; normal singing is well above it, a quiet room well below
+const GATE_THRESHOLD_DB = -45
+// Repeats are darkened a little each time round, like a tape echo, so they sit behind the voice
+const ECHO_TONE_HZ = 3500
+
+// The voice processing chain:
+//
+//   input ──► noise gate ──► compressor ──► make-up gain ──┬──────────────────────────────► output
+//                                                          ├──► reverb send ──► convolver ──► output
+//                                                          └──► echo send ──► delay ⇄ tone ──► output
+//
+// The gate is an AudioWorklet, which loads asynchronously; until it has, the input goes straight
+// to the compressor. Impulse responses are fetched the first time their room is picked.
+export class VocalEffects {
+  readonly input: GainNode
+  readonly output: GainNode
+  private readonly compressor: DynamicsCompressorNode
+  private readonly makeup: GainNode
+  private readonly reverbSend: GainNode
+  private readonly convolver: ConvolverNode
+  private readonly echoSend: GainNode
+  private readonly delay: DelayNode
+  private readonly echoFeedback: GainNode
+  private gate: AudioWorkletNode | null = null
+  private settings: VocalEffectSettings = VOCAL_PRESETS.dry.settings
+  private readonly impulseResponses = new Map<ReverbRoom, Promise<AudioBuffer>>()
+
+  constructor(private readonly context: AudioContext) {
+    this.input = context.createGain()
+    this.output = context.createGain()
+    this.compressor = context.createDynamicsCompressor()
+    this.makeup = context.createGain()
+    this.reverbSend = context.createGain()
+    this.convolver = context.createConvolver()
+    this.echoSend = context.createGain()
+    this.delay = context.createDelay(2)
+    this.echoFeedback = context.createGain()
+
+    const tone = context.createBiquadFilter()
+    tone.type = "lowpass"
+    tone.frequency.value = ECHO_TONE_HZ
+
+    this.input.connect(this.compressor).connect(this.makeup)
+    this.makeup.connect(this.output)
+    this.makeup.connect(this.reverbSend).connect(this.convolver).connect(this.output)
+    this.makeup.connect(this.echoSend).connect(this.delay).connect(tone)
+    tone.connect(this.echoFeedback).connect(this.delay)
+    tone.connect(this.output)
+
+    this.apply(this.settings)
+    this.loadGate().catch((error) => console.warn("Noise gate unavailable:", error))
+  }
+
+  apply(settings: VocalEffectSettings): void {
+    this.settings = settings
+    const now = this.context.currentTime
+    // Ramp rather than jump, which would click
+    const set = (param: AudioParam, value: number) => param.setTargetAtTime(value, now, 0.02)
+
+    set(this.compressor.threshold, settings.compressor ? COMPRESSOR.threshold : 0)
+    set(this.compressor.knee, settings.compressor ? COMPRESSOR.knee : 0)
+    set(this.compressor.ratio, settings.compressor ? COMPRESSOR.ratio : 1)
+    this.compressor.attack.value = COMPRESSOR.attack
+    this.compressor.release.value = COMPRESSOR.release
+    set(this.makeup.gain, settings.compressor ? COMPRESSOR.makeup : 1)
+
+    set(this.reverbSend.gain, settings.reverb)
+    set(this.echoSend.gain, settings.echo)
+    set(this.delay.delayTime, settings.echoDelay)
+    set(this.echoFeedback.gain, Math.min(settings.echoFeedback, 0.9))
+
+    if (this.gate) {
+      set(this.gate.parameters.get("threshold")!, settings.noiseGate ? GATE_THRESHOLD_DB : -120)
+    }
+
+    if (settings.reverb > 0) {
+      this.loadRoom(settings.room)
+    }
+  }
+
+  private async loadGate(): Promise<void> {
+    // audioWorklet only exists in secure contexts (https or localhost)
+    if (!this.context.audioWorklet) return
+
+    await this.context.audioWorklet.addModule("/worklets/noise-gate.js")
+    this.gate = new AudioWorkletNode(this.context, "noise-gate")
+    this.input.disconnect()
+    this.input.connect(this.gate).connect(this.compressor)
+    this.apply(this.settings)
+  }
+
+  private loadRoom(room: ReverbRoom): void {
+    let impulseResponse = this.impulseResponses.get(room)
+    if (!impulseResponse) {
+      impulseResponse = fetch(`/impulse-responses/${room}.wav`)
+        .then((response) => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`)
+          return response.arrayBuffer()
+        })
+        .then((data) => this.context.decodeAudioData(data))
+      this.impulseResponses.set(room, impulseResponse)
+    }
+
+    impulseResponse
+      .then((buffer) => {
+        // The room may have changed again while this one was loading
+        if (this.settings.room === room && this.convolver.buffer !== buffer) {
+          this.convolver.buffer = buffer
+        }
+      })
+      .catch((error) => {
+        console.warn(`Failed to load the ${room} reverb:`, error)
+        this.impulseResponses.delete(room)
+      })
+  }
+}
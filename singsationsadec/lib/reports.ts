@@ -0,0 +1,59 @@
+import type { ActivityLog, User, UserReport } from "@/lib/api"
+
+// Shared by the admin API and the offline (localStorage) mode so both produce identical reports
+
+export function buildUserReport(user: User, allActivities: ActivityLog[]): UserReport {
+  const activities = allActivities
+    .filter((activity) => activity.userId === user.id)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+
+  const countOf = (eventType: ActivityLog["eventType"]) => activities.filter((a) => a.eventType === eventType).length
+
+  return {
+    userId: user.id,
+    email: user.email,
+    artistName: user.name,
+    totalSignIns: countOf("signin"),
+    songsSelected: countOf("song_selection"),
+    recordingsCompleted: countOf("recording_complete"),
+    paymentsCompleted: countOf("payment"),
+    lastActivity: activities.length > 0 ? activities[0].timestamp : user.created_at,
+    activities,
+  }
+}
+
+export function getTopReports(reports: UserReport[], limit = 10): UserReport[] {
+  const totalActivity = (report: UserReport) =>
+    report.totalSignIns + report.songsSelected + report.recordingsCompleted + report.paymentsCompleted
+
+  return [...reports].sort((a, b) => totalActivity(b) - totalActivity(a)).slice(0, limit)
+}
+
+export function reportsToCsv(reports: UserReport[]): string {
+  const headers = [
+    "User ID",
+    "Email",
+    "Artist Name",
+    "Sign-ins",
+    "Songs Selected",
+    "Recordings",
+    "Payments",
+    "Last Activity",
+  ]
+
+  return [
+    headers.join(","),
+    ...reports.map((report) =>
+      [
+        report.userId,
+        `"${report.email}"`,
+        `"${report.artistName || ""}"`,
+        report.totalSignIns,
+        report.songsSelected,
+        report.recordingsCompleted,
+        report.paymentsCompleted,
+        `"${new Date(report.lastActivity).toLocaleString()}"`,
+      ].join(","),
+    ),
+  ].join("\n")
+}
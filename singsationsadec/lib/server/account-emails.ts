@@ -0,0 +1,33 @@
+import type { User } from "@/lib/api"
+import { getMailer } from "@/lib/server/mailer"
+import { issueToken } from "@/lib/server/one-time-tokens"
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000
+
+// Links in emails must point at the public site, which can differ from the address the request came in on
+export function getAppUrl(request: Request): string {
+  return process.env.APP_URL || new URL(request.url).origin
+}
+
+export async function sendVerificationEmail(user: User, appUrl: string): Promise<void> {
+  const token = await issueToken(user.id, "email_verification", EMAIL_VERIFICATION_TTL_MS)
+  const link = `${appUrl}/auth/verify-email?token=${encodeURIComponent(token)}`
+
+  await getMailer().send({
+    to: user.email,
+    subject: "Verify your Sing Sation email address",
+    text: `Hi ${user.name || "there"},\n\nPlease confirm your email address by opening this link:\n${link}\n\nThe link expires in 24 hours. If you didn't create a Sing Sation account, you can ignore this email.`,
+  })
+}
+
+export async function sendPasswordResetEmail(user: User, appUrl: string): Promise<void> {
+  const token = await issueToken(user.id, "password_reset", PASSWORD_RESET_TTL_MS)
+  const link = `${appUrl}/auth/reset-password?token=${encodeURIComponent(token)}`
+
+  await getMailer().send({
+    to: user.email,
+    subject: "Reset your Sing Sation password",
+    text: `Hi ${user.name || "there"},\n\nSomeone asked to reset the password for your Sing Sation account. Open this link to choose a new password:\n${link}\n\nThe link expires in 1 hour and can only be used once. If you didn't ask for this, you can ignore this email.`,
+  })
+}
@@ -0,0 +1,17 @@
+import type { ActivityLog } from "@/lib/api"
+import { readCollection, updateCollection } from "@/lib/server/db"
+
+const ACTIVITIES = "activities"
+
+export async function recordActivity(activity: ActivityLog): Promise<void> {
+  await updateCollection<ActivityLog, void>(ACTIVITIES, (activities) => {
+    // The client generates ids, so a retried request must not be counted twice
+    if (!activities.some((existing) => existing.id === activity.id)) {
+      activities.push(activity)
+    }
+  })
+}
+
+export async function listActivities(): Promise<ActivityLog[]> {
+  return readCollection<ActivityLog>(ACTIVITIES)
+}
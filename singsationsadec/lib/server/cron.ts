@@ -0,0 +1,19 @@
+import { timingSafeEqual } from "crypto"
+import { NextResponse } from "next/server"
+
+// Cron endpoints are called by an external scheduler (cron, systemd timer, hosting cron jobs) with
+// CRON_SECRET as a bearer token. Returns the error response to send, or null when the caller may proceed.
+export function checkCronAuthorization(request: Request): NextResponse | null {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json({ success: false, message: "CRON_SECRET is not configured." }, { status: 503 })
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const actual = Buffer.from(request.headers.get("authorization") ?? "")
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return NextResponse.json({ success: false, message: "Unauthorized." }, { status: 401 })
+  }
+
+  return null
+}
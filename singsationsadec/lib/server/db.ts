@@ -0,0 +1,46 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// A small JSON-file store: one file per collection under DATA_DIR. It is enough for a single
+// server instance and keeps local development free of a database dependency.
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data")
+
+const writeQueues = new Map<string, Promise<unknown>>()
+
+const collectionPath = (name: string) => path.join(DATA_DIR, `${name}.json`)
+
+export async function readCollection<T>(name: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(collectionPath(name), "utf-8")
+    return JSON.parse(raw) as T[]
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+}
+
+// Runs a read-modify-write cycle on a collection. Updates to the same collection are queued so
+// concurrent requests can't overwrite each other, and the file is replaced atomically.
+export async function updateCollection<T, R>(name: string, update: (items: T[]) => R | Promise<R>): Promise<R> {
+  const previous = writeQueues.get(name) ?? Promise.resolve()
+
+  const next = previous.then(async () => {
+    const items = await readCollection<T>(name)
+    const result = await update(items)
+
+    await fs.mkdir(DATA_DIR, { recursive: true })
+    const tempPath = `${collectionPath(name)}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(items, null, 2))
+    await fs.rename(tempPath, collectionPath(name))
+
+    return result
+  })
+
+  writeQueues.set(
+    name,
+    next.catch(() => undefined),
+  )
+  return next
+}
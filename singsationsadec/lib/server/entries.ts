@@ -0,0 +1,104 @@
+import { randomBytes, randomUUID } from "crypto"
+import type { EntryInfo, EntryStatus } from "@/lib/api"
+import { readCollection, updateCollection } from "@/lib/server/db"
+import type { Recording } from "@/lib/server/recordings"
+
+export interface Entry {
+  id: string
+  userId: number
+  category: string
+  songId: string
+  songTitle: string
+  recordingId: string
+  artistName: string
+  contactNumber: string
+  trackingCode: string
+  status: EntryStatus
+  submittedAt: string
+  updatedAt: string
+}
+
+export type SubmitEntryResult = { status: "created"; entry: Entry } | { status: "already_entered"; entry: Entry }
+
+const ENTRIES = "entries"
+
+// e.g. ADU-482913-K7Q: the category, then enough of the time and some randomness to be unique
+function generateTrackingCode(category: string, taken: Set<string>): string {
+  const prefix = category.toUpperCase().substring(0, 3)
+  for (;;) {
+    const timestamp = Date.now().toString().slice(-6)
+    const random = randomBytes(4).readUInt32BE().toString(36).slice(-3).toUpperCase().padStart(3, "0")
+    const code = `${prefix}-${timestamp}-${random}`
+    if (!taken.has(code)) return code
+  }
+}
+
+// One entry per singer per category, so a second submission gets back the entry they already have
+export async function submitEntry(
+  recording: Recording,
+  details: Pick<Entry, "artistName" | "contactNumber">,
+): Promise<SubmitEntryResult> {
+  return updateCollection<Entry, SubmitEntryResult>(ENTRIES, (entries) => {
+    const existing = entries.find((entry) => entry.userId === recording.userId && entry.category === recording.category)
+    if (existing) {
+      return { status: "already_entered", entry: { ...existing } }
+    }
+
+    const now = new Date().toISOString()
+    const entry: Entry = {
+      ...details,
+      id: `ent_${randomUUID()}`,
+      userId: recording.userId,
+      category: recording.category,
+      songId: recording.songId,
+      songTitle: recording.songTitle,
+      recordingId: recording.id,
+      trackingCode: generateTrackingCode(recording.category, new Set(entries.map((entry) => entry.trackingCode))),
+      status: "submitted",
+      submittedAt: now,
+      updatedAt: now,
+    }
+    entries.push(entry)
+    return { status: "created", entry: { ...entry } }
+  })
+}
+
+export async function listEntries(userId: number): Promise<Entry[]> {
+  const entries = await readCollection<Entry>(ENTRIES)
+  return entries.filter((entry) => entry.userId === userId)
+}
+
+export async function listAllEntries(): Promise<Entry[]> {
+  return readCollection<Entry>(ENTRIES)
+}
+
+export async function findEntryForRecording(recordingId: string): Promise<Entry | null> {
+  const entries = await readCollection<Entry>(ENTRIES)
+  return entries.find((entry) => entry.recordingId === recordingId) ?? null
+}
+
+export async function setEntryStatus(id: string, status: EntryStatus): Promise<Entry | null> {
+  return updateCollection<Entry, Entry | null>(ENTRIES, (entries) => {
+    const entry = entries.find((existing) => existing.id === id)
+    if (!entry) {
+      return null
+    }
+
+    if (entry.status !== status) {
+      entry.status = status
+      entry.updatedAt = new Date().toISOString()
+    }
+    return { ...entry }
+  })
+}
+
+// Recordings the judges still need. The retention job leaves these alone, whatever their download period.
+export async function listRetainedRecordingIds(): Promise<Set<string>> {
+  const entries = await readCollection<Entry>(ENTRIES)
+  return new Set(entries.filter((entry) => entry.status !== "eliminated").map((entry) => entry.recordingId))
+}
+
+export function toEntryInfo(entry: Entry): EntryInfo {
+  const { userId, contactNumber, ...info } = entry
+  return info
+}
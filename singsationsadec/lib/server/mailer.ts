@@ -0,0 +1,42 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { DATA_DIR } from "@/lib/server/db"
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>
+}
+
+// Prints mail to the server log; the default for local development
+class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}\n`)
+  }
+}
+
+// Writes each message to DATA_DIR/mail so links can be opened from the file system
+class FileMailer implements Mailer {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^a-z0-9@._-]/gi, "_")}.txt`
+    const content = `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+    await fs.writeFile(path.join(this.directory, fileName), content)
+  }
+}
+
+let mailer: Mailer | null = null
+
+// MAIL_TRANSPORT selects the transport; a real provider (SMTP, SES, ...) only needs another Mailer implementation
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = process.env.MAIL_TRANSPORT === "file" ? new FileMailer(path.join(DATA_DIR, "mail")) : new ConsoleMailer()
+  }
+  return mailer
+}
@@ -0,0 +1,48 @@
+import { createHash, randomBytes } from "crypto"
+import { updateCollection } from "@/lib/server/db"
+
+export type TokenPurpose = "password_reset" | "email_verification"
+
+interface StoredToken {
+  tokenHash: string
+  userId: number
+  purpose: TokenPurpose
+  expiresAt: string
+}
+
+const TOKENS = "one_time_tokens"
+
+// Only a hash is stored, so a leaked data file can't be used to reset passwords
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex")
+
+// Issuing a new token invalidates any earlier token of the same purpose for that user
+export async function issueToken(userId: number, purpose: TokenPurpose, ttlMs: number): Promise<string> {
+  const token = randomBytes(32).toString("base64url")
+  const now = Date.now()
+
+  await updateCollection<StoredToken, void>(TOKENS, (tokens) => {
+    const kept = tokens.filter(
+      (existing) =>
+        new Date(existing.expiresAt).getTime() > now && !(existing.userId === userId && existing.purpose === purpose),
+    )
+    kept.push({ tokenHash: hashToken(token), userId, purpose, expiresAt: new Date(now + ttlMs).toISOString() })
+    tokens.splice(0, tokens.length, ...kept)
+  })
+
+  return token
+}
+
+// Returns the user the token was issued for, or null if it is unknown, expired or already used
+export async function consumeToken(token: string, purpose: TokenPurpose): Promise<number | null> {
+  const tokenHash = hashToken(token)
+
+  return updateCollection<StoredToken, number | null>(TOKENS, (tokens) => {
+    const index = tokens.findIndex((existing) => existing.tokenHash === tokenHash && existing.purpose === purpose)
+    if (index === -1) {
+      return null
+    }
+
+    const [stored] = tokens.splice(index, 1)
+    return new Date(stored.expiresAt).getTime() > Date.now() ? stored.userId : null
+  })
+}
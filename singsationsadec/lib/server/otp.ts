@@ -0,0 +1,142 @@
+import { createHash, randomInt, timingSafeEqual } from "crypto"
+import { updateCollection } from "@/lib/server/db"
+
+const CODE_TTL_MS = 5 * 60 * 1000
+const RESEND_COOLDOWN_MS = 60 * 1000
+// At most this many texts to one number an hour, so the sign-in form can't be used to spam someone
+const MAX_SENDS_PER_HOUR = 5
+const HOUR_MS = 60 * 60 * 1000
+// Wrong guesses are counted per number over FAILURE_WINDOW_MS, whatever code they were for, so
+// requesting a new code doesn't buy more guesses. Reaching the limit locks the number for LOCKOUT_MS.
+const MAX_FAILED_ATTEMPTS = 5
+const FAILURE_WINDOW_MS = HOUR_MS
+const LOCKOUT_MS = 30 * 60 * 1000
+
+// Sign-in state for one phone number. It outlives the code itself for as long as it still limits anything.
+interface StoredCode {
+  phone: string
+  codeHash?: string
+  expiresAt?: string
+  sentAt: string[] // texts sent in the last hour, oldest first
+  failedAttempts: number
+  failedSince?: string
+  lockedUntil?: string
+}
+
+const OTP_CODES = "otp_codes"
+
+const hashCode = (phone: string, code: string) => createHash("sha256").update(`${phone}:${code}`).digest()
+
+// Accepts local South African numbers ("082 123 4567") as well as international ones ("+27 82 123 4567")
+export function normalizePhone(phone: string): string | null {
+  let digits = phone.replace(/[\s\-().]/g, "")
+
+  if (digits.startsWith("00")) {
+    digits = `+${digits.slice(2)}`
+  } else if (digits.startsWith("0")) {
+    digits = `+27${digits.slice(1)}`
+  } else if (!digits.startsWith("+")) {
+    digits = `+${digits}`
+  }
+
+  return /^\+\d{10,15}$/.test(digits) ? digits : null
+}
+
+const time = (iso: string | undefined) => (iso ? new Date(iso).getTime() : 0)
+
+// Forgets sends, failures and lockouts that no longer count, and numbers with nothing left to limit
+function prune(codes: StoredCode[], now: number): StoredCode[] {
+  return codes
+    .map((stored) => ({
+      ...stored,
+      sentAt: (stored.sentAt ?? []).filter((sentAt) => time(sentAt) + HOUR_MS > now),
+      ...(time(stored.failedSince) + FAILURE_WINDOW_MS <= now && { failedAttempts: 0, failedSince: undefined }),
+      ...(time(stored.lockedUntil) <= now && { lockedUntil: undefined }),
+    }))
+    .filter(
+      (stored) =>
+        time(stored.expiresAt) > now || stored.sentAt.length > 0 || stored.failedAttempts > 0 || stored.lockedUntil,
+    )
+}
+
+export type IssueCodeResult =
+  { ok: true; code: string } | { ok: false; reason: "cooldown" | "limit" | "locked"; retryAfter: number }
+
+export async function issueCode(phone: string): Promise<IssueCodeResult> {
+  const now = Date.now()
+
+  return updateCollection<StoredCode, IssueCodeResult>(OTP_CODES, (codes) => {
+    codes.splice(0, codes.length, ...prune(codes, now))
+    let stored = codes.find((existing) => existing.phone === phone)
+    const refuse = (reason: "cooldown" | "limit" | "locked", until: number): IssueCodeResult => ({
+      ok: false,
+      reason,
+      retryAfter: Math.ceil((until - now) / 1000),
+    })
+
+    if (stored?.lockedUntil) {
+      return refuse("locked", time(stored.lockedUntil))
+    }
+    const lastSent = time(stored?.sentAt.at(-1))
+    if (lastSent + RESEND_COOLDOWN_MS > now) {
+      return refuse("cooldown", lastSent + RESEND_COOLDOWN_MS)
+    }
+    if (stored && stored.sentAt.length >= MAX_SENDS_PER_HOUR) {
+      return refuse("limit", time(stored.sentAt[0]) + HOUR_MS)
+    }
+
+    if (!stored) {
+      stored = { phone, sentAt: [], failedAttempts: 0 }
+      codes.push(stored)
+    }
+
+    // A resend replaces the previous code; the failed attempts so far still count
+    const code = randomInt(0, 1_000_000).toString().padStart(6, "0")
+    stored.codeHash = hashCode(phone, code).toString("hex")
+    stored.expiresAt = new Date(now + CODE_TTL_MS).toISOString()
+    stored.sentAt.push(new Date(now).toISOString())
+
+    return { ok: true, code }
+  })
+}
+
+export type VerifyCodeResult = "ok" | "invalid" | "expired" | "locked"
+
+export async function verifyCode(phone: string, code: string): Promise<VerifyCodeResult> {
+  const now = Date.now()
+
+  return updateCollection<StoredCode, VerifyCodeResult>(OTP_CODES, (codes) => {
+    codes.splice(0, codes.length, ...prune(codes, now))
+    const stored = codes.find((existing) => existing.phone === phone)
+
+    if (stored?.lockedUntil) {
+      return "locked"
+    }
+    if (!stored?.codeHash || time(stored.expiresAt) <= now) {
+      return "expired"
+    }
+
+    const expected = Buffer.from(stored.codeHash, "hex")
+    if (!timingSafeEqual(expected, hashCode(phone, code))) {
+      stored.failedSince ??= new Date(now).toISOString()
+      stored.failedAttempts += 1
+      if (stored.failedAttempts < MAX_FAILED_ATTEMPTS) {
+        return "invalid"
+      }
+
+      // The code is thrown away too, so the lockout can't be waited out with it still live
+      Object.assign(stored, {
+        codeHash: undefined,
+        expiresAt: undefined,
+        failedAttempts: 0,
+        failedSince: undefined,
+        lockedUntil: new Date(now + LOCKOUT_MS).toISOString(),
+      })
+      return "locked"
+    }
+
+    // The sends still count towards the hourly cap; everything else is done with
+    Object.assign(stored, { codeHash: undefined, expiresAt: undefined, failedAttempts: 0, failedSince: undefined })
+    return "ok"
+  })
+}
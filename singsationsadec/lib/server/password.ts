@@ -0,0 +1,28 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto"
+
+const KEY_LENGTH = 64
+const SALT_BYTES = 16
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)))
+  })
+}
+
+// Stored as "scrypt$<salt>$<hash>" (base64) so the algorithm can be changed later without a migration
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES)
+  const key = await deriveKey(password, salt)
+  return `scrypt$${salt.toString("base64")}$${key.toString("base64")}`
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, salt, hash] = stored.split("$")
+  if (algorithm !== "scrypt" || !salt || !hash) {
+    return false
+  }
+
+  const expected = Buffer.from(hash, "base64")
+  const actual = await deriveKey(password, Buffer.from(salt, "base64"))
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
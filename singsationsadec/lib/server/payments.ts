@@ -0,0 +1,256 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto"
+import type { PaymentStatus, Purchase } from "@/lib/api"
+import { recordActivity } from "@/lib/server/activities"
+import { readCollection, updateCollection } from "@/lib/server/db"
+import { extendRecordingRetention, RECORDING_RETENTION_MS } from "@/lib/server/recordings"
+
+// R50 per download, in cents as the Yoco API expects
+export const DOWNLOAD_PRICE_CENTS = 5000
+const CURRENCY = "ZAR"
+
+// Yoco rejects webhooks older than this too; it keeps captured requests from being replayed later
+const WEBHOOK_TOLERANCE_SECONDS = 3 * 60
+
+const YOCO_API_URL = process.env.YOCO_API_URL || "https://payments.yoco.com"
+
+export interface Payment {
+  id: string // our reference, sent to Yoco as checkout metadata
+  userId: number
+  checkoutId: string
+  yocoPaymentId?: string
+  amount: number
+  currency: string
+  status: PaymentStatus
+  recordingId?: string
+  songTitle: string
+  category: string
+  createdAt: string
+  updatedAt: string
+  paidAt?: string
+  expiresAt?: string // end of download access, set when the payment succeeds
+  expiryWarningSentAt?: string
+}
+
+export interface WebhookEvent {
+  id: string
+  type: string
+  payload: {
+    id: string
+    amount?: number
+    currency?: string
+    metadata?: Record<string, string>
+  }
+}
+
+export class PaymentProviderError extends Error {}
+
+const PAYMENTS = "payments"
+
+function getSecretKey(): string {
+  const key = process.env.YOCO_SECRET_KEY
+  if (!key) {
+    throw new PaymentProviderError("YOCO_SECRET_KEY is not configured")
+  }
+  return key
+}
+
+export async function createCheckout(
+  userId: number,
+  purchase: { songTitle: string; category: string; recordingId?: string },
+  appUrl: string,
+): Promise<{ payment: Payment; redirectUrl: string }> {
+  const reference = `pay_${randomUUID()}`
+  const returnUrl = (status: string) => `${appUrl}/payments/return?reference=${reference}&status=${status}`
+
+  const response = await fetch(`${YOCO_API_URL}/api/checkouts`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${getSecretKey()}`,
+      "Content-Type": "application/json",
+      "Idempotency-Key": reference,
+    },
+    body: JSON.stringify({
+      amount: DOWNLOAD_PRICE_CENTS,
+      currency: CURRENCY,
+      successUrl: returnUrl("success"),
+      cancelUrl: returnUrl("cancelled"),
+      failureUrl: returnUrl("failed"),
+      metadata: { reference, userId: String(userId) },
+    }),
+    cache: "no-store",
+  }).catch((error) => {
+    throw new PaymentProviderError(`Could not reach Yoco: ${error}`)
+  })
+
+  const checkout = await response.json().catch(() => null)
+  if (!response.ok || !checkout?.id || !checkout?.redirectUrl) {
+    throw new PaymentProviderError(`Yoco checkout failed with status ${response.status}`)
+  }
+
+  const now = new Date().toISOString()
+  const payment: Payment = {
+    id: reference,
+    userId,
+    checkoutId: checkout.id,
+    amount: DOWNLOAD_PRICE_CENTS,
+    currency: CURRENCY,
+    status: "pending",
+    recordingId: purchase.recordingId,
+    songTitle: purchase.songTitle,
+    category: purchase.category,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await updateCollection<Payment, void>(PAYMENTS, (payments) => {
+    payments.push(payment)
+  })
+
+  return { payment, redirectUrl: checkout.redirectUrl }
+}
+
+export async function getPayment(id: string): Promise<Payment | null> {
+  const payments = await readCollection<Payment>(PAYMENTS)
+  return payments.find((payment) => payment.id === id) ?? null
+}
+
+// Yoco signs webhooks the Standard Webhooks way: base64 HMAC-SHA256 of "id.timestamp.body",
+// keyed with the base64 part of the whsec_ secret
+export function verifyWebhookSignature(rawBody: string, headers: Headers): boolean {
+  const secret = process.env.YOCO_WEBHOOK_SECRET
+  const id = headers.get("webhook-id")
+  const timestamp = headers.get("webhook-timestamp")
+  const signatures = headers.get("webhook-signature")
+
+  if (!secret || !id || !timestamp || !signatures) {
+    return false
+  }
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp))
+  if (!Number.isFinite(age) || age > WEBHOOK_TOLERANCE_SECONDS) {
+    return false
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64")
+  const expected = createHmac("sha256", key).update(`${id}.${timestamp}.${rawBody}`).digest()
+
+  // The header can carry several space-separated "v1,<signature>" entries while secrets are rotated
+  return signatures.split(" ").some((entry) => {
+    const [version, signature] = entry.split(",")
+    const candidate = Buffer.from(signature ?? "", "base64")
+    return version === "v1" && candidate.length === expected.length && timingSafeEqual(candidate, expected)
+  })
+}
+
+export async function applyWebhookEvent(event: WebhookEvent): Promise<Payment | null> {
+  const nextStatus: PaymentStatus | null =
+    event.type === "payment.succeeded" ? "succeeded" : event.type === "payment.failed" ? "failed" : null
+  const checkoutId = event.payload.metadata?.checkoutId
+  if (!nextStatus || !checkoutId) {
+    return null
+  }
+
+  const updated = await updateCollection<Payment, Payment | null>(PAYMENTS, (payments) => {
+    const payment = payments.find((existing) => existing.checkoutId === checkoutId)
+
+    // Redelivered events leave settled payments alone
+    if (!payment || payment.status !== "pending") {
+      return null
+    }
+
+    // Never unlock a download for less than we asked for
+    if (
+      nextStatus === "succeeded" &&
+      (event.payload.amount !== payment.amount || event.payload.currency !== payment.currency)
+    ) {
+      console.error(`Payment ${payment.id} amount mismatch: got ${event.payload.amount} ${event.payload.currency}`)
+      return null
+    }
+
+    const now = new Date().toISOString()
+    payment.status = nextStatus
+    payment.yocoPaymentId = event.payload.id
+    payment.updatedAt = now
+    if (nextStatus === "succeeded") {
+      payment.paidAt = now
+      payment.expiresAt = new Date(Date.parse(now) + RECORDING_RETENTION_MS).toISOString()
+    }
+    return { ...payment }
+  })
+
+  if (updated?.status === "succeeded") {
+    if (updated.recordingId) {
+      await extendRecordingRetention(updated.recordingId, updated.expiresAt!)
+    }
+
+    await recordActivity({
+      id: `payment_${updated.id}`,
+      userId: updated.userId,
+      eventType: "payment",
+      timestamp: updated.paidAt!,
+      details: { songTitle: updated.songTitle, category: updated.category, paymentAmount: updated.amount / 100 },
+    })
+  }
+
+  return updated
+}
+
+// A purchase whose recording is gone (deleted by its owner) counts as expired too
+export function toPurchase(payment: Payment, recordingDeleted = false): Purchase {
+  return {
+    id: payment.id,
+    recordingId: payment.recordingId,
+    songTitle: payment.songTitle,
+    category: payment.category,
+    amount: payment.amount / 100,
+    status: payment.status === "succeeded" && !recordingDeleted ? "active" : "expired",
+    purchasedAt: payment.paidAt!,
+    expiresAt: payment.expiresAt!,
+  }
+}
+
+export async function listPurchases(userId: number): Promise<Payment[]> {
+  const payments = await readCollection<Payment>(PAYMENTS)
+  return payments.filter(
+    (payment) => payment.userId === userId && (payment.status === "succeeded" || payment.status === "expired"),
+  )
+}
+
+export async function findActivePurchase(recordingId: string, userId: number): Promise<Payment | null> {
+  const purchases = await listPurchases(userId)
+  return (
+    purchases.find(
+      (payment) =>
+        payment.recordingId === recordingId &&
+        payment.status === "succeeded" &&
+        new Date(payment.expiresAt!) > new Date(),
+    ) ?? null
+  )
+}
+
+export async function expireDuePurchases(now: Date): Promise<number> {
+  return updateCollection<Payment, number>(PAYMENTS, (payments) => {
+    const due = payments.filter((payment) => payment.status === "succeeded" && new Date(payment.expiresAt!) <= now)
+    for (const payment of due) {
+      payment.status = "expired"
+      payment.updatedAt = now.toISOString()
+    }
+    return due.length
+  })
+}
+
+// Marks the warning as sent before it goes out, so overlapping runs can't email anyone twice
+export async function claimExpiryWarnings(now: Date, warnBeforeMs: number): Promise<Payment[]> {
+  return updateCollection<Payment, Payment[]>(PAYMENTS, (payments) => {
+    const due = payments.filter(
+      (payment) =>
+        payment.status === "succeeded" &&
+        !payment.expiryWarningSentAt &&
+        new Date(payment.expiresAt!).getTime() - now.getTime() <= warnBeforeMs,
+    )
+    for (const payment of due) {
+      payment.expiryWarningSentAt = now.toISOString()
+    }
+    return due.map((payment) => ({ ...payment }))
+  })
+}
@@ -0,0 +1,46 @@
+interface Window {
+  count: number
+  resetAt: number
+}
+
+// In-memory fixed-window limiter. Counts are per server process, which is fine for a single instance.
+const windows = new Map<string, Window>()
+
+export interface RateLimitResult {
+  allowed: boolean
+  retryAfter: number // seconds until the window resets
+}
+
+export function rateLimit(key: string, limit: number, windowMs: number): RateLimitResult {
+  const now = Date.now()
+  let window = windows.get(key)
+
+  if (windows.size > 10000) {
+    windows.forEach((existing, existingKey) => existing.resetAt <= now && windows.delete(existingKey))
+  }
+
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + windowMs }
+    windows.set(key, window)
+  }
+
+  window.count += 1
+  return { allowed: window.count <= limit, retryAfter: Math.ceil((window.resetAt - now) / 1000) }
+}
+
+// The client's address as seen by our own reverse proxies. X-Forwarded-For is written by whoever sends
+// the request, so only the entries our TRUSTED_PROXY_HOPS proxies appended can be believed: the
+// client is the one the outermost of them saw. Null when no proxy is configured, since then nothing
+// in the request says who sent it.
+export function getClientIp(request: Request): string | null {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS) || 0
+  if (hops <= 0) {
+    return null
+  }
+
+  const forwarded = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean)
+  return forwarded.at(-hops) ?? null
+}
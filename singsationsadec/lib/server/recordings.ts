@@ -0,0 +1,315 @@
+import { randomUUID } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import type { PerformanceScore, RecordingInfo, RecordingSync, TrackAdjustment, TranscodeStatus } from "@/lib/api"
+import { DATA_DIR, readCollection, updateCollection } from "@/lib/server/db"
+import { getStorage } from "@/lib/server/storage"
+
+export const UPLOAD_CHUNK_SIZE = 2 * 1024 * 1024
+export const MAX_RECORDING_SIZE = 500 * 1024 * 1024
+export const RECORDING_CONTENT_TYPES = ["video/webm", "video/mp4"]
+
+// How long a recording is kept after upload, and after it is paid for. The retention job deletes the file after that.
+export const RECORDING_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+// Uploads nobody has touched in this long were abandoned
+const STALE_UPLOAD_MS = 24 * 60 * 60 * 1000
+
+export interface Recording {
+  id: string
+  userId: number
+  songId: string
+  songTitle: string
+  category: string
+  storageKey: string
+  contentType: string
+  size: number
+  createdAt: string
+  expiresAt: string
+  expiredAt?: string // set once the stored file has been deleted
+  score?: PerformanceScore // measured in the browser while recording
+  sync?: RecordingSync
+  trackAdjustment?: TrackAdjustment
+  // The upload is re-encoded to H.264/AAC MP4 in the background and swapped in when done
+  transcodeStatus?: TranscodeStatus
+  posterKey?: string
+}
+
+// An upload in progress. Chunks are appended to a staging file under DATA_DIR/uploads, and
+// `received` is how far a client that lost its connection has to resume from. A finished upload is
+// kept, with the recording it became, until the stale-upload cleanup so a client that missed the
+// final response can still find its recording.
+export interface Upload {
+  id: string
+  userId: number
+  size: number
+  received: number
+  contentType: string
+  songId: string
+  songTitle: string
+  category: string
+  score?: PerformanceScore
+  sync?: RecordingSync
+  trackAdjustment?: TrackAdjustment
+  createdAt: string
+  updatedAt: string
+  completedAt?: string // every byte is in and the file is being moved into storage
+  recordingId?: string // set once the file is in storage
+}
+
+export type AppendChunkResult =
+  | { status: "not_found" }
+  | { status: "offset_mismatch"; received: number }
+  | { status: "too_large" }
+  | { status: "partial"; received: number }
+  | { status: "complete"; received: number; recording: Recording }
+  | { status: "already_complete"; received: number; recording: Recording }
+
+const UPLOADS = "uploads"
+const RECORDINGS = "recordings"
+
+const stagingPath = (uploadId: string) => path.join(DATA_DIR, "uploads", `${uploadId}.part`)
+
+// Codec parameters ("video/webm;codecs=vp8,opus") don't matter for storage
+export const baseContentType = (contentType: string) => contentType.split(";")[0].trim().toLowerCase()
+
+export async function createUpload(
+  userId: number,
+  details: Pick<
+    Upload,
+    "size" | "contentType" | "songId" | "songTitle" | "category" | "score" | "sync" | "trackAdjustment"
+  >,
+): Promise<Upload> {
+  const upload: Upload = {
+    ...details,
+    contentType: baseContentType(details.contentType),
+    id: randomUUID(),
+    userId,
+    received: 0,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  }
+
+  await fs.mkdir(path.dirname(stagingPath(upload.id)), { recursive: true })
+  await fs.writeFile(stagingPath(upload.id), "")
+  await updateCollection<Upload, void>(UPLOADS, (uploads) => {
+    uploads.push(upload)
+  })
+
+  return upload
+}
+
+export async function getUpload(id: string, userId: number): Promise<Upload | null> {
+  const uploads = await readCollection<Upload>(UPLOADS)
+  return uploads.find((upload) => upload.id === id && upload.userId === userId) ?? null
+}
+
+// Chunks must arrive in order: a chunk whose offset isn't exactly what we've received so far is
+// refused with the current offset, so a retried or duplicated chunk can never corrupt the file.
+// Moving a finished upload into storage can take a while, so it happens outside the uploads lock.
+// Any chunk sent after that is answered with the recording, since the client missed hearing about it.
+export async function appendChunk(
+  id: string,
+  userId: number,
+  offset: number,
+  chunk: Buffer,
+): Promise<AppendChunkResult> {
+  const appended = await updateCollection<Upload, AppendChunkResult | Upload>(UPLOADS, async (uploads) => {
+    const upload = uploads.find((existing) => existing.id === id && existing.userId === userId)
+    if (!upload) {
+      return { status: "not_found" }
+    }
+    if (upload.recordingId) {
+      return { ...upload }
+    }
+    if (offset !== upload.received) {
+      return { status: "offset_mismatch", received: upload.received }
+    }
+    if (upload.received + chunk.length > upload.size) {
+      return { status: "too_large" }
+    }
+
+    try {
+      await fs.appendFile(stagingPath(id), chunk)
+    } catch (error) {
+      // The collection isn't saved when this throws, so cut the staging file back to match it
+      await fs.truncate(stagingPath(id), offset).catch(() => undefined)
+      throw error
+    }
+    upload.received += chunk.length
+    upload.updatedAt = new Date().toISOString()
+
+    if (upload.received < upload.size) {
+      return { status: "partial", received: upload.received }
+    }
+    upload.completedAt = upload.updatedAt
+    return { ...upload }
+  })
+  if ("status" in appended) {
+    return appended
+  }
+  if (appended.recordingId) {
+    const recording = await getRecording(appended.recordingId)
+    return recording ? { status: "already_complete", received: appended.received, recording } : { status: "not_found" }
+  }
+
+  try {
+    const recording = await storeRecording(appended)
+    await updateCollection<Upload, void>(UPLOADS, (uploads) => {
+      const upload = uploads.find((existing) => existing.id === id)
+      if (upload) {
+        upload.recordingId = recording.id
+        upload.updatedAt = new Date().toISOString()
+      }
+    })
+    return { status: "complete", received: appended.received, recording }
+  } catch (error) {
+    // Take the last chunk back off so the client can send it again
+    await updateCollection<Upload, void>(UPLOADS, (uploads) => {
+      const upload = uploads.find((existing) => existing.id === id)
+      if (upload) {
+        upload.received = offset
+        delete upload.completedAt
+      }
+    })
+    await fs.truncate(stagingPath(id), offset).catch(() => undefined)
+    throw error
+  }
+}
+
+async function storeRecording(upload: Upload): Promise<Recording> {
+  const extension = upload.contentType === "video/mp4" ? "mp4" : "webm"
+  const now = Date.now()
+  const recording: Recording = {
+    id: `rec_${randomUUID()}`,
+    userId: upload.userId,
+    songId: upload.songId,
+    songTitle: upload.songTitle,
+    category: upload.category,
+    storageKey: "",
+    contentType: upload.contentType,
+    size: upload.size,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + RECORDING_RETENTION_MS).toISOString(),
+    score: upload.score,
+    sync: upload.sync,
+    trackAdjustment: upload.trackAdjustment,
+    transcodeStatus: "queued",
+  }
+  recording.storageKey = `recordings/${upload.userId}/${recording.id}.${extension}`
+
+  await getStorage().putFile(recording.storageKey, stagingPath(upload.id), upload.contentType)
+  await fs.rm(stagingPath(upload.id), { force: true })
+
+  await updateCollection<Recording, void>(RECORDINGS, (recordings) => {
+    recordings.push(recording)
+  })
+
+  return recording
+}
+
+export async function getRecording(id: string): Promise<Recording | null> {
+  const recordings = await readCollection<Recording>(RECORDINGS)
+  return recordings.find((recording) => recording.id === id) ?? null
+}
+
+export async function setTranscodeStatus(id: string, status: TranscodeStatus): Promise<void> {
+  await updateCollection<Recording, void>(RECORDINGS, (recordings) => {
+    const recording = recordings.find((existing) => existing.id === id)
+    if (recording) {
+      recording.transcodeStatus = status
+    }
+  })
+}
+
+// Points the recording at its transcoded file and poster, then deletes the original upload.
+// Returns false if the recording expired in the meantime, in which case the caller cleans up.
+export async function replaceRecordingFile(
+  id: string,
+  file: Pick<Recording, "storageKey" | "contentType" | "size" | "posterKey">,
+): Promise<boolean> {
+  const previousKey = await updateCollection<Recording, string | null>(RECORDINGS, (recordings) => {
+    const recording = recordings.find((existing) => existing.id === id)
+    if (!recording || recording.expiredAt) {
+      return null
+    }
+
+    const previous = recording.storageKey
+    Object.assign(recording, file, { transcodeStatus: "completed" })
+    return previous
+  })
+  if (previousKey === null) {
+    return false
+  }
+
+  if (previousKey !== file.storageKey) {
+    await getStorage().delete(previousKey)
+  }
+  return true
+}
+
+// A purchase keeps the recording for the paid access period, even if that runs past its upload retention
+export async function extendRecordingRetention(id: string, expiresAt: string): Promise<void> {
+  await updateCollection<Recording, void>(RECORDINGS, (recordings) => {
+    const recording = recordings.find((existing) => existing.id === id)
+    if (recording && !recording.expiredAt && recording.expiresAt < expiresAt) {
+      recording.expiresAt = expiresAt
+    }
+  })
+}
+
+// Deletes the stored file but keeps the record, so purchases can still say what happened to it
+export async function expireRecording(id: string): Promise<void> {
+  const recording = await getRecording(id)
+  if (!recording || recording.expiredAt) {
+    return
+  }
+
+  await getStorage().delete(recording.storageKey)
+  if (recording.posterKey) {
+    await getStorage().delete(recording.posterKey)
+  }
+  await updateCollection<Recording, void>(RECORDINGS, (recordings) => {
+    const stored = recordings.find((existing) => existing.id === id)
+    if (stored) {
+      stored.expiredAt = new Date().toISOString()
+    }
+  })
+}
+
+// `keep` lists recordings that must outlive their retention, such as competition entries still being judged
+export async function expireDueRecordings(now: Date, keep = new Set<string>()): Promise<number> {
+  const recordings = await readCollection<Recording>(RECORDINGS)
+  const due = recordings.filter(
+    (recording) => !recording.expiredAt && new Date(recording.expiresAt) <= now && !keep.has(recording.id),
+  )
+
+  for (const recording of due) {
+    await expireRecording(recording.id)
+  }
+  return due.length
+}
+
+export async function removeStaleUploads(now: Date): Promise<number> {
+  const stale = await updateCollection<Upload, Upload[]>(UPLOADS, (uploads) => {
+    const expired = uploads.filter((upload) => now.getTime() - new Date(upload.updatedAt).getTime() > STALE_UPLOAD_MS)
+    uploads.splice(0, uploads.length, ...uploads.filter((upload) => !expired.includes(upload)))
+    return expired
+  })
+
+  await Promise.all(stale.map((upload) => fs.rm(stagingPath(upload.id), { force: true })))
+  return stale.length
+}
+
+// The extension follows whatever is stored, so it changes from .webm to .mp4 once transcoding finishes
+export function downloadFilename(recording: Recording): string {
+  const extension = recording.storageKey.split(".").pop()
+  return `karaoke-${recording.songTitle.replace(/[^\w-]+/g, "-").toLowerCase()}.${extension}`
+}
+
+export const posterUrl = (recording: Recording) =>
+  recording.posterKey && !recording.expiredAt ? `/api/recordings/${recording.id}/poster` : undefined
+
+export function toRecordingInfo(recording: Recording): RecordingInfo {
+  const { userId, storageKey, expiredAt, posterKey, ...info } = recording
+  return { ...info, videoUrl: `/api/recordings/${recording.id}/video`, posterUrl: posterUrl(recording) }
+}
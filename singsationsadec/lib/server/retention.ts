@@ -0,0 +1,49 @@
+import { listRetainedRecordingIds } from "@/lib/server/entries"
+import { getMailer } from "@/lib/server/mailer"
+import { claimExpiryWarnings, expireDuePurchases } from "@/lib/server/payments"
+import { expireDueRecordings, removeStaleUploads } from "@/lib/server/recordings"
+import { findUserById } from "@/lib/server/users"
+
+const EXPIRY_WARNING_MS = 24 * 60 * 60 * 1000
+
+export interface RetentionSummary {
+  warningsSent: number
+  purchasesExpired: number
+  recordingsDeleted: number
+  uploadsRemoved: number
+}
+
+// Enforces the 7-day download promise. Safe to run as often as you like; each step only touches
+// what is due, so an hourly cron is plenty. Competition entries are kept until they're eliminated.
+export async function runRetention(now = new Date()): Promise<RetentionSummary> {
+  const retained = await listRetainedRecordingIds()
+  const warnings = await claimExpiryWarnings(now, EXPIRY_WARNING_MS)
+  for (const payment of warnings) {
+    const user = await findUserById(payment.userId)
+    if (!user) continue
+
+    const expiresAt = new Date(payment.expiresAt!).toUTCString()
+    // A competition entry outlives the download period, so only the download goes away
+    const kept = payment.recordingId !== undefined && retained.has(payment.recordingId)
+    const text = kept
+      ? `Your download of "${payment.songTitle}" ends on ${expiresAt}. Your competition entry stays with the judges, but you won't be able to download the video after that, so save it from your Sing Sation profile before then.`
+      : `Your karaoke video of "${payment.songTitle}" will be deleted on ${expiresAt}. Download it from your Sing Sation profile before then; after that it can't be recovered.`
+
+    try {
+      await getMailer().send({
+        to: user.email,
+        subject: `Your "${payment.songTitle}" ${kept ? "download" : "video"} expires soon`,
+        text: `Hi ${user.name || "there"},\n\n${text}`,
+      })
+    } catch (error) {
+      console.error(`Failed to send expiry warning for payment ${payment.id}:`, error)
+    }
+  }
+
+  return {
+    warningsSent: warnings.length,
+    purchasesExpired: await expireDuePurchases(now),
+    recordingsDeleted: await expireDueRecordings(now, retained),
+    uploadsRemoved: await removeStaleUploads(now),
+  }
+}
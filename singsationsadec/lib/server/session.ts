@@ -0,0 +1,117 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { cookies } from "next/headers"
+import type { User } from "@/lib/api"
+import { readCollection, updateCollection } from "@/lib/server/db"
+import { findUserById, toPublicUser } from "@/lib/server/users"
+
+export const SESSION_COOKIE = "singsation_session"
+
+// Matches the 2-day login cookie described in the privacy policy
+const SESSION_TTL_MS = 2 * 24 * 60 * 60 * 1000
+
+interface StoredSession {
+  id: string
+  userId: number
+  createdAt: string
+  expiresAt: string
+}
+
+const SESSIONS = "sessions"
+
+// Also keys the other HMACs the server hands out, such as signed download links
+export function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET
+  if (secret) {
+    return secret
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production")
+  }
+  return "singsation-development-secret"
+}
+
+const sign = (sessionId: string) => createHmac("sha256", getSessionSecret()).update(sessionId).digest("base64url")
+
+// Tokens are "<session id>.<HMAC of the id>"; the signature lets us reject forged cookies without a lookup
+function parseToken(token: string): string | null {
+  const [sessionId, signature] = token.split(".")
+  if (!sessionId || !signature) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(sessionId))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? sessionId : null
+}
+
+function readToken(): string | null {
+  return cookies().get(SESSION_COOKIE)?.value ?? null
+}
+
+export async function createSession(userId: number): Promise<void> {
+  const now = Date.now()
+  const session: StoredSession = {
+    id: randomBytes(24).toString("base64url"),
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+  }
+
+  await updateCollection<StoredSession, void>(SESSIONS, (sessions) => {
+    const live = sessions.filter((existing) => new Date(existing.expiresAt).getTime() > now)
+    sessions.splice(0, sessions.length, ...live, session)
+  })
+
+  const token = `${session.id}.${sign(session.id)}`
+  cookies().set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+  })
+}
+
+export async function getSessionUser(): Promise<User | null> {
+  const token = readToken()
+  const sessionId = token ? parseToken(token) : null
+  if (!sessionId) {
+    return null
+  }
+
+  const sessions = await readCollection<StoredSession>(SESSIONS)
+  const session = sessions.find((existing) => existing.id === sessionId)
+  if (!session || new Date(session.expiresAt).getTime() <= Date.now()) {
+    return null
+  }
+
+  const user = await findUserById(session.userId)
+  return user ? toPublicUser(user) : null
+}
+
+export async function destroySession(): Promise<void> {
+  const token = readToken()
+  const sessionId = token ? parseToken(token) : null
+
+  if (sessionId) {
+    await updateCollection<StoredSession, void>(SESSIONS, (sessions) => {
+      const index = sessions.findIndex((existing) => existing.id === sessionId)
+      if (index !== -1) sessions.splice(index, 1)
+    })
+  }
+
+  cookies().delete(SESSION_COOKIE)
+}
+
+export async function getAdminUser(): Promise<User | null> {
+  const user = await getSessionUser()
+  return user?.role === "admin" ? user : null
+}
+
+// Signs a user out everywhere, e.g. after their password has been reset
+export async function destroyUserSessions(userId: number): Promise<void> {
+  await updateCollection<StoredSession, void>(SESSIONS, (sessions) => {
+    const kept = sessions.filter((session) => session.userId !== userId)
+    sessions.splice(0, sessions.length, ...kept)
+  })
+}
@@ -0,0 +1,31 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { getSessionSecret } from "@/lib/server/session"
+
+// Download links stay valid for this long after they're issued
+export const DOWNLOAD_URL_TTL_SECONDS = 15 * 60
+
+// The "download:" prefix keeps these signatures from ever matching a session cookie signature
+const sign = (recordingId: string, expires: number) =>
+  createHmac("sha256", getSessionSecret()).update(`download:${recordingId}:${expires}`).digest("base64url")
+
+export function signDownloadUrl(recordingId: string, appUrl: string): { url: string; expiresAt: string } {
+  const expires = Math.floor(Date.now() / 1000) + DOWNLOAD_URL_TTL_SECONDS
+  const url = `${appUrl}/api/recordings/${encodeURIComponent(recordingId)}/download?expires=${expires}&signature=${sign(recordingId, expires)}`
+
+  return { url, expiresAt: new Date(expires * 1000).toISOString() }
+}
+
+export function verifyDownloadSignature(
+  recordingId: string,
+  expires: string | null,
+  signature: string | null,
+): boolean {
+  const expiresAt = Number(expires)
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return false
+  }
+
+  const expected = Buffer.from(sign(recordingId, expiresAt))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
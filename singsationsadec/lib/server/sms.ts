@@ -0,0 +1,40 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { DATA_DIR } from "@/lib/server/db"
+
+export interface SmsMessage {
+  to: string
+  text: string
+}
+
+export interface SmsSender {
+  send(message: SmsMessage): Promise<void>
+}
+
+// Stub transport for local development: the code shows up in the server log
+class ConsoleSmsSender implements SmsSender {
+  async send(message: SmsMessage): Promise<void> {
+    console.log(`[sms] To: ${message.to}\n${message.text}\n`)
+  }
+}
+
+// Appends each message to DATA_DIR/sms.log
+class FileSmsSender implements SmsSender {
+  constructor(private readonly filePath: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.appendFile(this.filePath, `${new Date().toISOString()} ${message.to}: ${message.text}\n`)
+  }
+}
+
+let sender: SmsSender | null = null
+
+// SMS_TRANSPORT selects the transport; an SMS gateway only needs another SmsSender implementation
+export function getSmsSender(): SmsSender {
+  if (!sender) {
+    sender =
+      process.env.SMS_TRANSPORT === "file" ? new FileSmsSender(path.join(DATA_DIR, "sms.log")) : new ConsoleSmsSender()
+  }
+  return sender
+}
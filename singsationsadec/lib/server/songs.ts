@@ -0,0 +1,57 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { Song } from "@/lib/api"
+import { isSongAllowedInCategory } from "@/lib/categories"
+
+// The catalog lives outside the bundle so tracks can be added by editing the JSON file,
+// or by pointing SONG_CATALOG_PATH at a file managed elsewhere.
+const CATALOG_PATH = process.env.SONG_CATALOG_PATH || path.join(process.cwd(), "data", "songs.json")
+
+export async function listSongs(category?: string): Promise<Song[]> {
+  const raw = await fs.readFile(CATALOG_PATH, "utf-8")
+  let songs = JSON.parse(raw) as Song[]
+
+  if (category) {
+    songs = songs.filter((song) => isSongAllowedInCategory(song, category))
+  }
+
+  return songs.sort((a, b) => a.artist.localeCompare(b.artist) || a.title.localeCompare(b.title))
+}
+
+export async function getSong(songId: string): Promise<Song | null> {
+  const songs = await listSongs()
+  return songs.find((song) => song.id === songId) ?? null
+}
+
+// The files that go with a song: null removes one
+export type SongAssets = Partial<Record<"lyricsUrl" | "melodyUrl" | "artworkUrl", string | null>>
+
+let catalogWrite: Promise<unknown> = Promise.resolve()
+
+// Admins attach lyrics, melodies and artwork from the dashboard. Like the JSON store in db.ts, writes
+// are queued so two saves can't overwrite each other, and the file is replaced atomically.
+export async function updateSongAssets(songId: string, assets: SongAssets): Promise<Song | null> {
+  const next = catalogWrite.then(async () => {
+    const songs = JSON.parse(await fs.readFile(CATALOG_PATH, "utf-8")) as Song[]
+    const song = songs.find((existing) => existing.id === songId)
+    if (!song) {
+      return null
+    }
+
+    for (const [key, value] of Object.entries(assets) as [keyof SongAssets, string | null | undefined][]) {
+      if (value === null) {
+        delete song[key]
+      } else if (value !== undefined) {
+        song[key] = value
+      }
+    }
+
+    const tempPath = `${CATALOG_PATH}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, `${JSON.stringify(songs, null, 2)}\n`)
+    await fs.rename(tempPath, CATALOG_PATH)
+    return { ...song }
+  })
+
+  catalogWrite = next.catch(() => undefined)
+  return next
+}
@@ -0,0 +1,36 @@
+import path from "path"
+import { DATA_DIR } from "@/lib/server/db"
+import { LocalStorageAdapter } from "@/lib/server/storage/local"
+import { S3StorageAdapter } from "@/lib/server/storage/s3"
+import type { StorageAdapter } from "@/lib/server/storage/types"
+
+export type { ByteRange, StorageAdapter, StoredObject } from "@/lib/server/storage/types"
+
+let storage: StorageAdapter | null = null
+
+// STORAGE_DRIVER selects the adapter: "local" (default, files under STORAGE_DIR) or "s3"
+export function getStorage(): StorageAdapter {
+  if (storage) {
+    return storage
+  }
+
+  if (process.env.STORAGE_DRIVER === "s3") {
+    const bucket = process.env.S3_BUCKET
+    if (!bucket) {
+      throw new Error("S3_BUCKET must be set when STORAGE_DRIVER is s3")
+    }
+
+    storage = new S3StorageAdapter({
+      bucket,
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    })
+  } else {
+    storage = new LocalStorageAdapter(process.env.STORAGE_DIR || path.join(DATA_DIR, "recordings"))
+  }
+
+  return storage
+}
@@ -0,0 +1,37 @@
+import { createReadStream, promises as fs } from "fs"
+import path from "path"
+import { Readable } from "stream"
+import type { ByteRange, StorageAdapter, StoredObject } from "@/lib/server/storage/types"
+
+export class LocalStorageAdapter implements StorageAdapter {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key)
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return filePath
+  }
+
+  async putFile(key: string, filePath: string): Promise<void> {
+    const target = this.resolve(key)
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    await fs.copyFile(filePath, target)
+  }
+
+  async get(key: string, range?: ByteRange): Promise<StoredObject | null> {
+    const filePath = this.resolve(key)
+    const stat = await fs.stat(filePath).catch(() => null)
+    if (!stat) {
+      return null
+    }
+
+    const stream = createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined)
+    return { body: Readable.toWeb(stream) as ReadableStream<Uint8Array>, size: stat.size }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true })
+  }
+}
@@ -0,0 +1,81 @@
+import { createReadStream, promises as fs } from "fs"
+import { DeleteObjectCommand, GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from "@aws-sdk/client-s3"
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner"
+import type { ByteRange, StorageAdapter, StoredObject } from "@/lib/server/storage/types"
+
+export interface S3StorageOptions {
+  bucket: string
+  region: string
+  endpoint?: string
+  forcePathStyle?: boolean
+  accessKeyId?: string
+  secretAccessKey?: string
+}
+
+// Works with AWS S3 and with S3-compatible stores such as OCI Object Storage, which needs its
+// compat endpoint (https://<namespace>.compat.objectstorage.<region>.oraclecloud.com) and path-style URLs
+export class S3StorageAdapter implements StorageAdapter {
+  private readonly client: S3Client
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+          : undefined,
+    })
+  }
+
+  async putFile(key: string, filePath: string, contentType: string): Promise<void> {
+    const { size } = await fs.stat(filePath)
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Body: createReadStream(filePath),
+        ContentLength: size,
+        ContentType: contentType,
+      }),
+    )
+  }
+
+  async get(key: string, range?: ByteRange): Promise<StoredObject | null> {
+    try {
+      const result = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.options.bucket,
+          Key: key,
+          Range: range ? `bytes=${range.start}-${range.end ?? ""}` : undefined,
+        }),
+      )
+      if (!result.Body) {
+        return null
+      }
+
+      // For ranged reads the total size is only in "Content-Range: bytes 0-99/12345"
+      const total = result.ContentRange ? Number(result.ContentRange.split("/")[1]) : result.ContentLength
+      return { body: result.Body.transformToWebStream(), size: total ?? 0 }
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }))
+  }
+
+  async getDownloadUrl(key: string, expiresInSeconds: number, filename: string): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      ResponseContentDisposition: `attachment; filename="${filename}"`,
+    })
+    return getSignedUrl(this.client, command, { expiresIn: expiresInSeconds })
+  }
+}
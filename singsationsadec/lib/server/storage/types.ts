@@ -0,0 +1,20 @@
+export interface ByteRange {
+  start: number
+  end?: number // inclusive, like the HTTP Range header
+}
+
+export interface StoredObject {
+  body: ReadableStream<Uint8Array>
+  size: number // size of the whole object, even when only a range was read
+}
+
+// Where finished recordings live. Uploads are assembled on local disk first and handed over
+// as a complete file, so adapters never deal with partial objects.
+export interface StorageAdapter {
+  putFile(key: string, filePath: string, contentType: string): Promise<void>
+  get(key: string, range?: ByteRange): Promise<StoredObject | null>
+  delete(key: string): Promise<void>
+  // Stores that can hand out their own expiring links (S3 presigned URLs) implement this, so large
+  // downloads skip the app server. The others are streamed through the signed download route.
+  getDownloadUrl?(key: string, expiresInSeconds: number, filename: string): Promise<string>
+}
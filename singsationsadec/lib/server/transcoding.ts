@@ -0,0 +1,249 @@
+import { spawn } from "child_process"
+import { randomUUID } from "crypto"
+import { createWriteStream, promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { Readable } from "stream"
+import { pipeline } from "stream/promises"
+import type { ReadableStream as NodeReadableStream } from "stream/web"
+import type { TranscodeStatus } from "@/lib/api"
+import { updateCollection } from "@/lib/server/db"
+import { getRecording, replaceRecordingFile, setTranscodeStatus } from "@/lib/server/recordings"
+import { getStorage } from "@/lib/server/storage"
+
+// A failed job is retried this many times in total before it is left as "failed"
+const MAX_ATTEMPTS = 3
+// ffmpeg is killed if a single run takes longer than this
+const FFMPEG_TIMEOUT_MS = 20 * 60 * 1000
+// Poster frames are taken a few seconds in, past the count-in and any fade from black
+const POSTER_OFFSET_SECONDS = 5
+
+export interface TranscodeJob {
+  id: string
+  recordingId: string
+  status: TranscodeStatus
+  attempts: number
+  error?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface TranscodeSummary {
+  completed: number
+  failed: number
+}
+
+const JOBS = "transcode_jobs"
+
+// H.264/AAC in an MP4 with the index up front, which every phone, browser and WhatsApp will play.
+// loudnorm brings every take to the same -16 LUFS, so quiet singers aren't drowned out by loud ones.
+const TRANSCODE_ARGS = [
+  ["-af", "loudnorm=I=-16:TP=-1.5:LRA=11", "-ar", "48000"],
+  ["-c:v", "libx264", "-preset", "veryfast", "-crf", "23", "-pix_fmt", "yuv420p"],
+  // yuv420p needs even dimensions
+  ["-vf", "scale=trunc(iw/2)*2:trunc(ih/2)*2"],
+  ["-c:a", "aac", "-b:a", "160k", "-movflags", "+faststart"],
+].flat()
+
+let worker: Promise<TranscodeSummary> | null = null
+let recoveredOrphans = false
+
+export async function enqueueTranscode(recordingId: string): Promise<TranscodeJob> {
+  const now = new Date().toISOString()
+  const job: TranscodeJob = {
+    id: randomUUID(),
+    recordingId,
+    status: "queued",
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await updateCollection<TranscodeJob, void>(JOBS, (jobs) => {
+    jobs.push(job)
+  })
+  return job
+}
+
+// Works through the queue one job at a time, since ffmpeg already uses every core it can get.
+// Calling this while the worker is running just returns the running worker.
+export function startTranscodeWorker(): Promise<TranscodeSummary> {
+  if (!worker) {
+    worker = drainQueue().finally(() => {
+      worker = null
+    })
+  }
+  return worker
+}
+
+async function drainQueue(): Promise<TranscodeSummary> {
+  const summary: TranscodeSummary = { completed: 0, failed: 0 }
+
+  if (!recoveredOrphans) {
+    // Jobs left "processing" belonged to a worker that died with the previous server process. They
+    // count as a failed attempt, so a take that crashes the server every time doesn't loop forever.
+    recoveredOrphans = true
+    const orphans = await updateCollection<TranscodeJob, TranscodeJob[]>(JOBS, (jobs) => {
+      const processing = jobs.filter((existing) => existing.status === "processing")
+      for (const job of processing) {
+        job.status = job.attempts >= MAX_ATTEMPTS ? "failed" : "queued"
+        job.updatedAt = new Date().toISOString()
+      }
+      return processing.map((job) => ({ ...job }))
+    })
+    for (const job of orphans) {
+      await setTranscodeStatus(job.recordingId, job.status)
+      if (job.status === "failed") {
+        summary.failed++
+      }
+    }
+  }
+
+  for (let job = await claimNextJob(); job; job = await claimNextJob()) {
+    try {
+      await transcodeRecording(job.recordingId)
+      await finishJob(job.id, "completed")
+      summary.completed++
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`Transcoding ${job.recordingId} failed (attempt ${job.attempts}):`, message)
+
+      const status = job.attempts >= MAX_ATTEMPTS ? "failed" : "queued"
+      await finishJob(job.id, status, message)
+      await setTranscodeStatus(job.recordingId, status)
+      if (status === "failed") {
+        summary.failed++
+      }
+    }
+  }
+
+  return summary
+}
+
+async function claimNextJob(): Promise<TranscodeJob | null> {
+  const job = await updateCollection<TranscodeJob, TranscodeJob | null>(JOBS, (jobs) => {
+    const next = jobs.find((existing) => existing.status === "queued")
+    if (next) {
+      next.status = "processing"
+      next.attempts++
+      next.updatedAt = new Date().toISOString()
+    }
+    return next ? { ...next } : null
+  })
+
+  if (job) {
+    await setTranscodeStatus(job.recordingId, "processing")
+  }
+  return job
+}
+
+async function finishJob(id: string, status: TranscodeStatus, error?: string): Promise<void> {
+  await updateCollection<TranscodeJob, void>(JOBS, (jobs) => {
+    const job = jobs.find((existing) => existing.id === id)
+    if (job) {
+      job.status = status
+      job.error = error
+      job.updatedAt = new Date().toISOString()
+    }
+  })
+}
+
+async function transcodeRecording(recordingId: string): Promise<void> {
+  const recording = await getRecording(recordingId)
+  if (!recording || recording.expiredAt) {
+    return // Nothing left to transcode
+  }
+
+  const storage = getStorage()
+  const object = await storage.get(recording.storageKey)
+  if (!object) {
+    throw new Error(`Recording file ${recording.storageKey} is missing`)
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "transcode-"))
+  try {
+    const sourcePath = path.join(workDir, path.basename(recording.storageKey))
+    const videoPath = path.join(workDir, "video.mp4")
+    const posterPath = path.join(workDir, "poster.jpg")
+
+    await pipeline(Readable.fromWeb(object.body as NodeReadableStream<Uint8Array>), createWriteStream(sourcePath))
+    await runFfmpeg(["-i", sourcePath, ...TRANSCODE_ARGS, videoPath])
+    const hasPoster = await extractPoster(videoPath, posterPath)
+
+    const prefix = `recordings/${recording.userId}/${recording.id}`
+    const videoKey = `${prefix}/video.mp4`
+    const posterKey = hasPoster ? `${prefix}/poster.jpg` : undefined
+
+    await storage.putFile(videoKey, videoPath, "video/mp4")
+    if (posterKey) {
+      await storage.putFile(posterKey, posterPath, "image/jpeg")
+    }
+
+    const { size } = await fs.stat(videoPath)
+    const replaced = await replaceRecordingFile(recording.id, {
+      storageKey: videoKey,
+      contentType: "video/mp4",
+      size,
+      posterKey,
+    })
+    if (!replaced) {
+      // Expired while we were working, so the new files must not outlive it
+      await storage.delete(videoKey)
+      if (posterKey) {
+        await storage.delete(posterKey)
+      }
+    }
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true })
+  }
+}
+
+// Falls back to the first frame for takes shorter than the poster offset. A missing poster
+// doesn't fail the job; the profile just shows no thumbnail.
+async function extractPoster(videoPath: string, posterPath: string): Promise<boolean> {
+  for (const offset of [POSTER_OFFSET_SECONDS, 0]) {
+    try {
+      await runFfmpeg(["-ss", String(offset), "-i", videoPath, "-frames:v", "1", "-vf", "scale=640:-2", posterPath])
+      // ffmpeg succeeds without writing anything when the offset is past the end
+      const size = await fs
+        .stat(posterPath)
+        .then((stat) => stat.size)
+        .catch(() => 0)
+      if (size > 0) {
+        return true
+      }
+    } catch (error) {
+      console.error(`Poster at ${offset}s failed:`, error instanceof Error ? error.message : error)
+    }
+  }
+  return false
+}
+
+// FFMPEG_PATH points at the ffmpeg binary when it isn't on the PATH
+function runFfmpeg(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(process.env.FFMPEG_PATH || "ffmpeg", ["-hide_banner", "-nostdin", "-y", ...args], {
+      stdio: ["ignore", "ignore", "pipe"],
+    })
+
+    // Only the end of stderr says what went wrong
+    let stderr = ""
+    ffmpeg.stderr.on("data", (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-2000)
+    })
+
+    const timer = setTimeout(() => ffmpeg.kill("SIGKILL"), FFMPEG_TIMEOUT_MS)
+    ffmpeg.on("error", (error) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    ffmpeg.on("close", (code, signal) => {
+      clearTimeout(timer)
+      if (code === 0) {
+        resolve()
+      } else {
+        reject(new Error(`ffmpeg exited with ${signal ?? code}: ${stderr.trim().split("\n").pop()}`))
+      }
+    })
+  })
+}
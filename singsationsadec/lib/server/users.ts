@@ -0,0 +1,97 @@
+import type { User, UserRole } from "@/lib/api"
+import { readCollection, updateCollection } from "@/lib/server/db"
+import { normalizePhone } from "@/lib/server/otp"
+
+export interface StoredUser extends User {
+  passwordHash: string
+}
+
+const USERS = "users"
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+// ADMIN_EMAILS bootstraps the first admins. Their accounts only get the admin role once the address is
+// verified, so whoever registers an admin address first can't claim the dashboard with it.
+export function isBootstrapAdmin(email: string): boolean {
+  const adminEmails = (process.env.ADMIN_EMAILS || "").split(",").map(normalizeEmail).filter(Boolean)
+  return adminEmails.includes(normalizeEmail(email))
+}
+
+export function toPublicUser({ passwordHash: _, ...user }: StoredUser): User {
+  // Accounts created before roles existed have no role stored
+  return { ...user, role: user.role ?? "user" }
+}
+
+export async function findUserByEmail(email: string): Promise<StoredUser | null> {
+  const users = await readCollection<StoredUser>(USERS)
+  return users.find((user) => user.email === normalizeEmail(email)) ?? null
+}
+
+// Phones are stored as entered by older accounts, so compare normalised forms
+export async function findUserByPhone(phone: string): Promise<StoredUser | null> {
+  const normalized = normalizePhone(phone)
+  if (!normalized) {
+    return null
+  }
+
+  const users = await readCollection<StoredUser>(USERS)
+  return users.find((user) => !!user.phone && normalizePhone(user.phone) === normalized) ?? null
+}
+
+export async function findUserById(id: number): Promise<StoredUser | null> {
+  const users = await readCollection<StoredUser>(USERS)
+  return users.find((user) => user.id === id) ?? null
+}
+
+export async function listUsers(): Promise<StoredUser[]> {
+  return readCollection<StoredUser>(USERS)
+}
+
+export type CreateUserResult =
+  { status: "created"; user: StoredUser } | { status: "email_taken" } | { status: "phone_taken" }
+
+// Checked inside the update so two signups can't both claim an email or phone
+export async function createUser(data: Omit<StoredUser, "id" | "created_at" | "role">): Promise<CreateUserResult> {
+  return updateCollection<StoredUser, CreateUserResult>(USERS, (users) => {
+    const email = normalizeEmail(data.email)
+    if (users.some((user) => user.email === email)) {
+      return { status: "email_taken" }
+    }
+    const phone = data.phone ? normalizePhone(data.phone) : null
+    if (phone && users.some((user) => !!user.phone && normalizePhone(user.phone) === phone)) {
+      return { status: "phone_taken" }
+    }
+
+    const user: StoredUser = {
+      ...data,
+      email,
+      id: users.reduce((max, user) => Math.max(max, user.id), 0) + 1,
+      role: "user",
+      created_at: new Date().toISOString(),
+    }
+    users.push(user)
+    return { status: "created", user }
+  })
+}
+
+export async function updateUser(
+  id: number,
+  changes: Partial<Omit<StoredUser, "id" | "email">>,
+): Promise<StoredUser | null> {
+  return updateCollection<StoredUser, StoredUser | null>(USERS, (users) => {
+    const user = users.find((existing) => existing.id === id)
+    if (!user) {
+      return null
+    }
+    Object.assign(user, changes)
+    return user
+  })
+}
+
+export async function ensureBootstrapRole(user: StoredUser): Promise<StoredUser> {
+  if (user.role === "admin" || user.email_verified !== true || !isBootstrapAdmin(user.email)) {
+    return user
+  }
+  const role: UserRole = "admin"
+  return (await updateUser(user.id, { role })) ?? user
+}
@@ -0,0 +1,59 @@
+// Noise gate for the vocal effects chain. It turns the microphone down between phrases, so breathing,
+// room noise and whatever is left of the backing track don't get reverb and compression piled on top.
+// Runs on the audio thread; loaded with audioWorklet.addModule("/worklets/noise-gate.js").
+
+// How far the gate turns the signal down when closed (about -30 dB), rather than muting outright,
+// which sounds choppy
+const FLOOR = 0.03
+// Stays open this long after the voice drops below the threshold, so word endings aren't clipped
+const HOLD_SECONDS = 0.12
+
+const smoothing = (seconds) => 1 - Math.exp(-1 / (seconds * sampleRate))
+
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    // dB below full scale at which the gate opens
+    return [{ name: "threshold", defaultValue: -50, minValue: -120, maxValue: 0, automationRate: "k-rate" }]
+  }
+
+  constructor() {
+    super()
+    this.envelope = 0
+    this.gain = FLOOR
+    this.hold = 0
+    this.attack = smoothing(0.002)
+    this.release = smoothing(0.15)
+    this.envelopeDecay = 1 - smoothing(0.01)
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+    if (input.length === 0) return true
+
+    const threshold = Math.pow(10, parameters.threshold[0] / 20)
+    const holdSamples = HOLD_SECONDS * sampleRate
+
+    for (let index = 0; index < input[0].length; index++) {
+      let level = 0
+      for (const channel of input) level = Math.max(level, Math.abs(channel[index]))
+      this.envelope = Math.max(level, this.envelope * this.envelopeDecay)
+
+      if (this.envelope >= threshold) {
+        this.hold = holdSamples
+      } else if (this.hold > 0) {
+        this.hold--
+      }
+
+      const target = this.hold > 0 ? 1 : FLOOR
+      this.gain += (target - this.gain) * (target > this.gain ? this.attack : this.release)
+
+      for (let channel = 0; channel < output.length; channel++) {
+        output[channel][index] = (input[channel] ?? input[0])[index] * this.gain
+      }
+    }
+    return true
+  }
+}
+
+registerProcessor("noise-gate", NoiseGateProcessor)
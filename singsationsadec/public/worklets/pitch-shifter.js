@@ -0,0 +1,78 @@
+// Pitch shifter for the backing track's key and tempo controls. The media element is slowed down or
+// sped up with its own pitch correction off, so the music changes pitch along with the tempo; this
+// shifts it back (and on by the chosen number of semitones) without changing its length.
+// Runs on the audio thread; loaded with audioWorklet.addModule("/worklets/pitch-shifter.js").
+//
+// It reads the input through two taps on a delay line that slide at the rate needed to raise or lower
+// the pitch, each fading in and out so the jump when a tap wraps around is never heard.
+
+// Length of each tap's sweep. Longer is smoother on sustained notes, shorter smears drums less.
+const WINDOW_SECONDS = 0.05
+
+class PitchShifterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    // Output pitch over input pitch: 2 is an octave up, 0.5 an octave down
+    return [{ name: "ratio", defaultValue: 1, minValue: 0.25, maxValue: 4, automationRate: "k-rate" }]
+  }
+
+  constructor() {
+    super()
+    this.window = Math.round(WINDOW_SECONDS * sampleRate)
+    this.size = this.window * 2
+    this.buffers = []
+    this.writeIndex = 0
+    this.phase = 0
+  }
+
+  // Linear interpolation between the two samples either side of a fractional delay
+  read(buffer, delay) {
+    const position = this.writeIndex - delay + this.size
+    const index = Math.floor(position)
+    const fraction = position - index
+    const a = buffer[index % this.size]
+    const b = buffer[(index + 1) % this.size]
+    return a + (b - a) * fraction
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+    if (input.length === 0) return true
+
+    while (this.buffers.length < input.length) this.buffers.push(new Float32Array(this.size))
+
+    const ratio = parameters.ratio[0]
+    // At the original pitch the taps would only add a comb-filter colour, so pass the input straight through
+    const bypass = Math.abs(ratio - 1) < 1e-3
+    const step = (1 - ratio) / this.window
+
+    for (let index = 0; index < input[0].length; index++) {
+      for (let channel = 0; channel < input.length; channel++) {
+        this.buffers[channel][this.writeIndex] = input[channel][index]
+      }
+
+      const phaseA = this.phase
+      const phaseB = (this.phase + 0.5) % 1
+      // sin² windows half a cycle apart always add up to one
+      const gainA = Math.sin(Math.PI * phaseA) ** 2
+      const gainB = 1 - gainA
+
+      for (let channel = 0; channel < output.length; channel++) {
+        const source = input[channel] ?? input[0]
+        if (bypass) {
+          output[channel][index] = source[index]
+          continue
+        }
+        const buffer = this.buffers[channel] ?? this.buffers[0]
+        output[channel][index] =
+          this.read(buffer, phaseA * this.window) * gainA + this.read(buffer, phaseB * this.window) * gainB
+      }
+
+      this.phase = (((this.phase + step) % 1) + 1) % 1
+      this.writeIndex = (this.writeIndex + 1) % this.size
+    }
+    return true
+  }
+}
+
+registerProcessor("pitch-shifter", PitchShifterProcessor)
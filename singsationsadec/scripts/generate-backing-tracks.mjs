@@ -0,0 +1,95 @@
+// Writes the backing tracks for the public-domain songs in the catalog to public/backing. They are
+// synthesised from a chord chart (an oom-pah-pah piano, no vocal line), so like the impulse responses
+// they aren't checked in: this runs before every dev and build, or by hand with
+//
+//   node scripts/generate-backing-tracks.mjs
+//
+// Bar 0 starts at 0 s. The lyrics and melody files for each song are timed against the same bars.
+import { mkdirSync, writeFileSync } from "fs"
+import path from "path"
+
+const SAMPLE_RATE = 22050
+const OUTPUT_DIR = path.join(process.cwd(), "public", "backing")
+
+// Bass note and the chord above it, as MIDI note numbers
+const CHORDS = {
+  G: [43, [55, 59, 62]],
+  G7: [43, [53, 59, 62]],
+  C: [36, [55, 60, 64]],
+  D: [38, [54, 57, 62]],
+  D7: [38, [54, 57, 60]],
+}
+
+const TRACKS = {
+  // "New Britain" (1829) with John Newton's words (1779), in G. Two bars of introduction, then the
+  // pickup on the last beat of the third bar; one chord per bar.
+  "amazing-grace": {
+    bpm: 80,
+    beatsPerBar: 3,
+    bars: ["G", "D", "G", "G", "G", "C", "G", "G", "D", "D", "D7", "G", "G7", "C", "G", "G", "D", "G", "G"],
+    tail: 2.25, // seconds for the last chord to ring out
+  },
+}
+
+const frequency = (midi) => 440 * Math.pow(2, (midi - 69) / 12)
+
+// A few decaying harmonics, which is close enough to a piano to sing along to
+function addNote(samples, midi, start, level) {
+  const length = Math.min(samples.length - Math.floor(start * SAMPLE_RATE), Math.floor(1.6 * SAMPLE_RATE))
+  const offset = Math.floor(start * SAMPLE_RATE)
+  const pitch = frequency(midi)
+
+  for (let index = 0; index < length; index++) {
+    const time = index / SAMPLE_RATE
+    const attack = 1 - Math.exp(-time * 300)
+    let sample = 0
+    for (let harmonic = 1; harmonic <= 4; harmonic++) {
+      sample +=
+        (Math.sin(2 * Math.PI * pitch * harmonic * time) / Math.pow(harmonic, 1.5)) * Math.exp(-time * (1.5 + harmonic))
+    }
+    samples[offset + index] += sample * attack * level
+  }
+}
+
+function backingTrack({ bpm, beatsPerBar, bars, tail }) {
+  const beat = 60 / bpm
+  const samples = new Float32Array(Math.ceil((bars.length * beatsPerBar * beat + tail) * SAMPLE_RATE))
+
+  bars.forEach((chord, bar) => {
+    const [bass, triad] = CHORDS[chord]
+    const barStart = bar * beatsPerBar * beat
+    addNote(samples, bass, barStart, 0.5)
+    for (let step = 1; step < beatsPerBar; step++) {
+      triad.forEach((midi) => addNote(samples, midi, barStart + step * beat, 0.2))
+    }
+  })
+
+  const peak = samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0)
+  return samples.map((sample) => (sample / peak) * 0.8)
+}
+
+// 16-bit mono PCM
+function encodeWav(samples) {
+  const buffer = Buffer.alloc(44 + samples.length * 2)
+  buffer.write("RIFF", 0)
+  buffer.writeUInt32LE(36 + samples.length * 2, 4)
+  buffer.write("WAVEfmt ", 8)
+  buffer.writeUInt32LE(16, 16)
+  buffer.writeUInt16LE(1, 20)
+  buffer.writeUInt16LE(1, 22)
+  buffer.writeUInt32LE(SAMPLE_RATE, 24)
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28)
+  buffer.writeUInt16LE(2, 32)
+  buffer.writeUInt16LE(16, 34)
+  buffer.write("data", 36)
+  buffer.writeUInt32LE(samples.length * 2, 40)
+  samples.forEach((sample, index) => buffer.writeInt16LE(Math.round(sample * 32767), 44 + index * 2))
+  return buffer
+}
+
+mkdirSync(OUTPUT_DIR, { recursive: true })
+Object.entries(TRACKS).forEach(([name, track]) => {
+  const file = path.join(OUTPUT_DIR, `${name}.wav`)
+  writeFileSync(file, encodeWav(backingTrack(track)))
+  console.log(`Wrote ${file}`)
+})
@@ -0,0 +1,93 @@
+// Writes the reverb impulse responses in public/impulse-responses. They are synthetic (decaying
+// filtered noise rather than recorded spaces), so they aren't checked in: this runs before every
+// dev and build, or by hand with
+//
+//   node scripts/generate-impulse-responses.mjs
+import { mkdirSync, writeFileSync } from "fs"
+import path from "path"
+
+const SAMPLE_RATE = 44100
+const OUTPUT_DIR = path.join(process.cwd(), "public", "impulse-responses")
+
+// decay: seconds to fall by 60 dB. damping: how quickly the highs die away compared with the lows.
+// reflections: discrete early echoes off nearby walls, as [seconds, level].
+const SPACES = {
+  room: {
+    decay: 0.5,
+    preDelay: 0.004,
+    damping: 0.6,
+    reflections: [
+      [0.007, 0.5],
+      [0.013, 0.35],
+      [0.021, 0.25],
+    ],
+  },
+  plate: { decay: 1.4, preDelay: 0, damping: 0.15, reflections: [] },
+  hall: {
+    decay: 2.4,
+    preDelay: 0.02,
+    damping: 0.45,
+    reflections: [
+      [0.023, 0.4],
+      [0.037, 0.3],
+      [0.051, 0.2],
+    ],
+  },
+}
+
+// Seeded so the files come out byte-identical every time
+function random(seed) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function impulseResponse({ decay, preDelay, damping, reflections }, seed) {
+  const length = Math.ceil((preDelay + decay) * SAMPLE_RATE)
+  const samples = new Float32Array(length)
+  const noise = random(seed)
+  let lowpassed = 0
+
+  for (let index = Math.floor(preDelay * SAMPLE_RATE); index < length; index++) {
+    const time = index / SAMPLE_RATE - preDelay
+    // The tail gets darker as it decays, like real air and walls absorbing the highs first
+    const smoothing = Math.min(0.95, damping * (time / decay) * 2)
+    lowpassed = lowpassed * smoothing + (noise() * 2 - 1) * (1 - smoothing)
+    samples[index] = lowpassed * Math.pow(10, (-3 * time) / decay)
+  }
+  for (const [time, level] of reflections) {
+    samples[Math.floor((preDelay + time) * SAMPLE_RATE)] += noise() < 0.5 ? -level : level
+  }
+
+  const peak = samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0)
+  return samples.map((sample) => sample / peak)
+}
+
+// 16-bit mono PCM
+function encodeWav(samples) {
+  const buffer = Buffer.alloc(44 + samples.length * 2)
+  buffer.write("RIFF", 0)
+  buffer.writeUInt32LE(36 + samples.length * 2, 4)
+  buffer.write("WAVEfmt ", 8)
+  buffer.writeUInt32LE(16, 16)
+  buffer.writeUInt16LE(1, 20)
+  buffer.writeUInt16LE(1, 22)
+  buffer.writeUInt32LE(SAMPLE_RATE, 24)
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28)
+  buffer.writeUInt16LE(2, 32)
+  buffer.writeUInt16LE(16, 34)
+  buffer.write("data", 36)
+  buffer.writeUInt32LE(samples.length * 2, 40)
+  samples.forEach((sample, index) => buffer.writeInt16LE(Math.round(sample * 32767), 44 + index * 2))
+  return buffer
+}
+
+mkdirSync(OUTPUT_DIR, { recursive: true })
+Object.entries(SPACES).forEach(([name, space], index) => {
+  const file = path.join(OUTPUT_DIR, `${name}.wav`)
+  writeFileSync(file, encodeWav(impulseResponse(space, index + 1)))
+  console.log(`Wrote ${file}`)
+})
@@ -0,0 +1,166 @@
+// Stand-in for the Yoco checkout API and hosted payment page, for local testing.
+//
+//   YOCO_WEBHOOK_SECRET=whsec_... pnpm mock:yoco
+//
+// Point the app at it with YOCO_API_URL=http://localhost:4010 and the same YOCO_WEBHOOK_SECRET.
+// The payment page lets you approve, decline or cancel; approving and declining send a signed
+// webhook to WEBHOOK_URL before redirecting back to the app, just like the real thing.
+import { createHmac, randomBytes } from "crypto"
+import http from "http"
+
+const PORT = Number(process.env.MOCK_YOCO_PORT || 4010)
+const WEBHOOK_URL = process.env.WEBHOOK_URL || "http://localhost:3000/api/payments/webhook"
+const WEBHOOK_SECRET = process.env.YOCO_WEBHOOK_SECRET
+
+if (!WEBHOOK_SECRET?.startsWith("whsec_")) {
+  console.error("Set YOCO_WEBHOOK_SECRET to a whsec_<base64> secret (the app must use the same one).")
+  process.exit(1)
+}
+
+const checkouts = new Map()
+const newId = (prefix) => `${prefix}_${randomBytes(12).toString("hex")}`
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let body = ""
+    request.on("data", (chunk) => (body += chunk))
+    request.on("end", () => resolve(body))
+    request.on("error", reject)
+  })
+}
+
+function sendJson(response, status, data) {
+  response.writeHead(status, { "Content-Type": "application/json" })
+  response.end(JSON.stringify(data))
+}
+
+function redirect(response, location) {
+  response.writeHead(303, { Location: location })
+  response.end()
+}
+
+async function sendWebhook(type, checkout) {
+  const body = JSON.stringify({
+    id: newId("evt"),
+    type,
+    createdDate: new Date().toISOString(),
+    payload: {
+      id: newId("p"),
+      type: "payment",
+      amount: checkout.amount,
+      currency: checkout.currency,
+      status: type === "payment.succeeded" ? "succeeded" : "failed",
+      metadata: { ...checkout.metadata, checkoutId: checkout.id },
+    },
+  })
+
+  const id = newId("msg")
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const key = Buffer.from(WEBHOOK_SECRET.replace(/^whsec_/, ""), "base64")
+  const signature = createHmac("sha256", key).update(`${id}.${timestamp}.${body}`).digest("base64")
+
+  try {
+    const response = await fetch(WEBHOOK_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "webhook-id": id,
+        "webhook-timestamp": timestamp,
+        "webhook-signature": `v1,${signature}`,
+      },
+      body,
+    })
+    console.log(`webhook ${type} for ${checkout.id} -> ${response.status}`)
+  } catch (error) {
+    console.error(`webhook ${type} for ${checkout.id} failed:`, error.message)
+  }
+}
+
+function paymentPage(checkout) {
+  const action = (name, label, color) =>
+    `<form method="post" action="/checkout/${checkout.id}/${name}"><button style="background:${color}">${label}</button></form>`
+
+  return `<!doctype html>
+<html>
+  <head><title>Mock Yoco checkout</title></head>
+  <body style="font-family:sans-serif;max-width:360px;margin:48px auto;text-align:center">
+    <h1>Mock Yoco</h1>
+    <p>Pay <strong>R${(checkout.amount / 100).toFixed(2)}</strong> (${checkout.currency})</p>
+    <p><small>${checkout.metadata?.reference ?? checkout.id}</small></p>
+    <style>button{width:100%;padding:12px;margin:6px 0;border:0;border-radius:6px;color:#fff;font-size:16px;cursor:pointer}</style>
+    ${action("pay", "Pay", "#16a34a")}
+    ${action("decline", "Decline card", "#dc2626")}
+    ${action("cancel", "Cancel", "#6b7280")}
+  </body>
+</html>`
+}
+
+const server = http.createServer(async (request, response) => {
+  const url = new URL(request.url, `http://localhost:${PORT}`)
+
+  if (request.method === "POST" && url.pathname === "/api/checkouts") {
+    if (!request.headers.authorization?.startsWith("Bearer ")) {
+      return sendJson(response, 401, { errorMessage: "Missing secret key" })
+    }
+
+    let data
+    try {
+      data = JSON.parse(await readBody(request))
+    } catch {
+      return sendJson(response, 400, { errorMessage: "Invalid JSON" })
+    }
+    if (!Number.isInteger(data.amount) || !data.currency) {
+      return sendJson(response, 400, { errorMessage: "amount and currency are required" })
+    }
+
+    const checkout = { ...data, id: newId("ch"), status: "created" }
+    checkouts.set(checkout.id, checkout)
+    console.log(`checkout ${checkout.id} created for ${checkout.amount} ${checkout.currency}`)
+
+    return sendJson(response, 200, {
+      id: checkout.id,
+      status: checkout.status,
+      amount: checkout.amount,
+      currency: checkout.currency,
+      metadata: checkout.metadata,
+      redirectUrl: `http://localhost:${PORT}/checkout/${checkout.id}`,
+    })
+  }
+
+  const match = url.pathname.match(/^\/checkout\/([\w]+)(?:\/(pay|decline|cancel))?$/)
+  const checkout = match && checkouts.get(match[1])
+  if (!checkout) {
+    response.writeHead(404)
+    return response.end("Not found")
+  }
+
+  if (request.method === "GET" && !match[2]) {
+    response.writeHead(200, { "Content-Type": "text/html" })
+    return response.end(paymentPage(checkout))
+  }
+
+  if (request.method === "POST" && match[2]) {
+    if (checkout.status !== "created") {
+      return redirect(response, checkout.status === "completed" ? checkout.successUrl : checkout.failureUrl)
+    }
+
+    if (match[2] === "pay") {
+      checkout.status = "completed"
+      await sendWebhook("payment.succeeded", checkout)
+      return redirect(response, checkout.successUrl)
+    }
+    if (match[2] === "decline") {
+      checkout.status = "failed"
+      await sendWebhook("payment.failed", checkout)
+      return redirect(response, checkout.failureUrl)
+    }
+    return redirect(response, checkout.cancelUrl)
+  }
+
+  response.writeHead(405)
+  response.end("Method not allowed")
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock Yoco listening on http://localhost:${PORT}, sending webhooks to ${WEBHOOK_URL}`)
+})
@@ -0,0 +1,20 @@
+// Triggers the retention job: expiry warnings, expired purchases, deleting expired recordings and
+// abandoned uploads. Schedule it hourly, e.g. with cron:
+//
+//   0 * * * * cd /srv/singsation && APP_URL=https://app.sing-sation.com CRON_SECRET=... pnpm retention
+const APP_URL = process.env.APP_URL || "http://localhost:3000"
+const CRON_SECRET = process.env.CRON_SECRET
+
+if (!CRON_SECRET) {
+  console.error("Set CRON_SECRET to the same value the app uses.")
+  process.exit(1)
+}
+
+const response = await fetch(`${APP_URL}/api/cron/retention`, {
+  method: "POST",
+  headers: { Authorization: `Bearer ${CRON_SECRET}` },
+})
+const result = await response.json().catch(() => ({ message: `HTTP ${response.status}` }))
+
+console.log(result)
+process.exit(response.ok ? 0 : 1)